@@ -1,5 +1,7 @@
 import { useSubscription } from "@/hooks/useSubscription";
 import { useAuth } from "@/hooks/useAuth";
+import { useUsageLimit } from "@/hooks/useUsageLimit";
+import { formatTokens } from "@/lib/usage";
 import { Button } from "./ui/button";
 import { Card, CardContent } from "./ui/card";
 import { Crown, CreditCard } from "lucide-react";
@@ -9,6 +11,7 @@ import { useToast } from "@/components/ui/use-toast";
 export const SubscriptionBanner = () => {
   const { user } = useAuth();
   const { subscribed, loading, createCheckout, openCustomerPortal } = useSubscription();
+  const { quota, remainingMessages, remainingTokens, messageLimit, tokenLimit } = useUsageLimit();
   const { toast } = useToast();
 
   if (!user || loading) return null;
@@ -43,6 +46,14 @@ export const SubscriptionBanner = () => {
           <p className="text-sm text-muted-foreground">
             Get unlimited access to all AI models for just $5/month
           </p>
+          {quota && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Today: {messageLimit === null ? "unlimited sends" : `${remainingMessages}/${messageLimit} sends`}
+              {" · "}
+              {tokenLimit === null ? "unlimited tokens" : `${formatTokens(remainingTokens)}/${formatTokens(tokenLimit)} tokens`} left
+              {" "}(an "All AIs" send counts once; tokens count per reply)
+            </p>
+          )}
         </div>
         <Button onClick={async () => {
           // Test health first
@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { useToast } from '@/components/ui/use-toast';
+import { PROVIDERS, PROVIDER_IDS } from '@/lib/providers';
+import {
+  TELEMETRY_RANGES,
+  TELEMETRY_ROW_LIMIT,
+  errorRate,
+  errorsByClass,
+  formatMs,
+  p95Latency,
+  providerHealth,
+  timeSeries,
+  type ProviderRequest,
+  type TelemetryRange,
+} from '@/lib/telemetry';
+
+const chartConfig: ChartConfig = Object.fromEntries(
+  PROVIDERS.map(p => [p.id, { label: p.name, color: `hsl(var(--${p.color}))` }])
+);
+
+const formatPercent = (value: number | null) =>
+  value === null ? '–' : `${(value * 100).toFixed(1)}%`;
+
+export function ProviderMetrics() {
+  const { toast } = useToast();
+  const [range, setRange] = useState<TelemetryRange>('24h');
+  const [rows, setRows] = useState<ProviderRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadRequests = async () => {
+      setLoading(true);
+      const since = new Date(Date.now() - TELEMETRY_RANGES[range].hours * 3600_000).toISOString();
+      const { data, error } = await supabase
+        .from('provider_requests')
+        .select('provider, model_id, status, error_class, http_status, ttft_ms, latency_ms, web_search_used, created_at')
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(TELEMETRY_ROW_LIMIT);
+
+      if (error) {
+        console.error('Error loading provider telemetry:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load provider metrics",
+          variant: "destructive",
+        });
+      } else {
+        setRows((data || []) as ProviderRequest[]);
+      }
+      setLoading(false);
+    };
+
+    loadRequests();
+  }, [range, toast]);
+
+  const health = useMemo(() => providerHealth(rows, PROVIDER_IDS), [rows]);
+  const latencySeries = useMemo(() => timeSeries(rows, PROVIDER_IDS, range, p95Latency), [rows, range]);
+  const errorSeries = useMemo(() => timeSeries(rows, PROVIDER_IDS, range, errorRate), [rows, range]);
+  const errorClasses = useMemo(() => errorsByClass(rows, PROVIDER_IDS), [rows]);
+
+  const bucketLabel = (bucket: string) =>
+    format(new Date(bucket), range === '24h' ? 'HH:mm' : 'MMM d HH:mm');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {loading ? 'Loading…' : `${rows.length} requests`}
+          {rows.length === TELEMETRY_ROW_LIMIT && ' (most recent only)'}
+        </p>
+        <Select value={range} onValueChange={(value) => setRange(value as TelemetryRange)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(TELEMETRY_RANGES).map(([key, { label }]) => (
+              <SelectItem key={key} value={key}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Provider Health</CardTitle>
+          <CardDescription>
+            Availability counts every request that reached the provider; latencies cover successful requests
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Provider</TableHead>
+                <TableHead className="text-right">Requests</TableHead>
+                <TableHead className="text-right">Availability</TableHead>
+                <TableHead className="text-right">TTFT p50 / p95</TableHead>
+                <TableHead className="text-right">Latency p50 / p95</TableHead>
+                <TableHead className="text-right">Web search</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {health.map(h => {
+                const provider = PROVIDERS.find(p => p.id === h.provider);
+                return (
+                  <TableRow key={h.provider}>
+                    <TableCell>{provider?.icon} {provider?.name ?? h.provider}</TableCell>
+                    <TableCell className="text-right">{h.requests}</TableCell>
+                    <TableCell className="text-right">
+                      {formatPercent(h.availability)}
+                      {h.errors > 0 && (
+                        <span className="text-xs text-destructive ml-1">({h.errors} failed)</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMs(h.p50TtftMs)} / {formatMs(h.p95TtftMs)}</TableCell>
+                    <TableCell className="text-right">{formatMs(h.p50LatencyMs)} / {formatMs(h.p95LatencyMs)}</TableCell>
+                    <TableCell className="text-right">{h.webSearchRequests}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>p95 Latency</CardTitle>
+            <CardDescription>Total request time of successful requests</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig}>
+              <LineChart data={latencySeries}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="bucket" tickFormatter={bucketLabel} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickFormatter={(ms: number) => formatMs(ms)} tickLine={false} axisLine={false} width={56} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => bucketLabel(payload[0]?.payload.bucket)} />}
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {PROVIDER_IDS.map(id => (
+                  <Line key={id} dataKey={id} type="monotone" stroke={`var(--color-${id})`} strokeWidth={2} dot={false} />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Error Rate</CardTitle>
+            <CardDescription>Share of failed requests per interval</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig}>
+              <LineChart data={errorSeries}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="bucket" tickFormatter={bucketLabel} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickFormatter={(value: number) => formatPercent(value)} domain={[0, 1]} tickLine={false} axisLine={false} width={56} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => bucketLabel(payload[0]?.payload.bucket)} />}
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {PROVIDER_IDS.map(id => (
+                  <Line key={id} dataKey={id} type="monotone" stroke={`var(--color-${id})`} strokeWidth={2} dot={false} />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Errors by Class</CardTitle>
+          <CardDescription>Rate limits, auth failures, provider outages and stream errors</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {errorClasses.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No errors in this range</p>
+          ) : (
+            <ChartContainer config={chartConfig} className="aspect-[3/1]">
+              <BarChart data={errorClasses}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="errorClass" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {PROVIDER_IDS.map(id => (
+                  <Bar key={id} dataKey={id} stackId="errors" fill={`var(--color-${id})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useSubscription } from '@/hooks/useSubscription';
 import { useUsageLimit } from '@/hooks/useUsageLimit';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { Send, MessageSquare, Plus, Trash2, Bot, Users, LogOut, User, Forward, ChevronDown, Paperclip, X, File, Download, FileText, Square, BookOpen } from 'lucide-react';
+import { Send, MessageSquare, Plus, Trash2, Bot, Users, LogOut, User, Forward, ChevronDown, Paperclip, Camera, ImageOff, X, Download, FileText, Square, BookOpen, Scale, ThumbsUp, ThumbsDown, Trophy, Pencil, RotateCcw, ChevronLeft, ChevronRight } from 'lucide-react';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import { Badge } from '@/components/ui/badge';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
@@ -17,6 +17,7 @@ import { cn } from '@/lib/utils';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
 import KnowledgeManager from './KnowledgeManager';
 import LedgerSearcher from './LedgerSearcher';
@@ -24,10 +25,35 @@ import { ResearchLibrary } from '@/components/research/ResearchLibrary';
 import { useAuth } from '@/hooks/useAuth';
 import { MobileBottomNav } from './MobileBottomNav';
 import { MobileAISelector } from './MobileAISelector';
+import { JudgeVerdictCard } from './JudgeVerdictCard';
+import { DebateDialog } from './DebateDialog';
+import { SessionSettingsDialog } from './SessionSettingsDialog';
+import { TemplateManager } from './TemplateManager';
+import { TemplateSlashMenu } from './TemplateSlashMenu';
+import { TemplateVariablesDialog } from './TemplateVariablesDialog';
+import { RoundLayout } from './RoundLayout';
+import { EditPromptDialog } from './EditPromptDialog';
+import { SearchDialog } from './SearchDialog';
+import { ContextChunks } from './ContextChunks';
+import { ReplyError } from './ReplyError';
+import { ContextWindowMarker } from './ContextWindowMarker';
+import { FileStatusIcon } from './FileStatusIcon';
 import Markdown from 'react-markdown';
-
-type AIModel = "chatgpt" | "claude" | "deepseek" | "all";
-type SpecificAI = Exclude<AIModel, "all">;
+import { ChatStreamError, openChatStream, parseMessageError, readChatStream, toMessageError, type ChatStreamUsage, type MessageError } from '@/lib/chatStream';
+import { formatCost, formatTokens, sumUsage } from '@/lib/usage';
+import { toRoundVerdict, type RoundVerdict } from '@/lib/judge';
+import { branchRoot, getActivePath, groupBranches, type ActiveBranches } from '@/lib/branches';
+import type { SearchHit } from '@/lib/search';
+import { ingestFile } from '@/lib/ingestion';
+import { formatSummary, historyFor, splitHistory, summarizeHistory, toContextSummaries, unsummarized, type ContextSummaries, type ContextSummary } from '@/lib/contextWindow';
+import { MODEL_OPTIONS } from '@/lib/sessionSettings';
+import { fillTemplate, matchTemplates, slashQuery, templateTarget, templateVariables, type PromptTemplate } from '@/lib/templates';
+import { canUseCamera, capturePhoto, imageUrl, isImageType, pastedImages, toAttachments, type MessageAttachment } from '@/lib/images';
+import { isEmptyScope, toContextChunks, type ContextChunkRef, type ContextScope } from '@/lib/retrieval';
+import { MODERATOR_HEADING, buildModeratorPrompt, buildTurnPrompt, debateOpening, isDebateOpening, type DebateConfig, type DebateTurn } from '@/lib/debate';
+import { PROVIDERS, PROVIDER_IDS, getProvider, getSelectionConfig, isProviderId, type AIModel, type ProviderId } from '@/lib/providers';
+
+type SpecificAI = ProviderId;
 type MobileTab = 'chats' | 'knowledge' | 'research' | 'memories';
 
 interface ChatSession {
@@ -43,7 +69,23 @@ interface Message {
   role: 'user' | 'assistant';
   ai_model?: SpecificAI;
   target_ai?: SpecificAI | 'all';
+  // The user message this reply answers; replies sharing it form a round
+  parent_message_id?: string | null;
+  // Original message when this is a regenerated reply or edited prompt
+  branch_of?: string | null;
   created_at: string;
+  model_id?: string | null;
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cost_usd?: number | null;
+  // Document chunks retrieved into the prompt for this reply
+  context_chunks?: ContextChunkRef[];
+  // Images sent with this prompt
+  attachments?: MessageAttachment[];
+  // Transient progress line shown while a reply streams in
+  status?: string;
+  // Why the reply failed; content holds anything streamed before that
+  error?: MessageError | null;
   ledger?: {
     entry_id: string;
     body_hash: string;
@@ -51,6 +93,41 @@ interface Message {
   };
 }
 
+interface SaveMessageOptions {
+  aiModel?: SpecificAI;
+  targetAI?: SpecificAI | 'all';
+  usage?: ChatStreamUsage | null;
+  // Prompt before a prompt, or the prompt a reply answers
+  parentId?: string | null;
+  // Original message when saving a regenerated reply or edited prompt
+  branchOf?: string | null;
+  contextChunks?: ContextChunkRef[];
+  attachments?: MessageAttachment[];
+  error?: MessageError;
+}
+
+// What the chat function adds in front of the message: chunks retrieved from
+// the scope, plus pinned text that always goes in verbatim
+interface PromptContext {
+  scope: ContextScope;
+  pinned: string;
+  // Inlined for vision models, named for the rest (server side)
+  imageFileIds: string[];
+}
+
+// Where a streamed reply goes in the conversation tree
+interface ReplyPlacement {
+  parentId?: string | null;
+  branchOf?: string | null;
+  // Cut history off before this message (for edits and regenerations)
+  historyBefore?: string;
+}
+
+interface MessageVote {
+  vote: number | null;
+  is_best: boolean;
+}
+
 interface ChatFile {
   id: string;
   filename: string;
@@ -58,6 +135,10 @@ interface ChatFile {
   file_type: string;
   file_size: number;
   content_preview?: string;
+  extraction_status?: string;
+  extracted_text?: string | null;
+  extraction_error?: string | null;
+  page_count?: number | null;
   created_at: string;
 }
 
@@ -86,13 +167,6 @@ interface LedgerSearchEntry {
   prev_hash?: string;
 }
 
-const AI_CONFIGS = {
-  chatgpt: { name: "ChatGPT", color: "chatgpt", icon: "🤖" },
-  claude: { name: "Claude", color: "claude", icon: "🧠" },
-  deepseek: { name: "DeepSeek", color: "deepseek", icon: "🔍" },
-  all: { name: "All AIs", color: "gradient-glow", icon: "🌟" }
-};
-
 export default function ChatInterface() {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
@@ -104,10 +178,28 @@ export default function ChatInterface() {
   const [knowledgeBase, setKnowledgeBase] = useState<KnowledgeItem[]>([]);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [attachedKnowledge, setAttachedKnowledge] = useState<KnowledgeItem[]>([]);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  // Template picked from the slash menu, waiting for its variables
+  const [pendingTemplate, setPendingTemplate] = useState<PromptTemplate | null>(null);
+  const [slashIndex, setSlashIndex] = useState(0);
   const [attachedFiles, setAttachedFiles] = useState<ChatFile[]>([]);
   const [attachedLedgerEntries, setAttachedLedgerEntries] = useState<LedgerEntry[]>([]);
   const [pinQueue, setPinQueue] = useState<Array<{ messageId: string; content: string }>>([]);
   const [webSearchEnabled, setWebSearchEnabled] = useState(true);
+  const [researchContextEnabled, setResearchContextEnabled] = useState(false);
+  const [judgeEnabled, setJudgeEnabled] = useState(false);
+  const [judgeProvider, setJudgeProvider] = useState<SpecificAI>('claude');
+  // Keyed by the round's prompt (user) message id
+  const [verdicts, setVerdicts] = useState<Record<string, RoundVerdict>>({});
+  const [judgingPromptIds, setJudgingPromptIds] = useState<string[]>([]);
+  const [activeBranches, setActiveBranches] = useState<ActiveBranches>({});
+  // Rolling summaries of the turns each model no longer sees verbatim
+  const [contextSummaries, setContextSummaries] = useState<ContextSummaries>({});
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  // Message opened from search, scrolled to once its session has loaded
+  const [scrollTargetId, setScrollTargetId] = useState<string | null>(null);
+  // The current user's votes, keyed by message id
+  const [votes, setVotes] = useState<Record<string, MessageVote>>({});
   const [mobileDrawerTab, setMobileDrawerTab] = useState<MobileTab | null>(null);
   const [knowledgePickerOpen, setKnowledgePickerOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -115,9 +207,14 @@ export default function ChatInterface() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Files ingest-file has been called for since the page loaded. A file is
+  // never retried automatically, so one that keeps failing can't loop.
+  const ingestedFileIds = useRef(new Set<string>());
   const { toast } = useToast();
   const { subscribed } = useSubscription();
-  const { canSendMessage, remainingMessages, incrementUsage, DAILY_MESSAGE_LIMIT } = useUsageLimit();
+  const { canSendMessage, remainingMessages, remainingTokens, messageLimit, checkDailyUsage, isProviderExhausted } = useUsageLimit();
+  // A single model whose own daily cap is used up cannot be sent to
+  const selectedExhausted = selectedAI !== 'all' && isProviderExhausted(selectedAI);
   const { user, signOut } = useAuth();
   const isMobile = useIsMobile();
 
@@ -130,6 +227,15 @@ export default function ChatInterface() {
     if (savedWebSearch !== null) {
       setWebSearchEnabled(savedWebSearch === 'true');
     }
+
+    setResearchContextEnabled(localStorage.getItem('researchContextEnabled') === 'true');
+
+    // Load judge preferences from localStorage
+    setJudgeEnabled(localStorage.getItem('judgeEnabled') === 'true');
+    const savedJudgeProvider = localStorage.getItem('judgeProvider');
+    if (isProviderId(savedJudgeProvider)) {
+      setJudgeProvider(savedJudgeProvider);
+    }
     
     // Check sessionStorage for pinned ledger entries
     const pinnedEntries = sessionStorage.getItem('pinnedLedgerEntries');
@@ -152,11 +258,44 @@ export default function ChatInterface() {
   useEffect(() => {
     if (currentSessionId) {
       loadMessages(currentSessionId);
+      loadVerdicts(currentSessionId);
+      loadVotes(currentSessionId);
+      loadActiveBranches(currentSessionId);
+      loadContextSummaries(currentSessionId);
     } else {
       setMessages([]);
+      setVerdicts({});
+      setVotes({});
+      setActiveBranches({});
+      setContextSummaries({});
     }
   }, [currentSessionId]);
 
+  // What the chat shows and what providers receive as history
+  const visibleMessages = useMemo(() => getActivePath(messages, activeBranches), [messages, activeBranches]);
+  const branchGroups = useMemo(() => groupBranches(messages), [messages]);
+
+  // Where each model targeted by the next send stops seeing the conversation
+  // verbatim: first message it still sees -> the models cut off there
+  const contextCutoffs = useMemo(() => {
+    const cutoffs = new Map<string, SpecificAI[]>();
+    const targets = selectedAI === 'all' ? PROVIDER_IDS : [selectedAI];
+    for (const ai of targets) {
+      const { kept, dropped } = splitHistory(historyFor(visibleMessages, ai), getProvider(ai).historyTokenBudget);
+      if (dropped.length === 0 || kept.length === 0) continue;
+      cutoffs.set(kept[0].id, [...(cutoffs.get(kept[0].id) ?? []), ai]);
+    }
+    return cutoffs;
+  }, [visibleMessages, selectedAI]);
+
+  useEffect(() => {
+    if (!scrollTargetId) return;
+    const element = document.getElementById(`message-${scrollTargetId}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setScrollTargetId(null);
+  }, [scrollTargetId, visibleMessages]);
+
   // Auto-scroll to bottom (only when user is already near bottom)
   useEffect(() => {
     const container = messagesContainerRef.current;
@@ -244,9 +383,18 @@ export default function ChatInterface() {
         id: msg.id,
         content: msg.content,
         role: msg.role as 'user' | 'assistant',
-        ai_model: msg.ai_model as SpecificAI | undefined,
+        ai_model: isProviderId(msg.ai_model) ? msg.ai_model : undefined,
         target_ai: (msg as any).target_ai as SpecificAI | 'all' | undefined || 'all',
-        created_at: msg.created_at
+        parent_message_id: msg.parent_message_id,
+        branch_of: msg.branch_of,
+        created_at: msg.created_at,
+        model_id: msg.model_id,
+        input_tokens: msg.input_tokens,
+        output_tokens: msg.output_tokens,
+        cost_usd: msg.cost_usd,
+        context_chunks: toContextChunks(msg.context_chunks),
+        attachments: toAttachments(msg.attachments),
+        error: parseMessageError(msg.error)
       }));
       
       setMessages(typedMessages);
@@ -260,6 +408,174 @@ export default function ChatInterface() {
     }
   };
 
+  const loadVerdicts = async (sessionId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('round_verdicts')
+        .select('*')
+        .eq('session_id', sessionId);
+
+      if (error) throw error;
+
+      const bySession: Record<string, RoundVerdict> = {};
+      for (const row of data || []) {
+        bySession[row.prompt_message_id] = toRoundVerdict(row);
+      }
+      setVerdicts(bySession);
+    } catch (error) {
+      console.error('Error loading verdicts:', error);
+    }
+  };
+
+  const loadActiveBranches = async (sessionId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('chat_sessions')
+        .select('active_branches')
+        .eq('id', sessionId)
+        .single();
+
+      if (error) throw error;
+      setActiveBranches((data?.active_branches as ActiveBranches) ?? {});
+    } catch (error) {
+      console.error('Error loading branch selection:', error);
+      setActiveBranches({});
+    }
+  };
+
+  const loadContextSummaries = async (sessionId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('chat_sessions')
+        .select('context_summaries')
+        .eq('id', sessionId)
+        .single();
+
+      if (error) throw error;
+      setContextSummaries(toContextSummaries(data?.context_summaries));
+    } catch (error) {
+      console.error('Error loading context summaries:', error);
+      setContextSummaries({});
+    }
+  };
+
+  const loadVotes = async (sessionId: string) => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('message_votes')
+        .select('message_id, vote, is_best')
+        .eq('session_id', sessionId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      const byMessage: Record<string, MessageVote> = {};
+      for (const row of data || []) {
+        byMessage[row.message_id] = { vote: row.vote, is_best: row.is_best };
+      }
+      setVotes(byMessage);
+    } catch (error) {
+      console.error('Error loading votes:', error);
+    }
+  };
+
+  // Applies a thumbs or best-of-round change to the user's vote on a reply
+  const castVote = async (message: Message, promptId: string | null, change: Partial<MessageVote>) => {
+    if (!user || !currentSessionId) return;
+
+    const current = votes[message.id] ?? { vote: null, is_best: false };
+    const next = { ...current, ...change };
+
+    try {
+      if (next.is_best && promptId) {
+        // Only one best pick per round
+        const { error } = await supabase
+          .from('message_votes')
+          .update({ is_best: false })
+          .eq('user_id', user.id)
+          .eq('prompt_message_id', promptId)
+          .eq('is_best', true)
+          .neq('message_id', message.id);
+        if (error) throw error;
+      }
+
+      if (next.vote === null && !next.is_best) {
+        const { error } = await supabase
+          .from('message_votes')
+          .delete()
+          .eq('message_id', message.id)
+          .eq('user_id', user.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('message_votes')
+          .upsert({
+            message_id: message.id,
+            user_id: user.id,
+            session_id: currentSessionId,
+            prompt_message_id: promptId,
+            vote: next.vote,
+            is_best: next.is_best,
+          }, { onConflict: 'message_id,user_id' });
+        if (error) throw error;
+      }
+
+      if (next.is_best && promptId) {
+        // Drop rows left empty by moving the best pick
+        await supabase
+          .from('message_votes')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('prompt_message_id', promptId)
+          .eq('is_best', false)
+          .is('vote', null);
+      }
+
+      await loadVotes(currentSessionId);
+    } catch (error) {
+      console.error('Error saving vote:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save vote",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Asks the judge model to score a finished round. sendId ties the judge
+  // pass to the round's send so it does not count as another message.
+  const judgeRound = async (promptMessageId: string, sendId: string) => {
+    setJudgingPromptIds(prev => [...prev, promptMessageId]);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('judge-round', {
+        body: {
+          sessionId: currentSessionId,
+          promptMessageId,
+          sendId,
+          judgeProvider,
+        },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      setVerdicts(prev => ({ ...prev, [promptMessageId]: toRoundVerdict(data) }));
+    } catch (error) {
+      console.error('Error judging round:', error);
+      toast({
+        title: "Judge failed",
+        description: (error as Error).message || "Could not score this round",
+        variant: "destructive",
+      });
+    } finally {
+      setJudgingPromptIds(prev => prev.filter(id => id !== promptMessageId));
+      checkDailyUsage();
+    }
+  };
+
   const createNewSession = async () => {
     try {
       if (!user) {
@@ -324,8 +640,9 @@ export default function ChatInterface() {
     }
   };
 
-  const saveMessage = async (content: string, role: 'user' | 'assistant', aiModel?: SpecificAI, targetAI?: SpecificAI | 'all'): Promise<Message | null> => {
+  const saveMessage = async (content: string, role: 'user' | 'assistant', options: SaveMessageOptions = {}): Promise<Message | null> => {
     if (!currentSessionId) return null;
+    const { aiModel, targetAI, usage, parentId, branchOf, contextChunks, attachments, error: replyError } = options;
 
     try {
       const { data, error } = await supabase
@@ -335,19 +652,42 @@ export default function ChatInterface() {
           content,
           role,
           ai_model: aiModel,
-          target_ai: targetAI
+          target_ai: targetAI,
+          model_id: usage?.model,
+          input_tokens: usage?.inputTokens,
+          output_tokens: usage?.outputTokens,
+          cost_usd: usage?.costUsd,
+          web_search_enabled: webSearchEnabled,
+          parent_message_id: parentId,
+          branch_of: branchOf,
+          context_chunks: contextChunks?.length ? contextChunks : null,
+          attachments: attachments?.length ? attachments : null,
+          error: replyError ?? null
         }])
         .select()
         .single();
 
       if (error) throw error;
-      return data as Message;
+      return {
+        ...data,
+        context_chunks: toContextChunks(data.context_chunks),
+        attachments: toAttachments(data.attachments),
+        error: parseMessageError(data.error),
+      } as Message;
     } catch (error) {
       console.error('Error saving message:', error);
       return null;
     }
   };
 
+  // Saves a failed reply with whatever it streamed before failing
+  const saveFailedReply = (error: unknown, ai: SpecificAI, parentId?: string | null) =>
+    saveMessage(error instanceof ChatStreamError ? error.partialText : '', 'assistant', {
+      aiModel: ai,
+      parentId,
+      error: toMessageError(error),
+    });
+
   const updateSessionTitle = async (sessionId: string, title: string) => {
     try {
       const { error } = await supabase
@@ -362,270 +702,102 @@ export default function ChatInterface() {
     }
   };
 
-  const getConversationHistory = (targetAI?: SpecificAI) => {
-    return messages
-      .filter(msg => {
-        if (msg.role === 'assistant') {
-          return msg.ai_model === targetAI;
-        } else {
-          return msg.target_ai === targetAI || msg.target_ai === 'all' || 
-                 (msg.content && msg.content.includes('[Forwarded from'));
-        }
-      })
-      .map(msg => ({
-        role: msg.role === 'user' ? 'user' : 'assistant',
-        content: msg.content
-      }));
-  };
-
-  const callAI = async (ai: SpecificAI, message: string): Promise<string | { reply: string; tempId: string }> => {
-    const conversationHistory = getConversationHistory(ai);
-    const context = getContextForAI();
-    
-    const messageWithContext = context ? `${context}\n\nUser Message: ${message}` : message;
-    
-    if (ai === 'deepseek') {
-      const result = await streamDeepSeek(messageWithContext, conversationHistory);
-      return { reply: result.response, tempId: result.tempId };
-    } else if (ai === 'claude') {
-      const result = await streamClaude(messageWithContext, conversationHistory);
-      return { reply: result.response, tempId: result.tempId };
-    } else if (ai === 'chatgpt') {
-      const result = await streamOpenAI(messageWithContext, conversationHistory);
-      return { reply: result.response, tempId: result.tempId };
-    }
-    
-    throw new Error(`Unknown AI: ${ai}`);
-  };
-
-  const streamDeepSeek = async (message: string, conversationHistory: any[]): Promise<{ response: string; tempId: string }> => {
-    const { data: { session } } = await supabase.auth.getSession();
-    const response = await fetch(
-      `https://ywohajmeijjiubesykcu.supabase.co/functions/v1/chat-deepseek`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session?.access_token}`,
-        },
-        body: JSON.stringify({
-          message,
-          conversation_history: conversationHistory,
-          sessionId: currentSessionId,
-          webSearchEnabled: webSearchEnabled
-        }),
-        signal: abortControllerRef.current?.signal,
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`DeepSeek streaming error: ${response.status}`);
-    }
-
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let fullResponse = '';
-
-    if (!reader) throw new Error('No reader available');
-
-    const tempMessageId = `temp-${Date.now()}`;
-    setMessages(prev => [...prev, {
-      id: tempMessageId,
-      content: '',
-      role: 'assistant',
-      ai_model: 'deepseek',
-      created_at: new Date().toISOString()
-    }]);
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content;
-              if (content) {
-                fullResponse += content;
-                setMessages(prev => prev.map(msg => 
-                  msg.id === tempMessageId 
-                    ? { ...msg, content: fullResponse }
-                    : msg
-                ));
-              }
-            } catch (e) {
-              // Skip malformed JSON
-            }
-          }
+  // History for one model along the active branch, optionally stopping
+  // before a given message. Turns beyond the model's history budget are
+  // folded into its rolling summary, which goes in as pinned context.
+  const getConversationHistory = async (targetAI: SpecificAI, sendId: string, beforeMessageId?: string) => {
+    const cutoff = beforeMessageId ? visibleMessages.findIndex(msg => msg.id === beforeMessageId) : -1;
+    const path = cutoff === -1 ? visibleMessages : visibleMessages.slice(0, cutoff);
+    const { kept, dropped } = splitHistory(historyFor(path, targetAI), getProvider(targetAI).historyTokenBudget);
+
+    let summary: ContextSummary | null = null;
+    if (dropped.length > 0 && currentSessionId) {
+      const current = contextSummaries[targetAI];
+      const { turns, continueFrom } = unsummarized(dropped, current);
+      summary = turns.length === 0 ? current ?? null : null;
+
+      if (turns.length > 0) {
+        try {
+          summary = await summarizeHistory({
+            sessionId: currentSessionId,
+            provider: targetAI,
+            sendId,
+            messageIds: turns.map(msg => msg.id),
+            continueFrom,
+          });
+          setContextSummaries(prev => ({ ...prev, [targetAI]: summary! }));
+        } catch (error) {
+          // Send the trimmed history without a summary rather than fail
+          console.error(`Error summarizing history for ${targetAI}:`, error);
         }
       }
-    } finally {
-      reader.releaseLock();
     }
 
-    return { response: fullResponse, tempId: tempMessageId };
+    return {
+      history: kept.map(msg => ({
+        role: msg.role === 'user' ? 'user' : 'assistant',
+        content: msg.content
+      })),
+      summary,
+    };
   };
 
-  const streamClaude = async (message: string, conversationHistory: any[]): Promise<{ response: string; tempId: string }> => {
-    const { data: { session } } = await supabase.auth.getSession();
-    const response = await fetch(
-      `https://ywohajmeijjiubesykcu.supabase.co/functions/v1/chat-claude`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session?.access_token}`,
-        },
-        body: JSON.stringify({
-          message,
-          conversation_history: conversationHistory,
-          sessionId: currentSessionId,
-          webSearchEnabled: webSearchEnabled
-        }),
-        signal: abortControllerRef.current?.signal,
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Claude streaming error: ${response.status}`);
+  // sendId groups the requests of one user send so quota counts it once
+  const callAI = async (ai: SpecificAI, message: string, sendId: string, placement: ReplyPlacement = {}): Promise<{ reply: string; tempId: string; usage: ChatStreamUsage | null; contextChunks: ContextChunkRef[] }> => {
+    const { history, summary } = await getConversationHistory(ai, sendId, placement.historyBefore);
+    const context = getPromptContext();
+    if (summary) {
+      context.pinned = `${formatSummary(summary)}\n${context.pinned}`;
     }
-
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let fullResponse = '';
-
-    if (!reader) throw new Error('No reader available');
-
-    const tempMessageId = `temp-${Date.now()}`;
-    setMessages(prev => [...prev, {
-      id: tempMessageId,
-      content: '',
-      role: 'assistant',
-      ai_model: 'claude',
-      created_at: new Date().toISOString()
-    }]);
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-
-            try {
-              const parsed = JSON.parse(data);
-              if (parsed.type === 'content_block_delta') {
-                const delta = parsed.delta?.text || '';
-                fullResponse += delta;
-                
-                setMessages(prev => prev.map(msg =>
-                  msg.id === tempMessageId
-                    ? { ...msg, content: fullResponse }
-                    : msg
-                ));
-              }
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Claude streaming error:', error);
-      throw error;
-    }
-
-    return { response: fullResponse, tempId: tempMessageId };
+    const result = await streamProvider(ai, message, history, sendId, placement, context);
+    return { reply: result.response, tempId: result.tempId, usage: result.usage, contextChunks: result.contextChunks };
   };
 
-  const streamOpenAI = async (message: string, conversationHistory: any[]): Promise<{ response: string; tempId: string }> => {
-    const { data: { session } } = await supabase.auth.getSession();
-    const response = await fetch(
-      `https://ywohajmeijjiubesykcu.supabase.co/functions/v1/chat-openai`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session?.access_token}`,
-        },
-        body: JSON.stringify({
-          message,
-          conversation_history: conversationHistory,
-          sessionId: currentSessionId,
-          webSearchEnabled: webSearchEnabled
-        }),
-        signal: abortControllerRef.current?.signal,
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`OpenAI streaming error: ${response.status}`);
-    }
-
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let fullResponse = '';
-
-    if (!reader) throw new Error('No reader available');
-
-    const tempMessageId = `temp-${Date.now()}`;
+  const streamProvider = async (ai: SpecificAI, message: string, conversationHistory: any[], sendId: string, placement: ReplyPlacement = {}, context?: PromptContext): Promise<{ response: string; tempId: string; usage: ChatStreamUsage | null; contextChunks: ContextChunkRef[] }> => {
+    const response = await openChatStream(ai, {
+      message,
+      conversation_history: conversationHistory,
+      sessionId: currentSessionId,
+      sendId,
+      webSearchEnabled: webSearchEnabled,
+      contextScope: context && !isEmptyScope(context.scope) ? context.scope : undefined,
+      pinnedContext: context?.pinned || undefined,
+      imageFileIds: context?.imageFileIds.length ? context.imageFileIds : undefined
+    }, abortControllerRef.current?.signal);
+
+    const tempMessageId = `temp-${ai}-${Date.now()}`;
     setMessages(prev => [...prev, {
       id: tempMessageId,
       content: '',
       role: 'assistant',
-      ai_model: 'chatgpt',
+      ai_model: ai,
+      parent_message_id: placement.parentId,
+      branch_of: placement.branchOf,
       created_at: new Date().toISOString()
     }]);
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
-
-            try {
-              const parsed = JSON.parse(data);
-              const delta = parsed.choices?.[0]?.delta?.content || '';
-              fullResponse += delta;
-              
-              setMessages(prev => prev.map(msg =>
-                msg.id === tempMessageId
-                  ? { ...msg, content: fullResponse }
-                  : msg
-              ));
-            } catch (e) {
-              // Skip invalid JSON
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error('OpenAI streaming error:', error);
-      throw error;
-    }
+    const updateTempMessage = (update: Partial<Message>) => {
+      setMessages(prev => prev.map(msg =>
+        msg.id === tempMessageId
+          ? { ...msg, ...update }
+          : msg
+      ));
+    };
 
-    return { response: fullResponse, tempId: tempMessageId };
+    const { text: fullResponse, usage, contextChunks } = await readChatStream(response, {
+      onDelta: (_delta, fullText) => updateTempMessage({ content: fullText, status: undefined }),
+      onContext: (chunks) => updateTempMessage({ context_chunks: chunks }),
+      onFailover: (event) => updateTempMessage({
+        status: `↪ Switched to ${MODEL_OPTIONS[ai].find(option => option.id === event.to)?.label ?? event.to} after repeated errors`
+      }),
+      onToolStatus: (event) => updateTempMessage({
+        status: event.status === 'started'
+          ? `🌐 Searching the web for "${event.query}"...`
+          : `🌐 Found ${event.resultCount ?? 0} results`
+      }),
+    });
+
+    return { response: fullResponse, tempId: tempMessageId, usage, contextChunks };
   };
 
   const forwardMessage = async (content: string, fromAI: SpecificAI, toAI: SpecificAI) => {
@@ -633,33 +805,34 @@ export default function ChatInterface() {
     
     setLoading(true);
     try {
-      const forwardPrompt = `[Forwarded from ${AI_CONFIGS[fromAI].name}]: ${content}`;
+      const forwardPrompt = `[Forwarded from ${getProvider(fromAI).name}]: ${content}`;
       
-      const reply = await callAI(toAI, forwardPrompt);
-      const replyContent = typeof reply === 'string' ? reply : reply.reply;
-      await saveMessage(replyContent, 'assistant', toAI);
+      const reply = await callAI(toAI, forwardPrompt, crypto.randomUUID());
+      await saveMessage(reply.reply, 'assistant', { aiModel: toAI, usage: reply.usage, contextChunks: reply.contextChunks });
       
       await loadMessages(currentSessionId);
       
       toast({
         title: "Message forwarded",
-        description: `Forwarded to ${AI_CONFIGS[toAI].name}`,
+        description: `Forwarded to ${getProvider(toAI).name}`,
       });
     } catch (error) {
       console.error(`Error forwarding to ${toAI}:`, error);
       toast({
         title: "Error",
-        description: `Failed to forward to ${AI_CONFIGS[toAI].name}`,
+        description: `Failed to forward to ${getProvider(toAI).name}`,
         variant: "destructive",
       });
     } finally {
       setLoading(false);
+      checkDailyUsage();
     }
   };
 
-  // Load knowledge base
+  // Load knowledge base and prompt templates
   useEffect(() => {
     loadKnowledgeBase();
+    loadTemplates();
   }, []);
 
   const loadKnowledgeBase = async () => {
@@ -676,6 +849,80 @@ export default function ChatInterface() {
     }
   };
 
+  const loadTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .select('*')
+        .order('title');
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error loading prompt templates:', error);
+    }
+  };
+
+  const applyTemplate = (template: PromptTemplate, values: Record<string, string> = {}) => {
+    setPendingTemplate(null);
+    setInput(fillTemplate(template.body, values));
+
+    const target = templateTarget(template);
+    if (target) setSelectedAI(target);
+
+    // Items deleted since the template was saved are skipped
+    const knowledge = knowledgeBase.filter(item => template.knowledge_ids.includes(item.id));
+    if (knowledge.length > 0) {
+      setAttachedKnowledge(prev => [...prev, ...knowledge.filter(item => !prev.some(k => k.id === item.id))]);
+    }
+
+    setMobileDrawerTab(null);
+    textareaRef.current?.focus();
+  };
+
+  const selectTemplate = (template: PromptTemplate) => {
+    if (templateVariables(template.body).length > 0) {
+      setInput('');
+      setPendingTemplate(template);
+    } else {
+      applyTemplate(template);
+    }
+  };
+
+  const slashFilter = slashQuery(input);
+  const slashMatches = slashFilter === null ? [] : matchTemplates(templates, slashFilter);
+
+  const handleComposerChange = (value: string) => {
+    setInput(value);
+    setSlashIndex(0);
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (slashFilter !== null) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSlashIndex(prev => (prev + step + slashMatches.length) % Math.max(slashMatches.length, 1));
+        return;
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && slashMatches.length > 0) {
+        e.preventDefault();
+        selectTemplate(slashMatches[Math.min(slashIndex, slashMatches.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setInput('');
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
   const uploadFile = async (file: File) => {
     if (!currentSessionId) return;
 
@@ -690,15 +937,9 @@ export default function ChatInterface() {
 
       if (uploadError) throw uploadError;
 
-      let contentPreview = '';
-      if (file.type.startsWith('text/') || file.name.endsWith('.md')) {
-        contentPreview = await file.text();
-        if (contentPreview.length > 1000) {
-          contentPreview = contentPreview.substring(0, 1000) + '...';
-        }
-      }
-
-      const { error: dbError } = await supabase
+      // Text is extracted server side (ingest-file), which also fills in
+      // content_preview once it is done
+      const { data: inserted, error: dbError } = await supabase
         .from('chat_files')
         .insert([{
           session_id: currentSessionId,
@@ -706,17 +947,22 @@ export default function ChatInterface() {
           file_path: uploadData.path,
           file_type: file.type,
           file_size: file.size,
-          content_preview: contentPreview
-        }]);
+        }])
+        .select()
+        .single();
 
       if (dbError) throw dbError;
+      if (isImageType(inserted.file_type)) {
+        setAttachedFiles(prev => [...prev, inserted]);
+      }
 
       toast({
         title: "File uploaded",
         description: `${file.name} has been uploaded successfully`,
       });
 
-      loadChatFiles();
+      await loadChatFiles();
+      await runIngestion(inserted.id, file.name);
     } catch (error) {
       console.error('Error uploading file:', error);
       toast({
@@ -739,24 +985,55 @@ export default function ChatInterface() {
 
       if (error) throw error;
       setChatFiles(data || []);
+
+      // Files uploaded before ingestion existed, or whose ingestion never
+      // started, are picked up here
+      (data || [])
+        .filter(file => file.extraction_status === 'pending' && !ingestedFileIds.current.has(file.id))
+        .forEach(file => runIngestion(file.id, file.filename));
     } catch (error) {
       console.error('Error loading chat files:', error);
     }
   };
 
+  const runIngestion = async (fileId: string, filename: string) => {
+    if (ingestedFileIds.current.has(fileId)) return;
+    ingestedFileIds.current.add(fileId);
+
+    try {
+      await ingestFile(fileId);
+      await loadChatFiles();
+    } catch (error) {
+      console.error('Error extracting file:', error);
+      toast({
+        title: "Couldn't read file",
+        description: `${filename} was uploaded, but its text could not be extracted`,
+        variant: "destructive",
+      });
+      // Shows the failed status if ingest-file got as far as recording it
+      await loadChatFiles();
+    }
+  };
+
   useEffect(() => {
+    setAttachedFiles([]);
     if (currentSessionId) {
       loadChatFiles();
     } else {
       setChatFiles([]);
-      setAttachedFiles([]);
     }
   }, [currentSessionId]);
 
   // Knowledge items start empty - users manually attach what they want
 
+  // Documents stay attached to every prompt. Images belong to the prompt
+  // they were uploaded or pasted for (see uploadFile and sendRound), so
+  // they are kept as they are rather than copied from chatFiles.
   useEffect(() => {
-    setAttachedFiles(chatFiles);
+    setAttachedFiles(prev => [
+      ...chatFiles.filter(file => !isImageType(file.file_type)),
+      ...prev.filter(file => isImageType(file.file_type)),
+    ]);
   }, [chatFiles]);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -768,35 +1045,63 @@ export default function ChatInterface() {
     }
   };
 
-  const getContextForAI = () => {
-    let context = '';
-    
-    if (attachedKnowledge.length > 0) {
-      context += '\n--- Knowledge Base ---\n';
-      attachedKnowledge.forEach(item => {
-        context += `${item.title}:\n${item.content}\n\n`;
-      });
-    }
-
-    if (attachedFiles.length > 0) {
-      context += '\n--- Uploaded Files ---\n';
-      attachedFiles.forEach(file => {
-        if (file.content_preview) {
-          context += `File: ${file.filename}\nContent: ${file.content_preview}\n\n`;
-        } else {
-          context += `File: ${file.filename} (${file.file_type}, ${Math.round(file.file_size / 1024)}KB)\n\n`;
-        }
+  // Knowledge, extracted files and (optionally) the research library are
+  // chunked server side and only the relevant parts are sent. Ledger
+  // references and files with no extracted text still go in as written.
+  const getPromptContext = (): PromptContext => {
+    let pinned = '';
+
+    const hasText = (file: ChatFile) => !!(file.extracted_text || file.content_preview);
+    const opaqueFiles = attachedFiles.filter(file => !hasText(file) && !isImageType(file.file_type));
+    if (opaqueFiles.length > 0) {
+      pinned += '\n--- Uploaded Files ---\n';
+      opaqueFiles.forEach(file => {
+        pinned += `File: ${file.filename} (${file.file_type}, ${Math.round(file.file_size / 1024)}KB)\n\n`;
       });
     }
 
     if (attachedLedgerEntries.length > 0) {
-      context += '\n--- Memory References ---\n';
+      pinned += '\n--- Memory References ---\n';
       attachedLedgerEntries.forEach(entry => {
-        context += `[${entry.type}] ${entry.agentId} (${entry.timestamp}):\n${entry.content}\n\n`;
+        pinned += `[${entry.type}] ${entry.agentId} (${entry.timestamp}):\n${entry.content}\n\n`;
       });
     }
 
-    return context;
+    return {
+      scope: {
+        knowledgeIds: attachedKnowledge.map(item => item.id),
+        fileIds: attachedFiles.filter(hasText).map(file => file.id),
+        includeResearch: researchContextEnabled,
+      },
+      pinned,
+      imageFileIds: attachedFiles.filter(file => isImageType(file.file_type)).map(file => file.id),
+    };
+  };
+
+  const attachedImages = (): MessageAttachment[] =>
+    attachedFiles
+      .filter(file => isImageType(file.file_type))
+      .map(file => ({ fileId: file.id, filename: file.filename, mimeType: file.file_type, path: file.file_path }));
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const images = pastedImages(event);
+    if (images.length === 0 || !currentSessionId) return;
+    event.preventDefault();
+    images.forEach(uploadFile);
+  };
+
+  const handleCapturePhoto = async () => {
+    try {
+      const photo = await capturePhoto();
+      if (photo) await uploadFile(photo);
+    } catch (error) {
+      console.error('Error capturing photo:', error);
+      toast({
+        title: "Camera unavailable",
+        description: "Could not take a photo",
+        variant: "destructive",
+      });
+    }
   };
 
   const removeAttachedKnowledge = (id: string) => {
@@ -864,9 +1169,10 @@ export default function ChatInterface() {
     exportContent += `Exported: ${new Date().toLocaleString()}\n\n---\n\n`;
 
     messages.forEach(msg => {
-      const sender = msg.role === 'user' ? 'You' : AI_CONFIGS[msg.ai_model || 'chatgpt'].name;
+      const sender = msg.role === 'user' ? 'You' : getProvider(msg.ai_model || 'chatgpt').name;
       const timestamp = new Date(msg.created_at).toLocaleTimeString();
-      exportContent += `**${sender}** (${timestamp}):\n${msg.content}\n\n`;
+      const failure = msg.error ? `${msg.content ? '\n\n' : ''}_Failed: ${msg.error.message}_` : '';
+      exportContent += `**${sender}** (${timestamp}):\n${msg.content}${failure}\n\n`;
     });
 
     const blob = new Blob([exportContent], { type: 'text/markdown' });
@@ -900,7 +1206,9 @@ export default function ChatInterface() {
           body_json: {
             content,
             actor: user.id,
-            timestamp: new Date().toISOString()
+            timestamp: new Date().toISOString(),
+            message_id: messageId,
+            ...(currentSessionId ? { session_id: currentSessionId } : {})
           }
         }
       });
@@ -929,40 +1237,120 @@ export default function ChatInterface() {
     }
   };
 
-  const handleStop = () => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
+  const handleStop = () => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+      setLoading(false);
+      toast({
+        title: "Response stopped",
+        description: "AI output was halted",
+      });
+    }
+  };
+
+  // Runs a debate turn by turn, persisting every argument as a normal reply.
+  // The turns hang off the opening, which marks them as a debate rather than
+  // a round (see renderMessages and get_leaderboard_votes).
+  // Each debate round is one send for quota purposes; the moderator's summary
+  // belongs to the last round.
+  const runDebate = async (config: DebateConfig) => {
+    if (!currentSessionId || loading) return;
+    if (!checkCanSend()) return;
+
+    if (config.topic === input.trim()) setInput("");
+    setLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const turns: DebateTurn[] = [];
+    let sendId = crypto.randomUUID();
+
+    try {
+      const opening = await saveMessage(debateOpening(config), 'user', { targetAI: 'all', parentId: lastVisiblePromptId() });
+      if (opening) {
+        setMessages(prev => [...prev, opening]);
+      }
+
+      if (messages.length === 0) {
+        const title = `Debate: ${config.topic.substring(0, 42)}${config.topic.length > 42 ? '...' : ''}`;
+        updateSessionTitle(currentSessionId, title);
+      }
+
+      for (let round = 1; round <= config.rounds; round++) {
+        sendId = crypto.randomUUID();
+
+        for (const speaker of PROVIDER_IDS) {
+          if (controller.signal.aborted) return;
+
+          try {
+            const prompt = buildTurnPrompt(config, speaker, round, turns);
+            const result = await streamProvider(speaker, prompt, [], sendId, { parentId: opening?.id });
+            turns.push({ round, speaker, content: result.response });
+
+            const savedMessage = await saveMessage(result.response, 'assistant', { aiModel: speaker, usage: result.usage, parentId: opening?.id });
+            if (savedMessage) {
+              setMessages(prev => prev.map(msg =>
+                msg.id === result.tempId ? savedMessage : msg
+              ));
+            }
+          } catch (error) {
+            if (controller.signal.aborted) return;
+            console.error(`Error with ${speaker} in debate:`, error);
+            await saveFailedReply(error, speaker, opening?.id);
+          }
+        }
+      }
+
+      if (controller.signal.aborted || turns.length === 0) return;
+
+      // The summary has no parent so it renders on its own below the turns
+      const summary = await streamProvider(config.moderator, buildModeratorPrompt(config, turns), [], sendId);
+      await saveMessage(`${MODERATOR_HEADING}\n\n${summary.response}`, 'assistant', { aiModel: config.moderator, usage: summary.usage });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error running debate:', error);
+        toast({
+          title: "Debate failed",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setLoading(false);
-      toast({
-        title: "Response stopped",
-        description: "AI output was halted",
-      });
+      await loadMessages(currentSessionId);
+      checkDailyUsage();
     }
   };
 
-  const handleSend = async () => {
-    if (!input.trim() || !currentSessionId || loading) return;
-    
-    if (!subscribed && !canSendMessage) {
-      toast({
-        title: "Daily limit reached",
-        description: "Please subscribe for unlimited messages",
-        variant: "destructive",
-      });
-      return;
-    }
+  // Id of the last prompt on the active path; new prompts continue from it
+  const lastVisiblePromptId = () =>
+    [...visibleMessages].reverse().find(msg => msg.role === 'user')?.id ?? null;
 
-    const message = input.trim();
-    setInput("");
+  // Sends a prompt to one model or to all of them and saves the round.
+  // When `replaces` is given the prompt is an edited version of that message:
+  // it becomes a sibling branch and history stops where the original was.
+  const sendRound = async (message: string, target: AIModel, replaces?: Message) => {
+    if (!currentSessionId) return;
+
+    const sendId = crypto.randomUUID();
+    const historyBefore = replaces?.id;
     setLoading(true);
     
     // Create abort controller for this request
     abortControllerRef.current = new AbortController();
 
     try {
-      const savedUserMessage = await saveMessage(message, 'user', undefined, selectedAI);
+      const savedUserMessage = await saveMessage(message, 'user', {
+        targetAI: target,
+        parentId: replaces ? replaces.parent_message_id : lastVisiblePromptId(),
+        branchOf: replaces ? branchRoot(replaces) : null,
+        attachments: attachedImages(),
+      });
       if (savedUserMessage) {
+        if (replaces) showNewestBranch(branchRoot(replaces));
         setMessages(prev => [...prev, savedUserMessage]);
       }
 
@@ -971,47 +1359,44 @@ export default function ChatInterface() {
         updateSessionTitle(currentSessionId, title);
       }
 
-      if (selectedAI === "all") {
-        const ais: SpecificAI[] = ["chatgpt", "claude", "deepseek"];
-        const aiPromises = ais.map(async (ai) => {
+      if (target === "all") {
+        const aiPromises = PROVIDER_IDS.map(async (ai) => {
           try {
-            const reply = await callAI(ai, message);
-            const replyContent = typeof reply === 'string' ? reply : reply.reply;
-            const tempId = typeof reply === 'object' ? reply.tempId : null;
+            const reply = await callAI(ai, message, sendId, { parentId: savedUserMessage?.id, historyBefore });
+            const savedMessage = await saveMessage(reply.reply, 'assistant', { aiModel: ai, usage: reply.usage, parentId: savedUserMessage?.id, contextChunks: reply.contextChunks });
             
-            const savedMessage = await saveMessage(replyContent, 'assistant', ai);
-            
-            if (tempId && savedMessage) {
+            if (savedMessage) {
               setMessages(prev => prev.map(msg => 
-                msg.id === tempId ? savedMessage : msg
+                msg.id === reply.tempId ? savedMessage : msg
               ));
             }
           } catch (error) {
             console.error(`Error with ${ai}:`, error);
-            await saveMessage(`Error: ${(error as Error).message}`, 'assistant', ai);
+            await saveFailedReply(error, ai, savedUserMessage?.id);
           }
         });
         
         await Promise.all(aiPromises);
         await loadMessages(currentSessionId);
+
+        if (judgeEnabled && savedUserMessage) {
+          judgeRound(savedUserMessage.id, sendId);
+        }
       } else {
         try {
-          const reply = await callAI(selectedAI as SpecificAI, message);
-          const replyContent = typeof reply === 'string' ? reply : reply.reply;
-          const tempId = typeof reply === 'object' ? reply.tempId : null;
-          
-          const savedMessage = await saveMessage(replyContent, 'assistant', selectedAI as SpecificAI);
+          const reply = await callAI(target, message, sendId, { parentId: savedUserMessage?.id, historyBefore });
+          const savedMessage = await saveMessage(reply.reply, 'assistant', { aiModel: target, usage: reply.usage, parentId: savedUserMessage?.id, contextChunks: reply.contextChunks });
           
-          if (tempId && savedMessage) {
+          if (savedMessage) {
             setMessages(prev => prev.map(msg => 
-              msg.id === tempId ? savedMessage : msg
+              msg.id === reply.tempId ? savedMessage : msg
             ));
           } else {
             await loadMessages(currentSessionId);
           }
         } catch (error) {
-          console.error(`Error with ${selectedAI}:`, error);
-          await saveMessage(`Error: ${(error as Error).message}`, 'assistant', selectedAI as SpecificAI);
+          console.error(`Error with ${target}:`, error);
+          await saveFailedReply(error, target, savedUserMessage?.id);
           await loadMessages(currentSessionId);
         }
       }
@@ -1024,13 +1409,188 @@ export default function ChatInterface() {
       });
     } finally {
       setLoading(false);
+      // Images were sent with this prompt; the next one starts without them
+      setAttachedFiles(prev => prev.filter(file => !isImageType(file.file_type)));
+      checkDailyUsage();
+    }
+  };
+
+  const checkCanSend = () => {
+    if (!subscribed && !canSendMessage) {
+      toast({
+        title: "Daily limit reached",
+        description: remainingTokens === 0
+          ? "You've used today's token budget. Please subscribe for unlimited access"
+          : "Please subscribe for unlimited messages",
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const handleSend = async () => {
+    if (!input.trim() || !currentSessionId || loading) return;
+    if (!checkCanSend()) return;
+    if (selectedExhausted) {
+      toast({
+        title: "Model limit reached",
+        description: `Today's limit for ${getSelectionConfig(selectedAI).name} is used up. Try another model or subscribe for unlimited access`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const message = input.trim();
+    setInput("");
+    await sendRound(message, selectedAI);
+  };
+
+  // Saves an edited prompt as a new branch and sends it to the same models
+  const handleEditResend = async (original: Message, content: string) => {
+    setEditingMessage(null);
+    if (!content.trim() || !currentSessionId || loading) return;
+    if (!checkCanSend()) return;
+
+    await sendRound(content.trim(), original.target_ai ?? 'all', original);
+  };
+
+  // Asks the reply's model again; the new reply becomes a sibling branch
+  const regenerateReply = async (reply: Message) => {
+    const prompt = messages.find(msg => msg.id === reply.parent_message_id);
+    if (!reply.ai_model || !prompt || !currentSessionId || loading) return;
+    if (!checkCanSend()) return;
+
+    const ai = reply.ai_model;
+    setLoading(true);
+    abortControllerRef.current = new AbortController();
+    showNewestBranch(branchRoot(reply));
+
+    try {
+      const result = await callAI(ai, prompt.content, crypto.randomUUID(), {
+        parentId: prompt.id,
+        branchOf: branchRoot(reply),
+        historyBefore: prompt.id,
+      });
+      await saveMessage(result.reply, 'assistant', { aiModel: ai, usage: result.usage, parentId: prompt.id, branchOf: branchRoot(reply), contextChunks: result.contextChunks });
+    } catch (error) {
+      console.error(`Error regenerating with ${ai}:`, error);
+      toast({
+        title: "Error",
+        description: `Failed to regenerate with ${getProvider(ai).name}`,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+      await loadMessages(currentSessionId);
+      checkDailyUsage();
+    }
+  };
+
+  // Asks a failed reply's model again and overwrites the failed reply, so the
+  // answer keeps its place in the round and among its branches
+  const retryReply = async (reply: Message) => {
+    const prompt = messages.find(msg => msg.id === reply.parent_message_id);
+    if (!reply.ai_model || !prompt || !currentSessionId || loading) return;
+    if (!checkCanSend()) return;
+
+    const ai = reply.ai_model;
+    setLoading(true);
+    abortControllerRef.current = new AbortController();
+    // The streaming reply stands in for the failed one until it is saved
+    setMessages(prev => prev.filter(msg => msg.id !== reply.id));
+
+    try {
+      let update;
+      try {
+        const result = await callAI(ai, prompt.content, crypto.randomUUID(), {
+          parentId: prompt.id,
+          branchOf: reply.branch_of,
+          historyBefore: prompt.id,
+        });
+        update = {
+          content: result.reply,
+          error: null,
+          model_id: result.usage?.model,
+          input_tokens: result.usage?.inputTokens,
+          output_tokens: result.usage?.outputTokens,
+          cost_usd: result.usage?.costUsd,
+          context_chunks: result.contextChunks.length ? result.contextChunks : null,
+          web_search_enabled: webSearchEnabled,
+        };
+      } catch (error) {
+        console.error(`Error retrying ${ai}:`, error);
+        update = {
+          content: error instanceof ChatStreamError ? error.partialText : '',
+          error: toMessageError(error),
+        };
+      }
+
+      const { error } = await supabase
+        .from('messages')
+        .update(update)
+        .eq('id', reply.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving retried reply:', error);
+      toast({
+        title: "Error",
+        description: `Failed to save the reply from ${getProvider(ai).name}`,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+      await loadMessages(currentSessionId);
+      checkDailyUsage();
+    }
+  };
+
+  const saveActiveBranches = async (next: ActiveBranches) => {
+    setActiveBranches(next);
+    if (!currentSessionId) return;
+
+    try {
+      const { error } = await supabase
+        .from('chat_sessions')
+        .update({ active_branches: next })
+        .eq('id', currentSessionId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving branch selection:', error);
     }
   };
 
+  const switchBranch = (root: string, messageId: string) => {
+    saveActiveBranches({ ...activeBranches, [root]: messageId });
+  };
+
+  // Drops a pinned selection so a version being created is shown
+  const showNewestBranch = (root: string) => {
+    if (!(root in activeBranches)) return;
+    const { [root]: _dropped, ...rest } = activeBranches;
+    saveActiveBranches(rest);
+  };
+
+  const sessionUsage = useMemo(() => sumUsage(messages), [messages]);
+  const hasSessionUsage = sessionUsage.inputTokens + sessionUsage.outputTokens > 0;
+
+  const openSearchHit = (hit: SearchHit) => {
+    if (!hit.sessionId) return;
+    setCurrentSessionId(hit.sessionId);
+    setMobileDrawerTab(null);
+    // File hits just open the chat the file was uploaded to
+    if (hit.sourceType === 'messages') setScrollTargetId(hit.sourceId);
+  };
+
   // Memoized chat list to prevent re-renders
   const ChatList = useMemo(() => (
     <ScrollArea className="h-[calc(100vh-280px)]">
       <div className="p-2">
+        <div className="mb-2">
+          <SearchDialog onOpenHit={openSearchHit} />
+        </div>
         {sessions.map((session) => (
           <div
             key={session.id}
@@ -1076,10 +1636,26 @@ export default function ChatInterface() {
       case 'knowledge':
         return (
           <div className="p-2 h-full">
-            <KnowledgeManager 
-              knowledgeBase={knowledgeBase} 
-              onRefresh={loadKnowledgeBase}
-            />
+            <Tabs defaultValue="items">
+              <TabsList className="w-full mb-2">
+                <TabsTrigger value="items" className="flex-1">Knowledge</TabsTrigger>
+                <TabsTrigger value="templates" className="flex-1">Templates</TabsTrigger>
+              </TabsList>
+              <TabsContent value="items" className="mt-0">
+                <KnowledgeManager 
+                  knowledgeBase={knowledgeBase} 
+                  onRefresh={loadKnowledgeBase}
+                />
+              </TabsContent>
+              <TabsContent value="templates" className="mt-0">
+                <TemplateManager
+                  templates={templates}
+                  knowledgeBase={knowledgeBase}
+                  onRefresh={loadTemplates}
+                  onUse={selectTemplate}
+                />
+              </TabsContent>
+            </Tabs>
           </div>
         );
       case 'research':
@@ -1098,11 +1674,59 @@ export default function ChatInterface() {
       default:
         return null;
     }
-  }, [ChatList, knowledgeBase, attachedLedgerEntries]);
+  }, [ChatList, knowledgeBase, templates, attachedLedgerEntries]);
 
   // Message Component
-  const MessageItem = ({ message }: { message: Message }) => (
+  // Replies can be regenerated when we know their prompt; debate turns are
+  // excluded since their prompt is built turn by turn
+  const canRegenerate = (message: Message) => {
+    const prompt = messages.find(msg => msg.id === message.parent_message_id);
+    return !!prompt && prompt.role === 'user' && !isDebateOpening(prompt.content);
+  };
+
+  // "‹ 2/3 ›" control for messages that have other versions
+  const renderBranchSwitcher = (message: Message) => {
+    const root = branchRoot(message);
+    const siblings = branchGroups.get(root) ?? [];
+    if (siblings.length < 2) return null;
+    const index = siblings.findIndex(msg => msg.id === message.id);
+
+    return (
+      <div className="flex items-center gap-0.5 text-[10px]">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0"
+          disabled={index <= 0 || loading}
+          onClick={() => switchBranch(root, siblings[index - 1].id)}
+          title="Previous version"
+        >
+          <ChevronLeft className="h-3 w-3" />
+        </Button>
+        <span className="tabular-nums">{index + 1}/{siblings.length}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0"
+          disabled={index >= siblings.length - 1 || loading}
+          onClick={() => switchBranch(root, siblings[index + 1].id)}
+          title="Next version"
+        >
+          <ChevronRight className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  };
+
+  // roundSize is the number of replies in the message's round; inRound
+  // stretches the card to fill its column in the round layout. Debate turns
+  // are arguments rather than competing answers, so they take no votes.
+  const promptHadImages = (reply: Message) =>
+    !!messages.find(msg => msg.id === reply.parent_message_id)?.attachments?.length;
+
+  const MessageItem = ({ message, roundSize = 1, inRound = false, inDebate = false }: { message: Message; roundSize?: number; inRound?: boolean; inDebate?: boolean }) => (
     <div
+      id={`message-${message.id}`}
       className={cn(
         "flex gap-2 md:gap-3",
         message.role === 'user' ? "justify-end" : "justify-start"
@@ -1111,16 +1735,15 @@ export default function ChatInterface() {
       {message.role === 'assistant' && message.ai_model && (
         <div className={cn(
           "w-6 h-6 md:w-8 md:h-8 rounded-full flex items-center justify-center text-xs md:text-sm font-medium flex-shrink-0",
-          message.ai_model === "chatgpt" && "bg-chatgpt text-chatgpt-foreground",
-          message.ai_model === "claude" && "bg-claude text-claude-foreground", 
-          message.ai_model === "deepseek" && "bg-deepseek text-deepseek-foreground"
+          getProvider(message.ai_model).classes.avatar
         )}>
-          {AI_CONFIGS[message.ai_model].icon}
+          {getProvider(message.ai_model).icon}
         </div>
       )}
       
       <Card className={cn(
-        "p-2 md:p-3 max-w-[85%] md:max-w-2xl",
+        "p-2 md:p-3",
+        inRound ? "flex-1 min-w-0" : "max-w-[85%] md:max-w-2xl",
         message.role === 'user' 
           ? "bg-primary text-primary-foreground ml-auto" 
           : "bg-card"
@@ -1129,12 +1752,10 @@ export default function ChatInterface() {
           <Badge 
             className={cn(
               "mb-1.5 md:mb-2 text-xs",
-              message.ai_model === "chatgpt" && "bg-chatgpt/20 text-chatgpt border-chatgpt/30",
-              message.ai_model === "claude" && "bg-claude/20 text-claude border-claude/30",
-              message.ai_model === "deepseek" && "bg-deepseek/20 text-deepseek border-deepseek/30"
+              getProvider(message.ai_model).classes.badge
             )}
           >
-            {AI_CONFIGS[message.ai_model].name}
+            {getProvider(message.ai_model).name}
           </Badge>
         )}
         <div className="flex items-start justify-between gap-2">
@@ -1162,9 +1783,35 @@ export default function ChatInterface() {
               >
                 {message.content}
               </Markdown>
+              {message.error && message.ai_model && (
+                <ReplyError
+                  error={message.error}
+                  providerName={getProvider(message.ai_model).name}
+                  onRetry={canRegenerate(message) ? () => retryReply(message) : undefined}
+                  disabled={loading}
+                />
+              )}
             </div>
           ) : (
-            <p className="text-xs md:text-sm whitespace-pre-wrap flex-1">{message.content}</p>
+            <div className="flex-1 min-w-0">
+              {message.attachments && message.attachments.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mb-1.5">
+                  {message.attachments.map(image => (
+                    <a key={image.fileId} href={imageUrl(image.path)} target="_blank" rel="noreferrer">
+                      <img
+                        src={imageUrl(image.path)}
+                        alt={image.filename}
+                        className="h-20 w-20 object-cover rounded border border-primary-foreground/20"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs md:text-sm whitespace-pre-wrap">{message.content}</p>
+            </div>
+          )}
+          {message.status && (
+            <p className="text-xs text-muted-foreground italic animate-pulse">{message.status}</p>
           )}
           {message.role === 'assistant' && message.ai_model && !isMobile && (
             <DropdownMenu>
@@ -1174,16 +1821,16 @@ export default function ChatInterface() {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="bg-card border-border z-[100]">
-                {Object.entries(AI_CONFIGS)
-                  .filter(([key]) => key !== 'all' && key !== message.ai_model)
-                  .map(([key, config]) => (
+                {PROVIDERS
+                  .filter(provider => provider.id !== message.ai_model)
+                  .map(provider => (
                     <DropdownMenuItem
-                      key={key}
-                      onClick={() => forwardMessage(message.content, message.ai_model!, key as SpecificAI)}
+                      key={provider.id}
+                      onClick={() => forwardMessage(message.content, message.ai_model!, provider.id)}
                       className="gap-2"
                     >
-                      <span>{config.icon}</span>
-                      Forward to {config.name}
+                      <span>{provider.icon}</span>
+                      Forward to {provider.name}
                     </DropdownMenuItem>
                   ))}
                 {!message.ledger && (
@@ -1208,6 +1855,88 @@ export default function ChatInterface() {
             </DropdownMenu>
           )}
         </div>
+        {message.role === 'assistant' && message.ai_model && !getProvider(message.ai_model).vision && promptHadImages(message) && (
+          <p className="mt-1 flex items-center gap-1 text-[10px] text-muted-foreground">
+            <ImageOff className="w-3 h-3" />
+            {getProvider(message.ai_model).name} can't see images; it was only told their file names
+          </p>
+        )}
+        {message.role === 'assistant' && message.context_chunks && message.context_chunks.length > 0 && (
+          <div className="mt-1">
+            <ContextChunks chunks={message.context_chunks} />
+          </div>
+        )}
+        {message.role === 'assistant' && message.cost_usd != null && (
+          <p className="mt-1.5 text-[10px] text-muted-foreground">
+            {formatTokens(message.input_tokens ?? 0)} in · {formatTokens(message.output_tokens ?? 0)} out · {formatCost(Number(message.cost_usd))}
+          </p>
+        )}
+        {message.role === 'assistant' && message.ai_model && !message.id.startsWith('temp-') && (
+          <div className="mt-1.5 flex items-center gap-1 flex-wrap">
+            {!message.error && !inDebate && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={cn("h-6 w-6 p-0", votes[message.id]?.vote === 1 && "text-primary bg-primary/10")}
+                  onClick={() => castVote(message, message.parent_message_id ?? null, { vote: votes[message.id]?.vote === 1 ? null : 1 })}
+                  title="Good answer"
+                >
+                  <ThumbsUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={cn("h-6 w-6 p-0", votes[message.id]?.vote === -1 && "text-destructive bg-destructive/10")}
+                  onClick={() => castVote(message, message.parent_message_id ?? null, { vote: votes[message.id]?.vote === -1 ? null : -1 })}
+                  title="Bad answer"
+                >
+                  <ThumbsDown className="h-3 w-3" />
+                </Button>
+                {roundSize > 1 && message.parent_message_id && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className={cn("h-6 px-1.5 text-[10px] gap-1", votes[message.id]?.is_best && "text-primary bg-primary/10")}
+                    onClick={() => castVote(message, message.parent_message_id ?? null, { is_best: !votes[message.id]?.is_best })}
+                    title="Best answer of this round"
+                  >
+                    <Trophy className="h-3 w-3" />
+                    {votes[message.id]?.is_best ? 'Best' : 'Pick best'}
+                  </Button>
+                )}
+              </>
+            )}
+            {canRegenerate(message) && !message.error && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                disabled={loading}
+                onClick={() => regenerateReply(message)}
+                title={`Regenerate with ${getProvider(message.ai_model).name}`}
+              >
+                <RotateCcw className="h-3 w-3" />
+              </Button>
+            )}
+            {renderBranchSwitcher(message)}
+          </div>
+        )}
+        {message.role === 'user' && !message.id.startsWith('temp-') && (
+          <div className="mt-1 flex items-center justify-end gap-1 text-primary-foreground/80">
+            {renderBranchSwitcher(message)}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-5 w-5 p-0 hover:bg-primary-foreground/10 hover:text-primary-foreground"
+              disabled={loading}
+              onClick={() => setEditingMessage(message)}
+              title="Edit and resend"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
         {message.ledger && (
           <div className="mt-2 pt-2 border-t border-border/50">
             <Badge 
@@ -1229,6 +1958,60 @@ export default function ChatInterface() {
     </div>
   );
 
+  // Message list: each prompt is followed by its round of replies and, once
+  // the round has been judged, the verdict card
+  const renderMessages = () => {
+    const loadedIds = new Set(visibleMessages.map(msg => msg.id));
+    const isGrouped = (msg: Message) =>
+      msg.role === 'assistant' && !!msg.parent_message_id && loadedIds.has(msg.parent_message_id);
+
+    const repliesByPrompt: Record<string, Message[]> = {};
+    for (const message of visibleMessages) {
+      if (isGrouped(message)) {
+        const parentId = message.parent_message_id!;
+        repliesByPrompt[parentId] = [...(repliesByPrompt[parentId] ?? []), message];
+      }
+    }
+
+    // Turns above every targeted model's cutoff are only seen as a summary
+    const topLevel = visibleMessages.filter(message => !isGrouped(message));
+    const firstSeenIndex = contextCutoffs.size > 0
+      ? Math.min(...topLevel.map((message, index) => contextCutoffs.has(message.id) ? index : Infinity))
+      : 0;
+
+    return topLevel.map((message, index) => {
+      const replies = repliesByPrompt[message.id] ?? [];
+      const cutoffProviders = contextCutoffs.get(message.id);
+      // A debate's turns all hang off its opening but are not one round
+      const isDebate = message.role === 'user' && isDebateOpening(message.content);
+
+      return (
+        <React.Fragment key={message.id}>
+          {cutoffProviders && (
+            <ContextWindowMarker providers={cutoffProviders} summaries={contextSummaries} />
+          )}
+          <div className={cn("space-y-3 md:space-y-4", index < firstSeenIndex && "opacity-60")}>
+            <MessageItem message={message} />
+            {isDebate && replies.map(reply => <MessageItem key={reply.id} message={reply} inDebate />)}
+            {!isDebate && replies.length === 1 && <MessageItem message={replies[0]} />}
+            {!isDebate && replies.length > 1 && (
+              <RoundLayout
+                replies={replies}
+                isMobile={isMobile}
+                renderReply={(reply) => <MessageItem message={reply} roundSize={replies.length} inRound />}
+              />
+            )}
+            {!isDebate && replies.length > 0 && (
+              <JudgeVerdictCard
+                verdict={verdicts[message.id]}
+                judging={judgingPromptIds.includes(message.id)}
+              />
+            )}
+          </div>
+        </React.Fragment>
+      );
+    });
+  };
 
   // Pin Queue Modal (simplified for both)
   const PinQueueModal = () => {
@@ -1261,9 +2044,14 @@ export default function ChatInterface() {
       <div className="flex flex-col h-[calc(100vh-80px)] bg-gradient-primary">
         {/* Mobile Header */}
         <div className="flex items-center justify-between p-3 border-b border-border bg-card/50 backdrop-blur-sm">
-          <MobileAISelector selectedAI={selectedAI} onSelect={setSelectedAI} />
+          <MobileAISelector selectedAI={selectedAI} onSelect={setSelectedAI} isExhausted={isProviderExhausted} />
           
           <div className="flex items-center gap-2">
+            {hasSessionUsage && (
+              <Badge variant="outline" className="text-[10px] px-1.5">
+                {formatCost(sessionUsage.costUsd)}
+              </Badge>
+            )}
             <div className="flex items-center gap-1.5">
               <Switch 
                 id="web-search-mobile"
@@ -1276,7 +2064,35 @@ export default function ChatInterface() {
               />
               <span className="text-xs">🌐</span>
             </div>
+            <div className="flex items-center gap-1.5">
+              <Switch 
+                id="research-context-mobile"
+                checked={researchContextEnabled}
+                onCheckedChange={(checked) => {
+                  setResearchContextEnabled(checked);
+                  localStorage.setItem('researchContextEnabled', String(checked));
+                }}
+                className="scale-90"
+              />
+              <span className="text-xs">📚</span>
+            </div>
+            <div className="flex items-center gap-1.5">
+              <Switch 
+                id="judge-mobile"
+                checked={judgeEnabled}
+                onCheckedChange={(checked) => {
+                  setJudgeEnabled(checked);
+                  localStorage.setItem('judgeEnabled', String(checked));
+                }}
+                className="scale-90"
+              />
+              <span className="text-xs">⚖️</span>
+            </div>
             
+            {currentSessionId && (
+              <SessionSettingsDialog sessionId={currentSessionId} userId={user?.id} subscribed={subscribed} compact />
+            )}
+
             {currentSessionId && (
               <Button variant="ghost" size="sm" onClick={exportChatSession} className="h-8 w-8 p-0">
                 <Download className="w-4 h-4" />
@@ -1296,9 +2112,7 @@ export default function ChatInterface() {
             </div>
           ) : (
             <div ref={messagesContainerRef} className="h-full overflow-y-auto p-3 space-y-3">
-              {messages.map((message) => (
-                <MessageItem key={message.id} message={message} />
-              ))}
+              {renderMessages()}
               <div ref={messagesEndRef} />
             </div>
           )}
@@ -1328,8 +2142,14 @@ export default function ChatInterface() {
                 ))}
                 {attachedFiles.map((file) => (
                   <Badge key={file.id} variant="outline" className="text-xs group">
-                    <File className="w-3 h-3 mr-1" />
+                    <FileStatusIcon
+                      fileType={file.file_type}
+                      status={file.extraction_status}
+                      error={file.extraction_error}
+                      pageCount={file.page_count}
+                    />
                     {file.filename.substring(0, 12)}...
+                    {file.page_count ? ` · ${file.page_count}p` : ''}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -1363,7 +2183,7 @@ export default function ChatInterface() {
               multiple
               onChange={handleFileSelect}
               className="hidden"
-              accept=".txt,.md,.json,.csv,.pdf,.doc,.docx"
+              accept="image/*,.txt,.md,.json,.csv,.tsv,.pdf,.doc,.docx,.html,.htm,.xml,.yaml,.yml,.ts,.tsx,.js,.jsx,.py,.go,.rs,.java,.rb,.c,.cpp,.h,.cs,.php,.sql,.sh"
             />
             <Button
               variant="outline"
@@ -1374,6 +2194,18 @@ export default function ChatInterface() {
             >
               <Paperclip className="w-4 h-4" />
             </Button>
+            {canUseCamera() && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCapturePhoto}
+                disabled={!currentSessionId}
+                className="shrink-0 h-10 w-10 p-0"
+                title="Take a photo"
+              >
+                <Camera className="w-4 h-4" />
+              </Button>
+            )}
             <Popover open={knowledgePickerOpen} onOpenChange={setKnowledgePickerOpen}>
               <PopoverTrigger asChild>
                 <Button
@@ -1409,24 +2241,35 @@ export default function ChatInterface() {
                 </ScrollArea>
               </PopoverContent>
             </Popover>
-            <Textarea
-              ref={textareaRef}
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' && !e.shiftKey) {
-                  e.preventDefault();
-                  handleSend();
-                }
-              }}
-              placeholder={currentSessionId ? `Message ${selectedAI === "all" ? "all AIs" : AI_CONFIGS[selectedAI as keyof typeof AI_CONFIGS]?.name || selectedAI}...` : "Create or select a session"}
-              disabled={loading || !currentSessionId}
-              className="flex-1 bg-input border-border focus:ring-ring min-h-[40px] max-h-[100px] resize-none overflow-y-auto text-sm"
-              rows={1}
+            <DebateDialog
+              disabled={!currentSessionId || loading}
+              defaultTopic={input.trim()}
+              defaultModerator={judgeProvider}
+              onStart={runDebate}
             />
+            <div className="relative flex-1 flex">
+              {slashFilter !== null && (
+                <TemplateSlashMenu
+                  templates={slashMatches}
+                  activeIndex={slashIndex}
+                  onSelect={selectTemplate}
+                />
+              )}
+              <Textarea
+                ref={textareaRef}
+                value={input}
+                onChange={(e) => handleComposerChange(e.target.value)}
+                onPaste={handlePaste}
+                onKeyDown={handleComposerKeyDown}
+                placeholder={currentSessionId ? `Message ${selectedAI === "all" ? "all AIs" : getSelectionConfig(selectedAI).name}...` : "Create or select a session"}
+                disabled={loading || !currentSessionId}
+                className="flex-1 bg-input border-border focus:ring-ring min-h-[40px] max-h-[100px] resize-none overflow-y-auto text-sm"
+                rows={1}
+              />
+            </div>
             <Button 
               onClick={loading ? handleStop : handleSend} 
-              disabled={!loading && (!input.trim() || !currentSessionId)}
+              disabled={!loading && (!input.trim() || !currentSessionId || selectedExhausted)}
               className={cn(
                 "h-10 w-10 p-0",
                 loading ? "bg-destructive hover:bg-destructive/90" : "bg-primary hover:bg-primary/90"
@@ -1441,7 +2284,8 @@ export default function ChatInterface() {
           </div>
           <div className="flex items-center justify-between mt-2 gap-2 flex-wrap">
             <Badge variant="secondary" className="text-xs">
-              {selectedAI === "all" ? "All AIs" : AI_CONFIGS[selectedAI as keyof typeof AI_CONFIGS]?.name || selectedAI}
+              {selectedAI === "all" ? "All AIs" : getSelectionConfig(selectedAI).name}
+              {selectedExhausted && " · limit reached"}
             </Badge>
             {!subscribed && (
               <Badge 
@@ -1450,7 +2294,7 @@ export default function ChatInterface() {
               >
                 {remainingMessages === Infinity 
                   ? "Unlimited" 
-                  : `${remainingMessages}/${DAILY_MESSAGE_LIMIT} left`
+                  : `${remainingMessages}/${messageLimit} sends left`
                 }
               </Badge>
             )}
@@ -1477,6 +2321,16 @@ export default function ChatInterface() {
         </Drawer>
 
         <PinQueueModal />
+        <EditPromptDialog
+          message={editingMessage}
+          onCancel={() => setEditingMessage(null)}
+          onResend={handleEditResend}
+        />
+        <TemplateVariablesDialog
+          template={pendingTemplate}
+          onCancel={() => setPendingTemplate(null)}
+          onApply={applyTemplate}
+        />
       </div>
     );
   }
@@ -1545,6 +2399,11 @@ export default function ChatInterface() {
                 <h1 className="text-xl font-bold bg-gradient-glow bg-clip-text text-transparent">
                   Multi-AI Chat
                 </h1>
+                {hasSessionUsage && (
+                  <Badge variant="outline" className="text-xs" title="Tokens and cost for this session">
+                    {formatTokens(sessionUsage.inputTokens + sessionUsage.outputTokens)} tokens · {formatCost(sessionUsage.costUsd)}
+                  </Badge>
+                )}
               </div>
               
               {/* AI Selector & Export */}
@@ -1580,21 +2439,21 @@ export default function ChatInterface() {
                   </div>
                   All AIs
                 </Button>
-                {Object.entries(AI_CONFIGS)
-                  .filter(([key]) => key !== 'all')
-                  .map(([key, config]) => (
+                {PROVIDERS.map(provider => (
                   <Button
-                    key={key}
-                    variant={selectedAI === key ? "default" : "secondary"}
+                    key={provider.id}
+                    variant={selectedAI === provider.id ? "default" : "secondary"}
                     size="sm"
-                    onClick={() => setSelectedAI(key as AIModel)}
+                    onClick={() => setSelectedAI(provider.id)}
+                    disabled={isProviderExhausted(provider.id)}
+                    title={isProviderExhausted(provider.id) ? "Today's limit for this model is used up" : undefined}
                     className={cn(
                       "gap-2",
-                      selectedAI === key && `bg-${config.color} hover:bg-${config.color}/90`
+                      selectedAI === provider.id && provider.classes.button
                     )}
                   >
-                    <span>{config.icon}</span>
-                    {config.name}
+                    <span>{provider.icon}</span>
+                    {provider.name}
                   </Button>
                 ))}
               </div>
@@ -1621,6 +2480,64 @@ export default function ChatInterface() {
                   </span>
                 )}
               </label>
+
+              <Switch 
+                id="research-context"
+                checked={researchContextEnabled}
+                onCheckedChange={(checked) => {
+                  setResearchContextEnabled(checked);
+                  localStorage.setItem('researchContextEnabled', String(checked));
+                }}
+                className="ml-4"
+              />
+              <label 
+                htmlFor="research-context" 
+                className="text-sm font-medium cursor-pointer flex items-center gap-1.5"
+                title="Retrieve relevant passages from your research library for each prompt"
+              >
+                📚 Research
+              </label>
+
+              <div className="flex items-center gap-2 ml-auto">
+                <Switch 
+                  id="judge-mode"
+                  checked={judgeEnabled}
+                  onCheckedChange={(checked) => {
+                    setJudgeEnabled(checked);
+                    localStorage.setItem('judgeEnabled', String(checked));
+                  }}
+                />
+                <label 
+                  htmlFor="judge-mode" 
+                  className="text-sm font-medium cursor-pointer flex items-center gap-1.5"
+                  title="Score every All AIs round with a judge model"
+                >
+                  <Scale className="w-4 h-4" />
+                  Judge
+                </label>
+                {judgeEnabled && (
+                  <Select
+                    value={judgeProvider}
+                    onValueChange={(value) => {
+                      if (!isProviderId(value)) return;
+                      setJudgeProvider(value);
+                      localStorage.setItem('judgeProvider', value);
+                    }}
+                  >
+                    <SelectTrigger className="h-7 w-[130px] text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROVIDERS.map((provider) => (
+                        <SelectItem key={provider.id} value={provider.id} className="text-xs">
+                          {provider.icon} {provider.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <SessionSettingsDialog sessionId={currentSessionId} userId={user?.id} subscribed={subscribed} />
+              </div>
             </div>
 
             {/* Messages */}
@@ -1633,10 +2550,8 @@ export default function ChatInterface() {
                   </div>
                 </div>
               ) : (
-                <div ref={messagesContainerRef} className="space-y-4 max-w-4xl mx-auto overflow-y-auto flex-1">
-                  {messages.map((message) => (
-                    <MessageItem key={message.id} message={message} />
-                  ))}
+                <div ref={messagesContainerRef} className="space-y-4 max-w-6xl w-full mx-auto overflow-y-auto flex-1">
+                  {renderMessages()}
                   <div ref={messagesEndRef} />
                 </div>
               )}
@@ -1666,8 +2581,14 @@ export default function ChatInterface() {
                     ))}
                     {attachedFiles.map((file) => (
                       <Badge key={file.id} variant="outline" className="text-xs group">
-                        <File className="w-3 h-3 mr-1" />
+                        <FileStatusIcon
+                          fileType={file.file_type}
+                          status={file.extraction_status}
+                          error={file.extraction_error}
+                          pageCount={file.page_count}
+                        />
                         {file.filename.substring(0, 12)}...
+                        {file.page_count ? ` · ${file.page_count}p` : ''}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -1701,7 +2622,7 @@ export default function ChatInterface() {
                   multiple
                   onChange={handleFileSelect}
                   className="hidden"
-                  accept=".txt,.md,.json,.csv,.pdf,.doc,.docx"
+                  accept="image/*,.txt,.md,.json,.csv,.tsv,.pdf,.doc,.docx,.html,.htm,.xml,.yaml,.yml,.ts,.tsx,.js,.jsx,.py,.go,.rs,.java,.rb,.c,.cpp,.h,.cs,.php,.sql,.sh"
                 />
                 <Button
                   variant="outline"
@@ -1712,6 +2633,18 @@ export default function ChatInterface() {
                 >
                   <Paperclip className="w-4 h-4" />
                 </Button>
+                {canUseCamera() && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCapturePhoto}
+                    disabled={!currentSessionId}
+                    className="shrink-0 h-10 w-10 p-0"
+                    title="Take a photo"
+                  >
+                    <Camera className="w-4 h-4" />
+                  </Button>
+                )}
                 <Popover>
                   <PopoverTrigger asChild>
                     <Button
@@ -1747,24 +2680,35 @@ export default function ChatInterface() {
                     </ScrollArea>
                   </PopoverContent>
                 </Popover>
-                <Textarea
-                  ref={textareaRef}
-                  value={input}
-                  onChange={(e) => setInput(e.target.value)}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter' && !e.shiftKey) {
-                      e.preventDefault();
-                      handleSend();
-                    }
-                  }}
-                  placeholder={currentSessionId ? `Message ${selectedAI === "all" ? "all AIs" : AI_CONFIGS[selectedAI as keyof typeof AI_CONFIGS]?.name || selectedAI}...` : "Create or select a session"}
-                  disabled={loading || !currentSessionId}
-                  className="flex-1 bg-input border-border focus:ring-ring min-h-[40px] max-h-[100px] resize-none overflow-y-auto text-sm"
-                  rows={1}
+                <DebateDialog
+                  disabled={!currentSessionId || loading}
+                  defaultTopic={input.trim()}
+                  defaultModerator={judgeProvider}
+                  onStart={runDebate}
                 />
+                <div className="relative flex-1 flex">
+                  {slashFilter !== null && (
+                    <TemplateSlashMenu
+                      templates={slashMatches}
+                      activeIndex={slashIndex}
+                      onSelect={selectTemplate}
+                    />
+                  )}
+                  <Textarea
+                    ref={textareaRef}
+                    value={input}
+                    onChange={(e) => handleComposerChange(e.target.value)}
+                    onPaste={handlePaste}
+                    onKeyDown={handleComposerKeyDown}
+                    placeholder={currentSessionId ? `Message ${selectedAI === "all" ? "all AIs" : getSelectionConfig(selectedAI).name}...` : "Create or select a session"}
+                    disabled={loading || !currentSessionId}
+                    className="flex-1 bg-input border-border focus:ring-ring min-h-[40px] max-h-[100px] resize-none overflow-y-auto text-sm"
+                    rows={1}
+                  />
+                </div>
                 <Button 
                   onClick={loading ? handleStop : handleSend} 
-                  disabled={!loading && (!input.trim() || !currentSessionId)}
+                  disabled={!loading && (!input.trim() || !currentSessionId || selectedExhausted)}
                   className={cn(
                     "h-10 w-10 p-0",
                     loading ? "bg-destructive hover:bg-destructive/90" : "bg-primary hover:bg-primary/90"
@@ -1779,7 +2723,8 @@ export default function ChatInterface() {
               </div>
               <div className="flex items-center justify-between mt-2 gap-2 flex-wrap">
                 <Badge variant="secondary" className="text-xs">
-                  {selectedAI === "all" ? "All AIs" : AI_CONFIGS[selectedAI as keyof typeof AI_CONFIGS]?.name || selectedAI}
+                  {selectedAI === "all" ? "All AIs" : getSelectionConfig(selectedAI).name}
+                  {selectedExhausted && " · limit reached"}
                 </Badge>
                 {!subscribed && (
                   <Badge 
@@ -1788,7 +2733,7 @@ export default function ChatInterface() {
                   >
                     {remainingMessages === Infinity 
                       ? "Unlimited" 
-                      : `${remainingMessages}/${DAILY_MESSAGE_LIMIT} left`
+                      : `${remainingMessages}/${messageLimit} sends left`
                     }
                   </Badge>
                 )}
@@ -1799,6 +2744,16 @@ export default function ChatInterface() {
       </ResizablePanelGroup>
 
       <PinQueueModal />
+      <EditPromptDialog
+        message={editingMessage}
+        onCancel={() => setEditingMessage(null)}
+        onResend={handleEditResend}
+      />
+      <TemplateVariablesDialog
+        template={pendingTemplate}
+        onCancel={() => setPendingTemplate(null)}
+        onApply={applyTemplate}
+      />
     </div>
   );
 }
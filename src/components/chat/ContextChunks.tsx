@@ -0,0 +1,63 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Layers } from 'lucide-react';
+import { formatTokens } from '@/lib/usage';
+import { CHUNK_SOURCE_LABELS, type ContextChunkRef } from '@/lib/retrieval';
+
+interface ContextChunksProps {
+  chunks: ContextChunkRef[];
+}
+
+/**
+ * Shows which document chunks were injected into the prompt behind a reply
+ */
+export function ContextChunks({ chunks }: ContextChunksProps) {
+  if (chunks.length === 0) return null;
+
+  const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.tokens, 0);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-1.5 text-xs text-muted-foreground"
+          title="Document chunks used as context"
+        >
+          <Layers className="w-3 h-3 mr-1" />
+          {chunks.length} {chunks.length === 1 ? 'source' : 'sources'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="start">
+        <div className="px-3 py-2 border-b text-xs text-muted-foreground">
+          {chunks.length} {chunks.length === 1 ? 'chunk' : 'chunks'} · ~{formatTokens(totalTokens)} tokens injected
+        </div>
+        <ScrollArea className="max-h-80">
+          <div className="p-2 space-y-2">
+            {chunks.map(chunk => (
+              <div key={chunk.id} className="rounded border border-border p-2">
+                <div className="flex items-center gap-2 mb-1">
+                  <Badge variant="outline" className="text-[10px] px-1.5">
+                    {CHUNK_SOURCE_LABELS[chunk.sourceType]}
+                  </Badge>
+                  <span className="text-xs font-medium truncate flex-1">
+                    {chunk.title} · part {chunk.chunkIndex + 1}
+                  </span>
+                  <span className="text-[10px] text-muted-foreground shrink-0">
+                    {chunk.score.toFixed(2)}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground whitespace-pre-wrap line-clamp-4">
+                  {chunk.excerpt}
+                </p>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,60 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { EyeOff } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { getProvider, type ProviderId } from '@/lib/providers';
+import type { ContextSummaries } from '@/lib/contextWindow';
+
+interface ContextWindowMarkerProps {
+  // Models whose verbatim history starts at the message below the marker
+  providers: ProviderId[];
+  summaries: ContextSummaries;
+}
+
+/**
+ * Divider above the oldest message a model still sees; everything above it
+ * reaches that model only through its rolling summary
+ */
+export function ContextWindowMarker({ providers, summaries }: ContextWindowMarkerProps) {
+  const names = providers.map(id => getProvider(id).name).join(', ');
+
+  return (
+    <div className="flex items-center gap-2 py-1 text-[10px] text-muted-foreground">
+      <div className="flex-1 border-t border-dashed border-border" />
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px] text-muted-foreground gap-1">
+            <EyeOff className="w-3 h-3" />
+            {names} {providers.length === 1 ? 'sees' : 'see'} from here · earlier turns summarized
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-96 p-0" align="center">
+          <ScrollArea className="max-h-80">
+            <div className="p-3 space-y-3">
+              {providers.map(id => {
+                const summary = summaries[id];
+                return (
+                  <div key={id}>
+                    <div className="text-xs font-medium mb-1">
+                      {getProvider(id).icon} {getProvider(id).name}
+                      {summary && (
+                        <span className="ml-1 font-normal text-muted-foreground">
+                          · {summary.summarizedCount} turns · updated {formatDistanceToNow(new Date(summary.updatedAt), { addSuffix: true })}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+                      {summary?.summary ?? 'Not summarized yet; the summary is written on the next send.'}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </PopoverContent>
+      </Popover>
+      <div className="flex-1 border-t border-dashed border-border" />
+    </div>
+  );
+}
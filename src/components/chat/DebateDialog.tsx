@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Swords } from 'lucide-react';
+import { PROVIDERS, isProviderId, type ProviderId } from '@/lib/providers';
+import { MAX_DEBATE_ROUNDS, MIN_DEBATE_ROUNDS, type DebateConfig } from '@/lib/debate';
+
+interface DebateDialogProps {
+  disabled?: boolean;
+  // Pre-fills the topic, e.g. with whatever is in the composer
+  defaultTopic: string;
+  defaultModerator: ProviderId;
+  onStart: (config: DebateConfig) => void;
+}
+
+export function DebateDialog({ disabled, defaultTopic, defaultModerator, onStart }: DebateDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [topic, setTopic] = useState('');
+  const [rounds, setRounds] = useState(2);
+  const [moderator, setModerator] = useState<ProviderId>(defaultModerator);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!topic.trim()) return;
+
+    onStart({
+      topic: topic.trim(),
+      rounds: Math.min(MAX_DEBATE_ROUNDS, Math.max(MIN_DEBATE_ROUNDS, rounds)),
+      moderator,
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (isOpen) {
+        setTopic(defaultTopic);
+        setModerator(defaultModerator);
+      }
+    }}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          className="shrink-0 h-10 w-10 p-0"
+          title="Start a debate"
+        >
+          <Swords className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Swords className="w-5 h-5" />
+            Start a debate
+          </DialogTitle>
+          <DialogDescription>
+            {PROVIDERS.map(p => p.name).join(', ')} take turns, each answering the others' latest arguments.
+            A moderator summarizes at the end.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="debate-topic" className="text-sm font-medium">Topic</label>
+            <Textarea
+              id="debate-topic"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              placeholder="e.g. Should small teams adopt microservices?"
+              rows={3}
+              required
+            />
+          </div>
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label htmlFor="debate-rounds" className="text-sm font-medium">Rounds</label>
+              <Input
+                id="debate-rounds"
+                type="number"
+                min={MIN_DEBATE_ROUNDS}
+                max={MAX_DEBATE_ROUNDS}
+                value={rounds}
+                onChange={(e) => setRounds(Number(e.target.value))}
+              />
+            </div>
+            <div className="flex-1">
+              <span className="text-sm font-medium">Moderator</span>
+              <Select
+                value={moderator}
+                onValueChange={(value) => {
+                  if (isProviderId(value)) setModerator(value);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROVIDERS.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.icon} {provider.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!topic.trim()}>
+              Start debate
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
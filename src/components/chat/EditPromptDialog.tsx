@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Pencil } from 'lucide-react';
+
+interface EditablePrompt {
+  id: string;
+  content: string;
+}
+
+interface EditPromptDialogProps<T extends EditablePrompt> {
+  // The prompt being edited; null keeps the dialog closed
+  message: T | null;
+  onCancel: () => void;
+  onResend: (original: T, content: string) => void;
+}
+
+export function EditPromptDialog<T extends EditablePrompt>({ message, onCancel, onResend }: EditPromptDialogProps<T>) {
+  const [content, setContent] = useState('');
+
+  useEffect(() => {
+    setContent(message?.content ?? '');
+  }, [message]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message || !content.trim()) return;
+    onResend(message, content);
+  };
+
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Pencil className="w-5 h-5" />
+            Edit and resend
+          </DialogTitle>
+          <DialogDescription>
+            The edited prompt starts a new branch. The original and everything after it stay available
+            from the branch switcher.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            rows={6}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!content.trim() || content.trim() === message?.content}>
+              Resend
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
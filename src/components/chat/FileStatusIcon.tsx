@@ -0,0 +1,50 @@
+import { AlertCircle, File, Image, Loader2 } from 'lucide-react';
+import { isExtracting } from '@/lib/ingestion';
+import { isImageType } from '@/lib/images';
+
+interface FileStatusIconProps {
+  fileType?: string | null;
+  status?: string | null;
+  error?: string | null;
+  pageCount?: number | null;
+}
+
+/**
+ * Icon for an attached file chip reflecting its text extraction state
+ */
+export function FileStatusIcon({ fileType, status, error, pageCount }: FileStatusIconProps) {
+  // Images skip extraction; vision models get the image itself
+  if (isImageType(fileType)) {
+    return (
+      <span title="Sent as an image to models that support vision">
+        <Image className="w-3 h-3 mr-1" />
+      </span>
+    );
+  }
+
+  if (isExtracting(status)) {
+    return (
+      <span title="Extracting text...">
+        <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+      </span>
+    );
+  }
+
+  if (status === 'failed') {
+    return (
+      <span title={error ? `Extraction failed: ${error}` : 'Extraction failed'}>
+        <AlertCircle className="w-3 h-3 mr-1 text-destructive" />
+      </span>
+    );
+  }
+
+  const title = status === 'unsupported'
+    ? 'No text to extract; only the file name is shared'
+    : pageCount ? `${pageCount} ${pageCount === 1 ? 'page' : 'pages'} extracted` : undefined;
+
+  return (
+    <span title={title}>
+      <File className="w-3 h-3 mr-1" />
+    </span>
+  );
+}
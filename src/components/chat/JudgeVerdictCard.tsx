@@ -0,0 +1,94 @@
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Scale, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCost } from '@/lib/usage';
+import { getProvider, isProviderId } from '@/lib/providers';
+import { averageScore, type RoundVerdict } from '@/lib/judge';
+
+interface JudgeVerdictCardProps {
+  verdict?: RoundVerdict;
+  judging?: boolean;
+}
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+const providerName = (id: string) => isProviderId(id) ? getProvider(id).name : id;
+
+export function JudgeVerdictCard({ verdict, judging }: JudgeVerdictCardProps) {
+  if (!verdict) {
+    if (!judging) return null;
+    return (
+      <Card className="p-3 max-w-2xl mx-auto border-dashed bg-muted/30">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Judge is scoring this round...
+        </div>
+      </Card>
+    );
+  }
+
+  const { criteria, ranking, scores, rationale, labels } = verdict.verdict;
+
+  return (
+    <Card className="p-3 max-w-2xl mx-auto bg-muted/30 border-primary/30">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-1.5 text-sm font-medium">
+          <Scale className="w-4 h-4" />
+          Judge verdict
+        </div>
+        <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <span>by {providerName(verdict.judge_provider)}</span>
+          {verdict.cost_usd != null && <span>· {formatCost(Number(verdict.cost_usd))}</span>}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left font-normal py-1 pr-2">Rank</th>
+              {criteria.map((criterion) => (
+                <th key={criterion} className="text-center font-normal py-1 px-1 capitalize">{criterion}</th>
+              ))}
+              <th className="text-center font-normal py-1 pl-1">Avg</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranking.map((provider, index) => {
+              const average = averageScore(scores[provider]);
+              return (
+                <tr key={provider} className="border-t border-border/50">
+                  <td className="py-1 pr-2">
+                    <div className="flex items-center gap-1.5">
+                      <span>{MEDALS[index] ?? `${index + 1}.`}</span>
+                      <Badge className={cn("text-xs", getProvider(provider).classes.badge)}>
+                        {getProvider(provider).name}
+                      </Badge>
+                    </div>
+                  </td>
+                  {criteria.map((criterion) => (
+                    <td key={criterion} className="text-center py-1 px-1">
+                      {scores[provider]?.[criterion] ?? '–'}
+                    </td>
+                  ))}
+                  <td className="text-center py-1 pl-1 font-medium">
+                    {average === null ? '–' : average.toFixed(1)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {rationale && (
+        <p className="text-xs mt-2 leading-relaxed whitespace-pre-wrap">{rationale}</p>
+      )}
+      <div className="text-[10px] text-muted-foreground mt-1.5">
+        Answers were shown to the judge as{' '}
+        {Object.entries(labels).map(([label, provider]) => `${label} = ${providerName(provider)}`).join(', ')}
+      </div>
+    </Card>
+  );
+}
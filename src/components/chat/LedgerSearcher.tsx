@@ -2,6 +2,7 @@ import { useState, useEffect, useMemo } from 'react';
 import { Search, Pin, Calendar, User, FileText, ChevronDown, ChevronUp } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useServerSearch } from '@/hooks/useServerSearch';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -11,6 +12,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { highlightSearchTerms } from '@/lib/highlightText';
+import type { SearchSource } from '@/lib/search';
+import { entryTypeConfig } from '@/lib/ledgerTypes';
 import { formatDistanceToNow } from 'date-fns';
 
 interface LedgerEntry {
@@ -28,14 +31,7 @@ interface LedgerSearcherProps {
   attachedEntryIds: string[];
 }
 
-const typeColors: Record<string, string> = {
-  memory: 'text-blue-600 dark:text-blue-400',
-  context: 'text-purple-600 dark:text-purple-400',
-  experience: 'text-green-600 dark:text-green-400',
-  reflection: 'text-orange-600 dark:text-orange-400',
-  consolidation: 'text-pink-600 dark:text-pink-400',
-  research: 'text-cyan-600 dark:text-cyan-400',
-};
+const LEDGER_SOURCES: SearchSource[] = ['ledger_entries'];
 
 const dateRanges = {
   '7d': { label: 'Last 7 days', days: 7 },
@@ -49,20 +45,12 @@ export default function LedgerSearcher({ onAttachEntry, attachedEntryIds }: Ledg
   const [entries, setEntries] = useState<LedgerEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [typeFilter, setTypeFilter] = useState('all');
   const [agentFilter, setAgentFilter] = useState('all');
   const [dateRange, setDateRange] = useState('all');
   const [sortBy, setSortBy] = useState<'newest' | 'oldest'>('newest');
   const [expandedEntries, setExpandedEntries] = useState<Set<string>>(new Set());
-
-  // Debounce search input
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setDebouncedSearch(searchTerm);
-    }, 300);
-    return () => clearTimeout(timer);
-  }, [searchTerm]);
+  const search = useServerSearch(searchTerm, LEDGER_SOURCES);
 
   // Fetch entries
   useEffect(() => {
@@ -108,12 +96,10 @@ export default function LedgerSearcher({ onAttachEntry, attachedEntryIds }: Ledg
   const filteredEntries = useMemo(() => {
     let filtered = entries;
 
-    // Search filter
-    if (debouncedSearch) {
-      filtered = filtered.filter(entry => {
-        const content = JSON.stringify(entry.body_json).toLowerCase();
-        return content.includes(debouncedSearch.toLowerCase());
-      });
+    // Search results, in rank order
+    if (search.active) {
+      const byId = new Map(entries.map(entry => [entry.id, entry]));
+      filtered = search.hits.map(hit => byId.get(hit.sourceId)).filter(Boolean) as LedgerEntry[];
     }
 
     // Type filter
@@ -137,7 +123,12 @@ export default function LedgerSearcher({ onAttachEntry, attachedEntryIds }: Ledg
     }
 
     return filtered;
-  }, [entries, debouncedSearch, typeFilter, agentFilter, dateRange]);
+  }, [entries, search.active, search.hits, typeFilter, agentFilter, dateRange]);
+
+  const snippets = useMemo(
+    () => new Map(search.hits.map(hit => [hit.sourceId, hit.snippet])),
+    [search.hits]
+  );
 
   const truncateContent = (content: any, maxLength: number = 150): string => {
     const text = typeof content === 'string' ? content : JSON.stringify(content);
@@ -237,8 +228,9 @@ export default function LedgerSearcher({ onAttachEntry, attachedEntryIds }: Ledg
 
         {/* Results Count */}
         <div className="text-xs text-muted-foreground">
-          {filteredEntries.length} {filteredEntries.length === 1 ? 'memory' : 'memories'}
-          {debouncedSearch && ` matching "${debouncedSearch}"`}
+          {search.active
+            ? `${search.total} ${search.total === 1 ? 'memory' : 'memories'} matching "${search.activeQuery}"`
+            : `${filteredEntries.length} ${filteredEntries.length === 1 ? 'memory' : 'memories'}`}
         </div>
       </div>
 
@@ -249,14 +241,16 @@ export default function LedgerSearcher({ onAttachEntry, attachedEntryIds }: Ledg
             <Card className="p-6 text-center">
               <FileText className="h-12 w-12 mx-auto mb-3 text-muted-foreground" />
               <p className="text-sm text-muted-foreground">
-                {debouncedSearch || typeFilter !== 'all' || agentFilter !== 'all' || dateRange !== 'all'
+                {search.loading
+                  ? 'Searching...'
+                  : search.active || typeFilter !== 'all' || agentFilter !== 'all' || dateRange !== 'all'
                   ? 'No memories match your search criteria'
                   : 'No memories found. Create entries from the Memories page.'}
               </p>
             </Card>
           ) : (
             filteredEntries.map(entry => {
-              const previewContent = truncateContent(entry.body_json);
+              const previewContent = snippets.get(entry.id) ?? truncateContent(entry.body_json);
               const fullContent = getFullContent(entry.body_json);
               const attached = isAttached(entry.id);
               const isExpanded = expandedEntries.has(entry.id);
@@ -265,7 +259,7 @@ export default function LedgerSearcher({ onAttachEntry, attachedEntryIds }: Ledg
                 <Card key={entry.id} className={`p-3 ${attached ? 'border-primary' : ''}`}>
                   <div className="flex items-start justify-between gap-2 mb-2">
                     <div className="flex items-center gap-2 flex-wrap">
-                      <Badge variant="outline" className={typeColors[entry.entry_type] || ''}>
+                      <Badge variant="outline" className={entryTypeConfig(entry.entry_type).color}>
                         {entry.entry_type}
                       </Badge>
                       <span className="text-xs text-muted-foreground flex items-center gap-1">
@@ -293,8 +287,8 @@ export default function LedgerSearcher({ onAttachEntry, attachedEntryIds }: Ledg
                     <div className="space-y-2">
                       <p className="text-sm whitespace-pre-wrap">
                         {isExpanded 
-                          ? (debouncedSearch ? highlightSearchTerms(fullContent, debouncedSearch) : fullContent)
-                          : (debouncedSearch ? highlightSearchTerms(previewContent, debouncedSearch) : previewContent)
+                          ? (search.active ? highlightSearchTerms(fullContent, search.terms) : fullContent)
+                          : (search.active ? highlightSearchTerms(previewContent, search.terms) : previewContent)
                         }
                       </p>
                       
@@ -321,6 +315,18 @@ export default function LedgerSearcher({ onAttachEntry, attachedEntryIds }: Ledg
               );
             })
           )}
+
+          {search.active && search.hasMore && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={search.loadMore}
+              disabled={search.loading}
+            >
+              {search.loading ? 'Searching...' : 'Load more results'}
+            </Button>
+          )}
         </div>
       </ScrollArea>
     </div>
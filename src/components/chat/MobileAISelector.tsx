@@ -7,23 +7,17 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { ChevronDown, Users } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-type AIModel = "chatgpt" | "claude" | "deepseek" | "all";
-
-const AI_CONFIGS = {
-  chatgpt: { name: "ChatGPT", color: "chatgpt", icon: "🤖" },
-  claude: { name: "Claude", color: "claude", icon: "🧠" },
-  deepseek: { name: "DeepSeek", color: "deepseek", icon: "🔍" },
-  all: { name: "All AIs", color: "gradient-glow", icon: "🌟" }
-};
+import { PROVIDERS, getSelectionConfig, type AIModel } from '@/lib/providers';
 
 interface MobileAISelectorProps {
   selectedAI: AIModel;
   onSelect: (ai: AIModel) => void;
+  // Models whose daily cap is used up are shown but cannot be picked
+  isExhausted?: (provider: string) => boolean;
 }
 
-export function MobileAISelector({ selectedAI, onSelect }: MobileAISelectorProps) {
-  const currentConfig = AI_CONFIGS[selectedAI];
+export function MobileAISelector({ selectedAI, onSelect, isExhausted }: MobileAISelectorProps) {
+  const currentConfig = getSelectionConfig(selectedAI);
 
   return (
     <DropdownMenu>
@@ -52,18 +46,18 @@ export function MobileAISelector({ selectedAI, onSelect }: MobileAISelectorProps
           <Users className="w-4 h-4" />
           All AIs
         </DropdownMenuItem>
-        {Object.entries(AI_CONFIGS)
-          .filter(([key]) => key !== 'all')
-          .map(([key, config]) => (
-            <DropdownMenuItem 
-              key={key} 
-              onClick={() => onSelect(key as AIModel)}
-              className="gap-2"
-            >
-              <span>{config.icon}</span>
-              {config.name}
-            </DropdownMenuItem>
-          ))}
+        {PROVIDERS.map(provider => (
+          <DropdownMenuItem 
+            key={provider.id} 
+            onClick={() => onSelect(provider.id)}
+            disabled={isExhausted?.(provider.id)}
+            className="gap-2"
+          >
+            <span>{provider.icon}</span>
+            {provider.name}
+            {isExhausted?.(provider.id) && <span className="text-xs text-muted-foreground">limit reached</span>}
+          </DropdownMenuItem>
+        ))}
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -0,0 +1,49 @@
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import type { MessageError, MessageErrorKind } from '@/lib/chatStream';
+
+interface ReplyErrorProps {
+  error: MessageError;
+  providerName: string;
+  // Offered unless the failure is the user's own limit
+  onRetry?: () => void;
+  disabled?: boolean;
+}
+
+const TITLES: Record<MessageErrorKind, (provider: string) => string> = {
+  quota: () => 'Message limit reached',
+  rate_limit: (provider) => `${provider} is rate limiting requests`,
+  unavailable: (provider) => `${provider} is unavailable`,
+  refused: () => 'Request refused',
+  stream: () => 'Reply interrupted',
+  network: () => 'Network error',
+  unknown: () => 'Reply failed',
+};
+
+/**
+ * Shown in place of a reply that failed, with a way to ask the model again
+ */
+export function ReplyError({ error, providerName, onRetry, disabled }: ReplyErrorProps) {
+  return (
+    <div className="flex items-start gap-2 rounded-md border border-destructive/30 bg-destructive/5 p-2 text-xs">
+      <AlertTriangle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-destructive">{TITLES[error.kind](providerName)}</p>
+        <p className="text-muted-foreground break-words">{error.message}</p>
+      </div>
+      {onRetry && error.kind !== 'quota' && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-xs gap-1 shrink-0"
+          disabled={disabled}
+          onClick={onRetry}
+          title={`Ask ${providerName} again`}
+        >
+          <RotateCcw className="h-3 w-3" />
+          Retry
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from '@/components/ui/carousel';
+import { cn } from '@/lib/utils';
+import { getProvider, isProviderId } from '@/lib/providers';
+
+interface RoundReply {
+  id: string;
+  ai_model?: string;
+}
+
+interface RoundLayoutProps<T extends RoundReply> {
+  replies: T[];
+  isMobile: boolean;
+  renderReply: (reply: T) => ReactNode;
+}
+
+// Full class strings so Tailwind can see them at build time
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-2',
+};
+const DEFAULT_GRID_COLUMNS = 'grid-cols-3';
+
+/**
+ * Lays out the replies of one round: a side-by-side grid on desktop and a
+ * swipeable carousel on mobile
+ */
+export function RoundLayout<T extends RoundReply>({ replies, isMobile, renderReply }: RoundLayoutProps<T>) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  if (!isMobile) {
+    return (
+      <div className={cn('grid gap-3 items-start', GRID_COLUMNS[replies.length] ?? DEFAULT_GRID_COLUMNS)}>
+        {replies.map((reply) => (
+          <div key={reply.id} className="min-w-0">
+            {renderReply(reply)}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Carousel setApi={setApi} opts={{ align: 'start' }}>
+        <CarouselContent className="-ml-2">
+          {replies.map((reply) => (
+            <CarouselItem key={reply.id} className="pl-2 basis-[92%]">
+              {renderReply(reply)}
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+      </Carousel>
+      <div className="flex items-center justify-center gap-1.5">
+        {replies.map((reply, index) => (
+          <button
+            key={reply.id}
+            type="button"
+            onClick={() => api?.scrollTo(index)}
+            className={cn(
+              'h-6 min-w-6 px-1.5 rounded-full text-xs transition-opacity',
+              index === current ? 'bg-muted opacity-100' : 'opacity-50'
+            )}
+            aria-label={`Show reply ${index + 1} of ${replies.length}`}
+          >
+            {isProviderId(reply.ai_model) ? getProvider(reply.ai_model).icon : index + 1}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Search } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useServerSearch } from '@/hooks/useServerSearch';
+import { highlightSearchTerms } from '@/lib/highlightText';
+import { SEARCH_SOURCES, SEARCH_SOURCE_LABELS, type SearchHit, type SearchSource } from '@/lib/search';
+
+interface SearchDialogProps {
+  // Called for hits that belong to a chat (messages and uploaded files);
+  // other sources are shown but not navigable
+  onOpenHit: (hit: SearchHit) => void;
+}
+
+export function SearchDialog({ onOpenHit }: SearchDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [sources, setSources] = useState<SearchSource[]>([...SEARCH_SOURCES]);
+  const search = useServerSearch(open ? query : '', sources);
+
+  const toggleSource = (source: SearchSource) => {
+    setSources(prev => {
+      if (!prev.includes(source)) return [...prev, source];
+      // Never search nothing
+      return prev.length > 1 ? prev.filter(s => s !== source) : prev;
+    });
+  };
+
+  const openHit = (hit: SearchHit) => {
+    if (!hit.sessionId) return;
+    onOpenHit(hit);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full justify-start text-muted-foreground">
+          <Search className="w-4 h-4 mr-2" />
+          Search everything...
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Search className="w-5 h-5" />
+            Search
+          </DialogTitle>
+          <DialogDescription>
+            Search your chats, files, knowledge, research and memories by keyword or meaning.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          autoFocus
+          placeholder='Try "vector databases" or -exclude words'
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+
+        <div className="flex flex-wrap gap-2">
+          {SEARCH_SOURCES.map(source => (
+            <Badge
+              key={source}
+              variant={sources.includes(source) ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => toggleSource(source)}
+            >
+              {SEARCH_SOURCE_LABELS[source]}
+            </Badge>
+          ))}
+        </div>
+
+        <ScrollArea className="h-[50vh]">
+          <div className="space-y-2 pr-3">
+            {search.active && (
+              <p className="text-xs text-muted-foreground">
+                {search.loading && search.hits.length === 0
+                  ? 'Searching...'
+                  : `${search.total} ${search.total === 1 ? 'result' : 'results'}`}
+              </p>
+            )}
+
+            {search.hits.map(hit => {
+              const navigable = !!hit.sessionId;
+              return (
+                <div
+                  key={`${hit.sourceType}:${hit.sourceId}`}
+                  className={cn(
+                    "p-3 rounded-lg border border-border bg-card/50",
+                    navigable && "cursor-pointer hover:bg-card"
+                  )}
+                  onClick={() => openHit(hit)}
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    <Badge variant="secondary" className="text-xs">
+                      {SEARCH_SOURCE_LABELS[hit.sourceType]}
+                    </Badge>
+                    <span className="text-sm font-medium truncate flex-1">
+                      {highlightSearchTerms(hit.title, search.terms)}
+                    </span>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {formatDistanceToNow(new Date(hit.createdAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-3">
+                    {highlightSearchTerms(hit.snippet, search.terms)}
+                  </p>
+                </div>
+              );
+            })}
+
+            {search.active && !search.loading && search.hits.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                Nothing matches "{search.activeQuery}"
+              </p>
+            )}
+
+            {search.hasMore && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={search.loadMore}
+                disabled={search.loading}
+              >
+                {search.loading ? 'Searching...' : 'Load more results'}
+              </Button>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SlidersHorizontal } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { PROVIDERS, PROVIDER_IDS, isProviderId, type ProviderId } from '@/lib/providers';
+import {
+  MODEL_OPTIONS,
+  TIER_LIMITS,
+  fallbackModel,
+  findModel,
+  isCustomized,
+  type SessionSetting,
+  type SessionSettings,
+} from '@/lib/sessionSettings';
+
+interface SessionSettingsDialogProps {
+  sessionId: string | null;
+  userId: string | undefined;
+  subscribed: boolean;
+  // Icon-only trigger for the mobile header
+  compact?: boolean;
+}
+
+const emptySetting = (provider: ProviderId): SessionSetting => ({
+  provider,
+  model_id: null,
+  temperature: null,
+  max_tokens: null,
+  system_prompt: null,
+  failover: true,
+});
+
+export function SessionSettingsDialog({ sessionId, userId, subscribed, compact }: SessionSettingsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<ProviderId>(PROVIDER_IDS[0]);
+  const [drafts, setDrafts] = useState<SessionSettings>({});
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const limits = TIER_LIMITS[subscribed ? 'premium' : 'free'];
+
+  const loadSettings = async () => {
+    if (!sessionId) return;
+    const { data, error } = await supabase
+      .from('session_settings')
+      .select('provider, model_id, temperature, max_tokens, system_prompt, failover')
+      .eq('session_id', sessionId);
+
+    if (error) {
+      console.error('Error loading session settings:', error);
+      return;
+    }
+
+    const loaded: SessionSettings = {};
+    for (const row of data ?? []) {
+      if (!isProviderId(row.provider)) continue;
+      loaded[row.provider] = {
+        ...row,
+        provider: row.provider,
+        temperature: row.temperature === null ? null : Number(row.temperature),
+      };
+    }
+    setDrafts(loaded);
+  };
+
+  const draftFor = (provider: ProviderId) => drafts[provider] ?? emptySetting(provider);
+
+  const updateDraft = (provider: ProviderId, patch: Partial<SessionSetting>) => {
+    setDrafts(prev => ({ ...prev, [provider]: { ...(prev[provider] ?? emptySetting(provider)), ...patch } }));
+  };
+
+  const saveSetting = async (setting: SessionSetting) => {
+    if (!sessionId || !userId) return;
+    setSaving(true);
+    try {
+      // A row that only restates the defaults is removed rather than kept
+      const { error } = isCustomized(setting)
+        ? await supabase
+          .from('session_settings')
+          .upsert({
+            session_id: sessionId,
+            user_id: userId,
+            provider: setting.provider,
+            model_id: setting.model_id,
+            temperature: setting.temperature,
+            max_tokens: setting.max_tokens,
+            system_prompt: setting.system_prompt?.trim() || null,
+            failover: setting.failover,
+          }, { onConflict: 'session_id,provider' })
+        : await supabase
+          .from('session_settings')
+          .delete()
+          .eq('session_id', sessionId)
+          .eq('provider', setting.provider);
+
+      if (error) throw error;
+
+      toast({
+        title: "Settings saved",
+        description: `${PROVIDERS.find(p => p.id === setting.provider)?.name} applies them from the next message in this chat.`,
+      });
+    } catch (error) {
+      console.error('Error saving session settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save session settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetSetting = async (provider: ProviderId) => {
+    const reset = emptySetting(provider);
+    updateDraft(provider, reset);
+    await saveSetting(reset);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (isOpen) loadSettings();
+    }}>
+      <DialogTrigger asChild>
+        <Button
+          variant={compact ? 'ghost' : 'outline'}
+          size="sm"
+          disabled={!sessionId}
+          className={compact ? 'h-8 w-8 p-0' : 'h-7 text-xs gap-1'}
+          title="Model settings for this chat"
+        >
+          <SlidersHorizontal className={compact ? 'w-4 h-4' : 'w-3 h-3'} />
+          {!compact && 'Models'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5" />
+            Model settings
+          </DialogTitle>
+          <DialogDescription>
+            Apply to this chat only. Anything left empty uses the provider default.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={(value) => { if (isProviderId(value)) setTab(value); }}>
+          <TabsList className="grid w-full grid-cols-3">
+            {PROVIDERS.map(provider => (
+              <TabsTrigger key={provider.id} value={provider.id}>
+                {provider.icon} {provider.name}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {PROVIDERS.map(provider => {
+            const draft = draftFor(provider.id);
+            const model = findModel(provider.id, draft.model_id);
+            const maxTokensLimit = Math.min(limits.maxTokens, model.maxOutputTokens);
+            // Rows saved before the per-model maximum may be above it; the server sends the maximum
+            const temperature = draft.temperature === null ? null : Math.min(draft.temperature, model.maxTemperature);
+            const maxTokensInvalid = draft.max_tokens !== null && (draft.max_tokens < 1 || draft.max_tokens > maxTokensLimit);
+            const fallback = fallbackModel(draft, subscribed);
+
+            return (
+              <TabsContent key={provider.id} value={provider.id} className="space-y-4">
+                <div>
+                  <span className="text-sm font-medium">Model</span>
+                  <Select
+                    value={model.id}
+                    onValueChange={(value) => updateDraft(provider.id, {
+                      model_id: value,
+                      temperature: draft.temperature === null
+                        ? null
+                        : Math.min(draft.temperature, findModel(provider.id, value).maxTemperature),
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MODEL_OPTIONS[provider.id].map(option => (
+                        <SelectItem key={option.id} value={option.id} disabled={option.premium && !subscribed}>
+                          {option.label}
+                          {option.premium && !subscribed && ' · Premium'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Temperature</span>
+                    <span className="text-xs text-muted-foreground">
+                      {!model.temperature
+                        ? 'Not supported by this model'
+                        : temperature === null ? 'Default' : temperature.toFixed(1)}
+                    </span>
+                  </div>
+                  <Slider
+                    className="mt-2"
+                    min={0}
+                    max={model.maxTemperature}
+                    step={0.1}
+                    disabled={!model.temperature}
+                    value={[temperature ?? 1]}
+                    onValueChange={([value]) => updateDraft(provider.id, { temperature: value })}
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor={`max-tokens-${provider.id}`} className="text-sm font-medium">Max tokens</label>
+                  <Input
+                    id={`max-tokens-${provider.id}`}
+                    type="number"
+                    min={1}
+                    max={maxTokensLimit}
+                    placeholder="Default"
+                    value={draft.max_tokens ?? ''}
+                    onChange={(e) => updateDraft(provider.id, {
+                      max_tokens: e.target.value === '' ? null : Math.floor(Number(e.target.value)),
+                    })}
+                  />
+                  <p className={`text-xs mt-1 ${maxTokensInvalid ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    Up to {maxTokensLimit.toLocaleString()} on your plan
+                  </p>
+                </div>
+
+                <div>
+                  <label htmlFor={`system-prompt-${provider.id}`} className="text-sm font-medium">System prompt</label>
+                  <Textarea
+                    id={`system-prompt-${provider.id}`}
+                    rows={4}
+                    maxLength={limits.systemPromptChars}
+                    placeholder="e.g. You are a concise senior engineer. Answer with code first."
+                    value={draft.system_prompt ?? ''}
+                    onChange={(e) => updateDraft(provider.id, { system_prompt: e.target.value || null })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {(draft.system_prompt ?? '').length}/{limits.systemPromptChars}
+                  </p>
+                </div>
+
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <label htmlFor={`failover-${provider.id}`} className="text-sm font-medium">Fail over</label>
+                    <p className="text-xs text-muted-foreground">
+                      {fallback
+                        ? `Switch to ${fallback.label} if ${model.label} keeps failing`
+                        : `No fallback for ${model.label} on your plan`}
+                    </p>
+                  </div>
+                  <Switch
+                    id={`failover-${provider.id}`}
+                    checked={draft.failover}
+                    disabled={!fallback}
+                    onCheckedChange={(checked) => updateDraft(provider.id, { failover: checked })}
+                  />
+                </div>
+
+                <DialogFooter>
+                  <Button type="button" variant="outline" disabled={saving} onClick={() => resetSetting(provider.id)}>
+                    Reset to defaults
+                  </Button>
+                  <Button type="button" disabled={saving || maxTokensInvalid} onClick={() => saveSetting(draft)}>
+                    Save {provider.name}
+                  </Button>
+                </DialogFooter>
+              </TabsContent>
+            );
+          })}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,382 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Plus, Edit, Trash2, FileCode2, Search, X, CornerDownLeft } from 'lucide-react';
+import { ALL_PROVIDERS, PROVIDERS, getSelectionConfig } from '@/lib/providers';
+import { templateCategories, templateTarget, templateVariables, type PromptTemplate } from '@/lib/templates';
+
+interface KnowledgeItem {
+  id: string;
+  title: string;
+}
+
+interface TemplateManagerProps {
+  templates: PromptTemplate[];
+  knowledgeBase: KnowledgeItem[];
+  onRefresh: () => void;
+  // Puts the template in the composer, as the slash menu does
+  onUse: (template: PromptTemplate) => void;
+}
+
+// Select has no empty value, so "no default target" gets a sentinel
+const NO_TARGET = 'none';
+
+export function TemplateManager({ templates, knowledgeBase, onRefresh, onUse }: TemplateManagerProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<PromptTemplate | null>(null);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [category, setCategory] = useState('');
+  const [target, setTarget] = useState(NO_TARGET);
+  const [knowledgeIds, setKnowledgeIds] = useState<string[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const categories = templateCategories(templates);
+  const filteredTemplates = templates.filter(template =>
+    (!categoryFilter || template.category === categoryFilter) && (
+      template.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      template.body.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+  );
+  const variables = templateVariables(body);
+
+  const resetForm = () => {
+    setTitle('');
+    setBody('');
+    setCategory('');
+    setTarget(NO_TARGET);
+    setKnowledgeIds([]);
+    setEditingTemplate(null);
+  };
+
+  const handleEdit = (template: PromptTemplate) => {
+    setEditingTemplate(template);
+    setTitle(template.title);
+    setBody(template.body);
+    setCategory(template.category ?? '');
+    setTarget(template.default_target ?? NO_TARGET);
+    setKnowledgeIds(template.knowledge_ids);
+    setIsDialogOpen(true);
+  };
+
+  const toggleKnowledge = (id: string) => {
+    setKnowledgeIds(prev => prev.includes(id) ? prev.filter(k => k !== id) : [...prev, id]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !body.trim()) return;
+
+    if (!user) {
+      toast({
+        title: "Authentication Required",
+        description: "Please log in to save templates",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const fields = {
+      title: title.trim(),
+      body: body.trim(),
+      category: category.trim() || null,
+      default_target: target === NO_TARGET ? null : target,
+      knowledge_ids: knowledgeIds,
+    };
+
+    try {
+      const { error } = editingTemplate
+        ? await supabase
+          .from('prompt_templates')
+          .update(fields)
+          .eq('id', editingTemplate.id)
+        : await supabase
+          .from('prompt_templates')
+          .insert([{ ...fields, user_id: user.id }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: editingTemplate ? "Template updated" : "Template added",
+      });
+
+      resetForm();
+      setIsDialogOpen(false);
+      onRefresh();
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('prompt_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Template deleted",
+      });
+
+      onRefresh();
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileCode2 className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold">Templates</h2>
+          <Badge variant="secondary">{templates.length}</Badge>
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) resetForm();
+        }}>
+          <DialogTrigger asChild>
+            <Button size="sm" className="gap-2">
+              <Plus className="w-4 h-4" />
+              Add Template
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>
+                {editingTemplate ? 'Edit Template' : 'Add Template'}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="flex gap-4">
+                <div className="flex-1">
+                  <label className="text-sm font-medium">Title</label>
+                  <Input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="e.g. Code review"
+                    maxLength={200}
+                    required
+                  />
+                </div>
+                <div className="w-40">
+                  <label className="text-sm font-medium">Category</label>
+                  <Input
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                    placeholder="e.g. Evaluation"
+                    maxLength={100}
+                    list="template-categories"
+                  />
+                  <datalist id="template-categories">
+                    {categories.map(name => <option key={name} value={name} />)}
+                  </datalist>
+                </div>
+                <div className="w-40">
+                  <span className="text-sm font-medium">Send to</span>
+                  <Select value={target} onValueChange={setTarget}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TARGET}>Current selection</SelectItem>
+                      <SelectItem value="all">{ALL_PROVIDERS.icon} {ALL_PROVIDERS.name}</SelectItem>
+                      {PROVIDERS.map(provider => (
+                        <SelectItem key={provider.id} value={provider.id}>
+                          {provider.icon} {provider.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Prompt</label>
+                <Textarea
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  placeholder="Review this {{language}} code for bugs and style issues:&#10;&#10;{{code}}"
+                  rows={8}
+                  maxLength={20000}
+                  required
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {variables.length > 0
+                    ? `Variables: ${variables.join(', ')}`
+                    : 'Use {{name}} for parts you fill in each time.'}
+                </p>
+              </div>
+              {knowledgeBase.length > 0 && (
+                <div>
+                  <span className="text-sm font-medium">Attach knowledge</span>
+                  <ScrollArea className="max-h-32 mt-1 rounded-md border border-border">
+                    <div className="p-2 space-y-1">
+                      {knowledgeBase.map(item => (
+                        <label key={item.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={knowledgeIds.includes(item.id)}
+                            onCheckedChange={() => toggleKnowledge(item.id)}
+                          />
+                          <span className="truncate">{item.title}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingTemplate ? 'Update' : 'Add'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Search templates..."
+          className="pl-10"
+        />
+        {searchTerm && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="absolute right-2 top-1/2 transform -translate-y-1/2 h-6 w-6 p-0"
+            onClick={() => setSearchTerm('')}
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+
+      {categories.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {categories.map(name => (
+            <Badge
+              key={name}
+              variant={categoryFilter === name ? 'default' : 'outline'}
+              className="cursor-pointer text-xs"
+              onClick={() => setCategoryFilter(prev => prev === name ? null : name)}
+            >
+              {name}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <ScrollArea className="h-[calc(100vh-420px)]">
+        <div className="space-y-3">
+          {filteredTemplates.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground text-sm">
+              {templates.length > 0
+                ? 'No templates match your search'
+                : 'No templates yet. Type / in the message box to use them once added.'}
+            </div>
+          ) : (
+            filteredTemplates.map((template) => {
+              const defaultTarget = templateTarget(template);
+              return (
+                <Card key={template.id} className="p-3 hover:bg-card/80 transition-colors">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-medium text-sm truncate flex-1">{template.title}</h3>
+                    {defaultTarget && (
+                      <span className="text-xs" title={`Sends to ${getSelectionConfig(defaultTarget).name}`}>
+                        {getSelectionConfig(defaultTarget).icon}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground line-clamp-2 font-mono">
+                    {template.body}
+                  </p>
+                  <div className="flex items-center justify-between mt-2">
+                    <div className="flex items-center gap-1 min-w-0">
+                      {template.category && (
+                        <Badge variant="outline" className="text-[10px]">{template.category}</Badge>
+                      )}
+                      {template.knowledge_ids.length > 0 && (
+                        <Badge variant="secondary" className="text-[10px]">
+                          {template.knowledge_ids.length} knowledge
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => onUse(template)}
+                        title="Use in message"
+                      >
+                        <CornerDownLeft className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => handleEdit(template)}
+                        title="Edit"
+                      >
+                        <Edit className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(template.id)}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
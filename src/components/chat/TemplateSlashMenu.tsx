@@ -0,0 +1,58 @@
+import { FileCode2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getSelectionConfig } from '@/lib/providers';
+import { templateTarget, templateVariables, type PromptTemplate } from '@/lib/templates';
+
+interface TemplateSlashMenuProps {
+  // Already filtered by what follows the slash
+  templates: PromptTemplate[];
+  activeIndex: number;
+  onSelect: (template: PromptTemplate) => void;
+}
+
+/**
+ * Template picker that opens above the composer while it holds "/query";
+ * keyboard handling stays with the composer
+ */
+export function TemplateSlashMenu({ templates, activeIndex, onSelect }: TemplateSlashMenuProps) {
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-20 rounded-md border border-border bg-popover shadow-md overflow-hidden">
+      <div className="px-3 py-1.5 text-[10px] uppercase tracking-wide text-muted-foreground border-b border-border">
+        Templates · ↑↓ to pick, Enter to use, Esc to close
+      </div>
+      {templates.length === 0 ? (
+        <div className="px-3 py-2 text-xs text-muted-foreground">
+          No matching templates. Add some in Knowledge → Templates.
+        </div>
+      ) : (
+        templates.map((template, index) => {
+          const target = templateTarget(template);
+          const variables = templateVariables(template.body);
+          return (
+            <button
+              key={template.id}
+              type="button"
+              // Keeps focus in the composer
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onSelect(template)}
+              className={cn(
+                "w-full flex items-center gap-2 px-3 py-2 text-left text-sm",
+                index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+              )}
+            >
+              <FileCode2 className="w-4 h-4 shrink-0 text-muted-foreground" />
+              <span className="truncate flex-1">{template.title}</span>
+              {template.category && (
+                <span className="text-[10px] text-muted-foreground">{template.category}</span>
+              )}
+              {variables.length > 0 && (
+                <span className="text-[10px] text-muted-foreground">{variables.length} vars</span>
+              )}
+              {target && <span className="text-xs">{getSelectionConfig(target).icon}</span>}
+            </button>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FileCode2 } from 'lucide-react';
+import { fillTemplate, templateVariables, type PromptTemplate } from '@/lib/templates';
+
+interface TemplateVariablesDialogProps {
+  // Open while set
+  template: PromptTemplate | null;
+  onCancel: () => void;
+  onApply: (template: PromptTemplate, values: Record<string, string>) => void;
+}
+
+export function TemplateVariablesDialog({ template, onCancel, onApply }: TemplateVariablesDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const variables = template ? templateVariables(template.body) : [];
+
+  useEffect(() => {
+    setValues({});
+  }, [template?.id]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (template) onApply(template, values);
+  };
+
+  return (
+    <Dialog open={template !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileCode2 className="w-5 h-5" />
+            {template?.title}
+          </DialogTitle>
+          <DialogDescription>
+            Fill in the variables. Anything left empty is removed from the prompt.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {variables.map((name, index) => (
+            <div key={name}>
+              <label htmlFor={`template-var-${name}`} className="text-sm font-medium">{name}</label>
+              <Textarea
+                id={`template-var-${name}`}
+                autoFocus={index === 0}
+                rows={2}
+                value={values[name] ?? ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+              />
+            </div>
+          ))}
+          {template && (
+            <div className="rounded-md bg-muted p-3 text-xs text-muted-foreground whitespace-pre-wrap max-h-40 overflow-y-auto">
+              {fillTemplate(template.body, values)}
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit">
+              Insert prompt
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
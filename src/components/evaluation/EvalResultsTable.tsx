@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Clock, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getProvider } from '@/lib/providers';
+import { formatCost, formatTokens } from '@/lib/usage';
+import { averageScore } from '@/lib/judge';
+import { resultKey, type EvalPrompt, type EvalResult, type EvalRun } from '@/lib/evaluation';
+
+interface EvalResultsTableProps {
+  run: EvalRun;
+  prompts: EvalPrompt[];
+  results: Map<string, EvalResult>;
+  // Prompt the runner is working on
+  activePromptId: string | null;
+}
+
+const formatMs = (ms: number | null) =>
+  ms === null ? '–' : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+export function EvalResultsTable({ run, prompts, results, activePromptId }: EvalResultsTableProps) {
+  // Rows showing full answers instead of a preview
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-10">#</TableHead>
+          <TableHead className="w-1/4">Prompt</TableHead>
+          {run.providers.map(provider => (
+            <TableHead key={provider}>
+              {getProvider(provider).icon} {getProvider(provider).name}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {prompts.map(prompt => {
+          const isExpanded = expanded.has(prompt.id);
+          return (
+            <TableRow key={prompt.id} className="align-top cursor-pointer" onClick={() => toggle(prompt.id)}>
+              <TableCell className="font-medium">{prompt.position + 1}</TableCell>
+              <TableCell>
+                <p className={cn("text-xs whitespace-pre-wrap", !isExpanded && "line-clamp-3")}>{prompt.prompt}</p>
+              </TableCell>
+              {run.providers.map(provider => {
+                const result = results.get(resultKey(prompt.id, provider));
+                const score = averageScore(prompt.verdict?.scores[provider]);
+                const rank = prompt.verdict ? prompt.verdict.ranking.indexOf(provider) : -1;
+
+                if (!result) {
+                  return (
+                    <TableCell key={provider} className="text-xs text-muted-foreground">
+                      {activePromptId === prompt.id
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : 'Pending'}
+                    </TableCell>
+                  );
+                }
+
+                return (
+                  <TableCell key={provider} className="space-y-1">
+                    {result.status === 'failed' ? (
+                      <p className="text-xs text-destructive flex items-start gap-1">
+                        <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                        {result.error}
+                      </p>
+                    ) : (
+                      <p className={cn("text-xs whitespace-pre-wrap", !isExpanded && "line-clamp-3")}>
+                        {result.response}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-1 text-[10px] text-muted-foreground">
+                      <span className="flex items-center gap-0.5" title="Time to first token / total">
+                        <Clock className="w-3 h-3" />
+                        {formatMs(result.first_token_ms)} / {formatMs(result.latency_ms)}
+                      </span>
+                      {result.input_tokens !== null && (
+                        <span>
+                          · {formatTokens(result.input_tokens)} in / {formatTokens(result.output_tokens ?? 0)} out
+                        </span>
+                      )}
+                      {result.cost_usd !== null && <span>· {formatCost(result.cost_usd)}</span>}
+                    </div>
+                    {score !== null && (
+                      <Badge variant={rank === 0 ? 'default' : 'outline'} className="text-[10px]">
+                        {rank === 0 && '🏆 '}{score.toFixed(1)}/10
+                      </Badge>
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Upload } from 'lucide-react';
+import { PROVIDERS, PROVIDER_IDS, isProviderId, type ProviderId } from '@/lib/providers';
+import { MAX_EVAL_PROMPTS, parsePromptFile } from '@/lib/evaluation';
+
+export interface NewEvalRun {
+  title: string;
+  prompts: string[];
+  providers: ProviderId[];
+  judgeProvider: ProviderId | null;
+  webSearchEnabled: boolean;
+}
+
+interface NewEvalRunDialogProps {
+  onCreate: (run: NewEvalRun) => Promise<void>;
+}
+
+// Select has no empty value, so "no judge" gets a sentinel
+const NO_JUDGE = 'none';
+
+export function NewEvalRunDialog({ onCreate }: NewEvalRunDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [prompts, setPrompts] = useState<string[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [providers, setProviders] = useState<ProviderId[]>([...PROVIDER_IDS]);
+  const [judge, setJudge] = useState<string>(NO_JUDGE);
+  const [webSearchEnabled, setWebSearchEnabled] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  const reset = () => {
+    setTitle('');
+    setPrompts([]);
+    setFileName('');
+    setFileError(null);
+    setProviders([...PROVIDER_IDS]);
+    setJudge(NO_JUDGE);
+    setWebSearchEnabled(false);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      const parsed = parsePromptFile(file.name, await file.text());
+      setPrompts(parsed);
+      setFileError(null);
+      if (!title) setTitle(file.name.replace(/\.[^.]+$/, ''));
+    } catch (error) {
+      setPrompts([]);
+      setFileError((error as Error).message);
+    }
+  };
+
+  const toggleProvider = (id: ProviderId) => {
+    setProviders(prev => prev.includes(id)
+      ? prev.filter(p => p !== id)
+      : PROVIDER_IDS.filter(p => p === id || prev.includes(p)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || prompts.length === 0 || providers.length === 0) return;
+
+    setCreating(true);
+    try {
+      await onCreate({
+        title: title.trim(),
+        prompts,
+        providers,
+        // A judge needs at least two answers to compare
+        judgeProvider: isProviderId(judge) && providers.length >= 2 ? judge : null,
+        webSearchEnabled,
+      });
+      setOpen(false);
+      reset();
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (!isOpen) reset();
+    }}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="gap-2">
+          <Plus className="w-4 h-4" />
+          New evaluation
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New evaluation</DialogTitle>
+          <DialogDescription>
+            Upload up to {MAX_EVAL_PROMPTS} prompts as CSV (a "prompt" column, or one prompt per row) or
+            JSONL (one {'{"prompt": "..."}'} per line). Each prompt counts as one message against your daily limit.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="eval-file" className="text-sm font-medium">Prompt file</label>
+            <label
+              htmlFor="eval-file"
+              className="mt-1 flex items-center gap-2 rounded-md border border-dashed border-border p-3 text-sm text-muted-foreground cursor-pointer hover:bg-muted/50"
+            >
+              <Upload className="w-4 h-4" />
+              {fileName || 'Choose a .csv or .jsonl file'}
+              {prompts.length > 0 && (
+                <span className="ml-auto text-foreground">{prompts.length} prompts</span>
+              )}
+            </label>
+            <input
+              id="eval-file"
+              type="file"
+              accept=".csv,.jsonl,.ndjson"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {fileError && <p className="text-xs text-destructive mt-1">{fileError}</p>}
+          </div>
+          <div>
+            <label htmlFor="eval-title" className="text-sm font-medium">Title</label>
+            <Input
+              id="eval-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={200}
+              required
+            />
+          </div>
+          <div>
+            <span className="text-sm font-medium">Models</span>
+            <div className="flex gap-4 mt-1">
+              {PROVIDERS.map(provider => (
+                <label key={provider.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={providers.includes(provider.id)}
+                    onCheckedChange={() => toggleProvider(provider.id)}
+                  />
+                  {provider.icon} {provider.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <span className="text-sm font-medium">Judge</span>
+              <Select value={judge} onValueChange={setJudge} disabled={providers.length < 2}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_JUDGE}>No judge</SelectItem>
+                  {PROVIDERS.map(provider => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.icon} {provider.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex items-center gap-2 text-sm font-medium pt-6 cursor-pointer">
+              <Switch checked={webSearchEnabled} onCheckedChange={setWebSearchEnabled} />
+              🌐 Web search
+            </label>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={creating || !title.trim() || prompts.length === 0 || providers.length === 0}>
+              Create
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,15 +10,35 @@ import { Plus, Hash, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { ENTRY_TYPES, ENTRY_TYPE_LIST, formFields, validateBody, type FieldSchema, type LedgerEntryType } from "@/lib/ledgerTypes";
 
 interface AddEntryFormProps {
   onAddEntry: (entry: any) => void;
 }
 
+// Long free text gets a textarea, short values a single line
+const isLongText = (field: FieldSchema) => (field.maxLength ?? 0) >= 2000;
+
+/**
+ * Form values (arrays as one item per line) to a body, leaving out empty fields
+ */
+function toBody(type: LedgerEntryType, values: Record<string, string>): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  for (const [key, field] of formFields(type)) {
+    const value = values[key]?.trim();
+    if (!value) continue;
+    body[key] = field.type === 'array'
+      ? value.split('\n').map(item => item.trim()).filter(Boolean)
+      : value;
+  }
+  return body;
+}
+
 export function AddEntryForm({ onAddEntry }: AddEntryFormProps) {
   const [agentId, setAgentId] = useState("");
-  const [type, setType] = useState<"memory" | "context" | "experience" | "consolidation" | "anchor_memory">("memory");
-  const [content, setContent] = useState("");
+  const [type, setType] = useState<LedgerEntryType>("memory");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [problems, setProblems] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
@@ -26,7 +46,7 @@ export function AddEntryForm({ onAddEntry }: AddEntryFormProps) {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!agentId.trim() || !content.trim()) {
+    if (!agentId.trim() || !values.content?.trim()) {
       return;
     }
 
@@ -39,17 +59,22 @@ export function AddEntryForm({ onAddEntry }: AddEntryFormProps) {
       return;
     }
 
+    const bodyJson = {
+      agent_id: agentId.trim(),
+      entry_type: type,
+      ...toBody(type, values),
+      timestamp: new Date().toISOString(),
+      actor: user.id
+    };
+
+    // Same check save-to-ledger makes, so the problem shows next to the form
+    const bodyProblems = validateBody(type, bodyJson);
+    setProblems(bodyProblems);
+    if (bodyProblems.length > 0) return;
+
     setIsSubmitting(true);
 
     try {
-      const bodyJson = {
-        agent_id: agentId.trim(),
-        entry_type: type,
-        content: content.trim(),
-        timestamp: new Date().toISOString(),
-        actor: user.id
-      };
-
       const { data, error } = await supabase.functions.invoke('save-to-ledger', {
         body: {
           agent_id: agentId.trim(),
@@ -73,8 +98,8 @@ export function AddEntryForm({ onAddEntry }: AddEntryFormProps) {
         hash: data.body_hash,
         agentId: agentId.trim(),
         type: type,
-        content: content.trim(),
-        size: new Blob([content]).size,
+        content: values.content.trim(),
+        size: new Blob([values.content]).size,
         prevHash: data.prev_hash || null,
         batchId: null
       };
@@ -86,7 +111,7 @@ export function AddEntryForm({ onAddEntry }: AddEntryFormProps) {
         description: `Memory anchor logged to blockchain with hash ${entry.hash.slice(0, 8)}...`,
       });
 
-      setContent("");
+      setValues({});
     } catch (error) {
       console.error('[AddEntryForm] Error adding entry:', error);
       toast({
@@ -99,7 +124,8 @@ export function AddEntryForm({ onAddEntry }: AddEntryFormProps) {
     }
   };
 
-  const contentSize = new Blob([content]).size;
+  const contentSize = new Blob([values.content ?? ""]).size;
+  const setValue = (key: string, value: string) => setValues(prev => ({ ...prev, [key]: value }));
 
   return (
     <Card className="p-6 bg-card/80 backdrop-blur-sm border-primary/20">
@@ -133,47 +159,110 @@ export function AddEntryForm({ onAddEntry }: AddEntryFormProps) {
             <Label htmlFor="type" className="text-sm font-medium">
               Entry Type
             </Label>
-            <Select value={type} onValueChange={(value: any) => setType(value)}>
+            <Select
+              value={type}
+              onValueChange={(value: LedgerEntryType) => {
+                setType(value);
+                setProblems([]);
+              }}
+            >
               <SelectTrigger className="bg-input/50">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="memory">Memory</SelectItem>
-                <SelectItem value="context">Context</SelectItem>
-                <SelectItem value="experience">Experience</SelectItem>
-                <SelectItem value="consolidation">Consolidation</SelectItem>
-                <SelectItem value="anchor_memory">Anchor Memory</SelectItem>
+                {ENTRY_TYPE_LIST.map(entryType => (
+                  <SelectItem key={entryType.id} value={entryType.id}>
+                    <span className="flex items-center gap-2">
+                      <entryType.icon className={`h-3 w-3 ${entryType.color}`} />
+                      {entryType.label}
+                    </span>
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
         </div>
 
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="content" className="text-sm font-medium">
-              Memory Content
+        <p className="text-xs text-muted-foreground">{ENTRY_TYPES[type].schema.description}</p>
+
+        {formFields(type).map(([key, field]) => {
+          const required = ENTRY_TYPES[type].schema.required.includes(key);
+          const label = (
+            <Label htmlFor={`field-${key}`} className="text-sm font-medium">
+              {field.title}
+              {required && <span className="text-destructive"> *</span>}
             </Label>
-            <div className="flex items-center gap-2">
-              <Badge 
-                variant={contentSize > 1000 ? "destructive" : "outline"} 
-                className="text-xs font-mono"
-              >
-                {contentSize} bytes
-              </Badge>
-              {contentSize > 1000 && (
-                <span className="text-xs text-destructive">Consider smaller content for efficiency</span>
+          );
+
+          if (key === 'content') {
+            return (
+              <div key={key} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  {label}
+                  <div className="flex items-center gap-2">
+                    <Badge 
+                      variant={contentSize > 1000 ? "destructive" : "outline"} 
+                      className="text-xs font-mono"
+                    >
+                      {contentSize} bytes
+                    </Badge>
+                    {contentSize > 1000 && (
+                      <span className="text-xs text-destructive">Consider smaller content for efficiency</span>
+                    )}
+                  </div>
+                </div>
+                <Textarea
+                  id={`field-${key}`}
+                  value={values[key] ?? ""}
+                  onChange={(e) => setValue(key, e.target.value)}
+                  placeholder={field.description}
+                  className="min-h-[120px] font-mono text-sm bg-input/50 resize-none"
+                  required
+                />
+              </div>
+            );
+          }
+
+          return (
+            <div key={key} className="space-y-2">
+              {label}
+              {field.enum ? (
+                <Select value={values[key] ?? ""} onValueChange={(value) => setValue(key, value)}>
+                  <SelectTrigger id={`field-${key}`} className="bg-input/50">
+                    <SelectValue placeholder={required ? "Choose..." : "Optional"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {field.enum.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : field.type === 'array' || isLongText(field) ? (
+                <Textarea
+                  id={`field-${key}`}
+                  value={values[key] ?? ""}
+                  onChange={(e) => setValue(key, e.target.value)}
+                  placeholder={field.type === 'array' ? `${field.description ?? field.title}, one per line` : field.description}
+                  className="min-h-[80px] font-mono text-sm bg-input/50 resize-none"
+                />
+              ) : (
+                <Input
+                  id={`field-${key}`}
+                  value={values[key] ?? ""}
+                  onChange={(e) => setValue(key, e.target.value)}
+                  placeholder={field.description}
+                  className="font-mono bg-input/50"
+                />
               )}
             </div>
-          </div>
-          <Textarea
-            id="content"
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            placeholder="Critical context, experience, or memory data..."
-            className="min-h-[120px] font-mono text-sm bg-input/50 resize-none"
-            required
-          />
-        </div>
+          );
+        })}
+
+        {problems.length > 0 && (
+          <ul className="text-xs text-destructive space-y-1">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        )}
 
         <div className="flex items-center justify-between pt-2">
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -183,7 +272,7 @@ export function AddEntryForm({ onAddEntry }: AddEntryFormProps) {
           
           <Button 
             type="submit" 
-            disabled={isSubmitting || !agentId || !content}
+            disabled={isSubmitting || !agentId || !values.content}
             className="bg-primary hover:bg-primary/90 disabled:opacity-50"
           >
             {isSubmitting ? (
@@ -0,0 +1,87 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, RefreshCw, ShieldCheck } from "lucide-react";
+import { IntegrityBadge } from "@/components/ledger/IntegrityBadge";
+import { worstStatus, type ChainReport, type EntryIntegrity, type LedgerVerification } from "@/lib/ledgerVerification";
+
+interface ChainIntegrityReportProps {
+  verification: LedgerVerification | null;
+  verifying: boolean;
+  onVerify: () => void;
+}
+
+const chainStatus = (chain: ChainReport): EntryIntegrity => worstStatus([
+  ...(chain.tampered ? ['tampered' as const] : []),
+  ...(chain.reordered ? ['reordered' as const] : []),
+  ...(chain.missing ? ['missing_link' as const] : []),
+  ...(chain.unchecked ? ['unchecked' as const] : []),
+]);
+
+export function ChainIntegrityReport({ verification, verifying, onVerify }: ChainIntegrityReportProps) {
+  const problems = verification?.chains.reduce((sum, c) => sum + c.tampered + c.reordered + c.missing, 0) ?? 0;
+
+  return (
+    <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-md bg-muted/50 border border-border/50">
+            <ShieldCheck className="h-5 w-5 text-green-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold font-mono">Chain Integrity</h2>
+            <p className="text-sm text-muted-foreground">
+              {verifying
+                ? "Re-hashing entries and walking each agent's chain..."
+                : verification
+                  ? `${problems === 0 ? 'No problems found' : `${problems} ${problems === 1 ? 'entry needs' : 'entries need'} attention`} · checked ${new Date(verification.checkedAt).toLocaleTimeString()}`
+                  : "Not checked yet"}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={onVerify} disabled={verifying}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${verifying ? 'animate-spin' : ''}`} />
+          Verify
+        </Button>
+      </div>
+
+      {verification && !verification.hashingConfirmed && (
+        <p className="flex items-start gap-2 text-xs text-amber-400">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          The database hashes bodies differently from this verifier, so bodies were not re-checked. Chain links were still walked.
+        </p>
+      )}
+
+      {verification && verification.chains.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Agent</TableHead>
+              <TableHead className="text-right">Entries</TableHead>
+              <TableHead className="text-right">Verified</TableHead>
+              <TableHead className="text-right">Tampered</TableHead>
+              <TableHead className="text-right">Out of order</TableHead>
+              <TableHead className="text-right">Missing links</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {verification.chains.map(chain => (
+              <TableRow key={chain.agentId}>
+                <TableCell className="font-mono text-xs">{chain.agentId}</TableCell>
+                <TableCell className="text-right">{chain.entries}</TableCell>
+                <TableCell className="text-right">{chain.verified}</TableCell>
+                <TableCell className="text-right">{chain.tampered}</TableCell>
+                <TableCell className="text-right">{chain.reordered}</TableCell>
+                <TableCell className="text-right">{chain.missing}</TableCell>
+                <TableCell>
+                  <IntegrityBadge status={chainStatus(chain)} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,287 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Layers, Sparkles } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { PROVIDERS, type ProviderId } from "@/lib/providers";
+import {
+  MAX_CONSOLIDATION_CHARS,
+  MAX_CONSOLIDATION_SOURCES,
+  commitConsolidation,
+  consolidationSize,
+  draftConsolidation,
+  entriesInWindow,
+  type ConsolidationDraft,
+  type LinkableEntry,
+} from "@/lib/consolidation";
+
+type SourceMode = "selection" | "window";
+
+interface ConsolidationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entries: LinkableEntry[];
+  // Entries ticked on the Memories page
+  selectedIds: string[];
+  availableAgents: string[];
+  onCommitted: (entryId: string) => void;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export function ConsolidationDialog({
+  open,
+  onOpenChange,
+  entries,
+  selectedIds,
+  availableAgents,
+  onCommitted,
+}: ConsolidationDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [mode, setMode] = useState<SourceMode>(selectedIds.length >= 2 ? "selection" : "window");
+  const [windowAgent, setWindowAgent] = useState(availableAgents[0] ?? "");
+  const [fromDate, setFromDate] = useState(today());
+  const [toDate, setToDate] = useState(today());
+  const [provider, setProvider] = useState<ProviderId>(PROVIDERS[0].id);
+  const [draft, setDraft] = useState<ConsolidationDraft | null>(null);
+  const [content, setContent] = useState("");
+  const [agentId, setAgentId] = useState("");
+  const [drafting, setDrafting] = useState(false);
+  const [committing, setCommitting] = useState(false);
+
+  const sources = useMemo(() => {
+    if (mode === "selection") {
+      const selected = new Set(selectedIds);
+      return entries
+        .filter(entry => selected.has(entry.id))
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    }
+    if (!windowAgent || !fromDate || !toDate) return [];
+    return entriesInWindow(entries, windowAgent, new Date(`${fromDate}T00:00:00`), new Date(`${toDate}T23:59:59.999`));
+  }, [mode, entries, selectedIds, windowAgent, fromDate, toDate]);
+
+  const sourceAgents = useMemo(() => Array.from(new Set(sources.map(entry => entry.agentId))).sort(), [sources]);
+
+  // Changing the sources invalidates a draft made from the old ones
+  const resetDraft = () => {
+    setDraft(null);
+    setContent("");
+  };
+
+  const handleDraft = async () => {
+    setDrafting(true);
+    try {
+      const result = await draftConsolidation(sources.map(entry => entry.id), provider);
+      setDraft(result);
+      setContent(result.draft);
+      setAgentId(sourceAgents.includes(agentId) ? agentId : sourceAgents[0] ?? "");
+    } catch (error) {
+      console.error("Error drafting consolidation:", error);
+      toast({
+        title: "Drafting failed",
+        description: error instanceof Error ? error.message : "Could not draft a summary",
+        variant: "destructive",
+      });
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!draft || !user || !content.trim() || !agentId) return;
+    setCommitting(true);
+    try {
+      const entryId = await commitConsolidation({
+        agentId,
+        content,
+        model: draft.model,
+        sources: draft.sources,
+        actor: user.id,
+      });
+      toast({
+        title: "Consolidation committed",
+        description: `${draft.sources.length} entries consolidated into ${entryId.slice(0, 8)}...`,
+      });
+      resetDraft();
+      onOpenChange(false);
+      onCommitted(entryId);
+    } catch (error) {
+      console.error("Error committing consolidation:", error);
+      toast({
+        title: "Commit failed",
+        description: error instanceof Error ? error.message : "Could not save the consolidation",
+        variant: "destructive",
+      });
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const tooFew = sources.length < 2;
+  const tooMany = sources.length > MAX_CONSOLIDATION_SOURCES;
+  // The model must read every source the consolidation will reference
+  const tooLong = !tooMany && consolidationSize(sources) > MAX_CONSOLIDATION_CHARS;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Consolidate memories
+          </DialogTitle>
+          <DialogDescription>
+            A model drafts one summary of the chosen entries. Edit it, then commit it as a consolidation
+            entry that references each source by hash. The sources stay in the ledger unchanged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs
+          value={mode}
+          onValueChange={(value) => {
+            setMode(value as SourceMode);
+            resetDraft();
+          }}
+        >
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="selection">Selected entries ({selectedIds.length})</TabsTrigger>
+            <TabsTrigger value="window">Time window</TabsTrigger>
+          </TabsList>
+          <TabsContent value="selection">
+            <p className="text-sm text-muted-foreground">
+              {selectedIds.length >= 2
+                ? `${selectedIds.length} entries selected on the page.`
+                : "Tick at least two entries on the page, or use a time window."}
+            </p>
+          </TabsContent>
+          <TabsContent value="window">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Agent</span>
+                <Select
+                  value={windowAgent}
+                  onValueChange={(value) => {
+                    setWindowAgent(value);
+                    resetDraft();
+                  }}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="Choose an agent" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableAgents.map(agent => (
+                      <SelectItem key={agent} value={agent}>{agent}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="consolidate-from" className="text-xs text-muted-foreground">From</label>
+                <Input
+                  id="consolidate-from"
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => {
+                    setFromDate(e.target.value);
+                    resetDraft();
+                  }}
+                  className="w-[160px]"
+                />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="consolidate-to" className="text-xs text-muted-foreground">To</label>
+                <Input
+                  id="consolidate-to"
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => {
+                    setToDate(e.target.value);
+                    resetDraft();
+                  }}
+                  className="w-[160px]"
+                />
+              </div>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex items-end justify-between gap-3">
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">Drafted by</span>
+            <Select value={provider} onValueChange={(value) => setProvider(value as ProviderId)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDERS.map(p => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.icon} {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant={tooMany || tooLong ? "destructive" : "outline"} className="font-mono text-xs">
+              {sources.length} {sources.length === 1 ? "entry" : "entries"}
+            </Badge>
+            <Button onClick={handleDraft} disabled={drafting || tooFew || tooMany || tooLong}>
+              <Sparkles className={`h-4 w-4 mr-2 ${drafting ? "animate-pulse" : ""}`} />
+              {drafting ? "Drafting..." : draft ? "Redraft" : "Draft summary"}
+            </Button>
+          </div>
+        </div>
+        {tooMany && (
+          <p className="text-xs text-destructive">
+            At most {MAX_CONSOLIDATION_SOURCES} entries can be consolidated at once; narrow the window.
+          </p>
+        )}
+        {tooLong && (
+          <p className="text-xs text-destructive">
+            These entries are too long to consolidate at once; choose fewer of them.
+          </p>
+        )}
+
+        {draft && (
+          <div className="space-y-3">
+            <Textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className="min-h-[200px] font-mono text-sm"
+            />
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-muted-foreground">Append to the chain of</span>
+              <Select value={agentId} onValueChange={setAgentId}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sourceAgents.map(agent => (
+                    <SelectItem key={agent} value={agent}>{agent}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground ml-auto">Drafted by {draft.model}</span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCommit} disabled={!draft || committing || !content.trim() || !agentId}>
+            {committing ? "Committing..." : "Commit consolidation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,27 @@
+import { Badge } from "@/components/ui/badge";
+import { ArrowUpDown, ShieldCheck, ShieldQuestion, ShieldX, Unlink } from "lucide-react";
+import { INTEGRITY_LABELS, type EntryIntegrity } from "@/lib/ledgerVerification";
+
+interface IntegrityBadgeProps {
+  status: EntryIntegrity;
+  detail?: string;
+}
+
+const integrityStyles: Record<EntryIntegrity, { icon: typeof ShieldCheck; className: string }> = {
+  verified: { icon: ShieldCheck, className: "text-green-400 border-green-400/40" },
+  tampered: { icon: ShieldX, className: "text-destructive border-destructive/40" },
+  reordered: { icon: ArrowUpDown, className: "text-amber-400 border-amber-400/40" },
+  missing_link: { icon: Unlink, className: "text-amber-400 border-amber-400/40" },
+  unchecked: { icon: ShieldQuestion, className: "text-muted-foreground" },
+};
+
+export function IntegrityBadge({ status, detail }: IntegrityBadgeProps) {
+  const { icon: Icon, className } = integrityStyles[status];
+
+  return (
+    <Badge variant="outline" className={`text-xs ${className}`} title={detail}>
+      <Icon className="h-3 w-3 mr-1" />
+      {INTEGRITY_LABELS[status]}
+    </Badge>
+  );
+}
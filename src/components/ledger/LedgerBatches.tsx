@@ -0,0 +1,92 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Anchor, FileDown, Layers, RefreshCw } from "lucide-react";
+import type { LedgerBatch } from "@/lib/ledgerBatches";
+
+interface LedgerBatchesProps {
+  batches: LedgerBatch[];
+  // Entries not in any batch yet
+  pendingCount: number;
+  batching: boolean;
+  onBatchNow: () => void;
+  onExportBatch: (batch: LedgerBatch) => void;
+}
+
+// Most recent batches shown; older ones are still listed on their entries
+const VISIBLE_BATCHES = 10;
+
+export function LedgerBatches({ batches, pendingCount, batching, onBatchNow, onExportBatch }: LedgerBatchesProps) {
+  return (
+    <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-md bg-muted/50 border border-border/50">
+            <Layers className="h-5 w-5 text-purple-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold font-mono">Merkle Batches</h2>
+            <p className="text-sm text-muted-foreground">
+              {batching
+                ? "Building a tree over unbatched entries and anchoring its root..."
+                : `${batches.length} ${batches.length === 1 ? 'batch' : 'batches'} · ${pendingCount} ${pendingCount === 1 ? 'entry' : 'entries'} waiting`}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={onBatchNow} disabled={batching || pendingCount === 0}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${batching ? 'animate-spin' : ''}`} />
+          Batch now
+        </Button>
+      </div>
+
+      {batches.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Batch</TableHead>
+              <TableHead className="text-right">Entries</TableHead>
+              <TableHead>Merkle root</TableHead>
+              <TableHead>Anchor</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {batches.slice(0, VISIBLE_BATCHES).map(batch => (
+              <TableRow key={batch.id}>
+                <TableCell className="font-mono text-xs">{batch.id.slice(0, 8)}...</TableCell>
+                <TableCell className="text-right">{batch.entry_count}</TableCell>
+                <TableCell className="font-mono text-xs" title={batch.root_hash}>
+                  {batch.root_hash.slice(0, 16)}...
+                </TableCell>
+                <TableCell>
+                  {batch.anchored_at ? (
+                    <Badge variant="outline" className="text-xs text-green-400 border-green-400/40" title={batch.l2_tx ?? undefined}>
+                      <Anchor className="h-3 w-3 mr-1" />
+                      {batch.anchor_backend}
+                      {batch.l2_block_number !== null && ` #${batch.l2_block_number}`}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" className="text-xs text-amber-400 border-amber-400/40">
+                      Pending
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {new Date(batch.created_at).toLocaleString()}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onExportBatch(batch)}>
+                    <FileDown className="h-3 w-3 mr-1" />
+                    Export proof
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+}
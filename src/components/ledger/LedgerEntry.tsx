@@ -3,50 +3,94 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { Clock, Hash, User, Brain, ChevronDown, ChevronRight, Shield, Link as LinkIcon, MessageSquare } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Clock, Hash, ChevronDown, ChevronRight, Shield, Link as LinkIcon, MessageSquare, FileDown, Layers } from "lucide-react";
+import { highlightSearchTerms } from "@/lib/highlightText";
+import { IntegrityBadge } from "@/components/ledger/IntegrityBadge";
+import type { EntryVerification } from "@/lib/ledgerVerification";
+import type { EntryInclusion } from "@/lib/ledgerBatches";
+import { entryTypeConfig, formFields, isLedgerEntryType, type LedgerEntryType } from "@/lib/ledgerTypes";
+import type { EntryRef } from "@/lib/consolidation";
 
 interface LedgerEntryProps {
   id: string;
   timestamp: string;
   hash: string;
   agentId: string;
-  type: "memory" | "context" | "experience" | "consolidation" | "anchor_memory";
+  type: LedgerEntryType;
   content: string;
   size: number;
   prevHash?: string;
   batchId?: string;
+  body?: unknown;
 }
 
-const typeColors: Record<string, string> = {
-  memory: "text-blue-400",
-  context: "text-green-400",
-  experience: "text-amber-400",
-  consolidation: "text-destructive",
-  anchor_memory: "text-purple-400"
-};
-
-const typeIcons: Record<string, any> = {
-  memory: Brain,
-  context: User,
-  experience: Hash,
-  consolidation: Clock,
-  anchor_memory: LinkIcon
-};
-
 interface LedgerEntryComponentProps {
   entry: LedgerEntryProps;
   onPinToChat?: (entry: { id: string; content: string; agentId: string; type: string; timestamp: string }) => void;
+  // Search terms to mark in the content
+  highlightTerms?: string[];
+  // Result of the last chain check, if one has run
+  verification?: EntryVerification;
+  // Merkle proof for batched entries, checked against the batch root
+  inclusion?: EntryInclusion;
+  onExportProof?: () => void;
+  // Shown with a checkbox while picking entries to consolidate
+  selected?: boolean;
+  onToggleSelect?: () => void;
+  // Consolidation entries that include this one, and for a consolidation
+  // the loaded entries it covers
+  consolidatedInto?: EntryRef[];
+  consolidates?: EntryRef[];
+  onOpenEntry?: (id: string) => void;
 }
 
-export function LedgerEntry({ entry, onPinToChat }: LedgerEntryComponentProps) {
+// Shown as links to the entries rather than as raw fields
+const LINK_FIELDS = ['source_hashes', 'source_ids'];
+
+export function LedgerEntry({
+  entry,
+  onPinToChat,
+  highlightTerms,
+  verification,
+  inclusion,
+  onExportProof,
+  selected,
+  onToggleSelect,
+  consolidatedInto,
+  consolidates,
+  onOpenEntry,
+}: LedgerEntryComponentProps) {
   const [showDetails, setShowDetails] = useState(false);
-  const Icon = typeIcons[entry.type] || Brain;
-  const colorClass = typeColors[entry.type] || "text-foreground";
+  const { icon: Icon, color: colorClass } = entryTypeConfig(entry.type);
+  // The type's fields other than content, when the body has them
+  const body = (entry.body ?? {}) as Record<string, unknown>;
+  const extraFields = isLedgerEntryType(entry.type)
+    ? formFields(entry.type).filter(([key]) => key !== 'content' && !LINK_FIELDS.includes(key) && body[key] !== undefined && body[key] !== null)
+    : [];
+  const sourceCount = Array.isArray(body.source_hashes) ? body.source_hashes.length : 0;
+
+  const entryLinks = (refs: EntryRef[]) => refs.map(ref => (
+    <button
+      key={ref.id}
+      type="button"
+      className="font-mono underline underline-offset-2 hover:text-foreground"
+      onClick={() => onOpenEntry?.(ref.id)}
+    >
+      {ref.id.slice(0, 8)}
+    </button>
+  ));
   
   return (
-    <Card className="p-4 bg-card/50 backdrop-blur-sm border-border/50 hover:bg-card/70 transition-all duration-200">
+    <Card
+      id={`ledger-entry-${entry.id}`}
+      className={`p-4 bg-card/50 backdrop-blur-sm border-border/50 hover:bg-card/70 transition-all duration-200 ${selected ? 'border-primary' : ''}`}
+    >
       <div className="flex items-start justify-between mb-3">
         <div className="flex items-center gap-3">
+          {onToggleSelect && (
+            <Checkbox checked={selected} onCheckedChange={onToggleSelect} aria-label="Select for consolidation" />
+          )}
           <div className={`p-2 rounded-md bg-muted/50 border border-border/50`}>
             <Icon className={`h-4 w-4 ${colorClass}`} />
           </div>
@@ -64,10 +108,17 @@ export function LedgerEntry({ entry, onPinToChat }: LedgerEntryComponentProps) {
                   Chained
                 </Badge>
               )}
+              {verification && (
+                <IntegrityBadge status={verification.status} detail={verification.detail} />
+              )}
               {entry.batchId && (
-                <Badge variant="default" className="text-xs">
+                <Badge
+                  variant={inclusion && !inclusion.valid ? "destructive" : "default"}
+                  className="text-xs"
+                  title={inclusion ? (inclusion.valid ? "Inclusion proof checks out" : "Inclusion proof does not match the batch root") : undefined}
+                >
                   <Shield className="h-3 w-3 mr-1" />
-                  Batched
+                  {inclusion?.batch.anchored_at ? "Anchored" : "Batched"}
                 </Badge>
               )}
             </div>
@@ -95,10 +146,39 @@ export function LedgerEntry({ entry, onPinToChat }: LedgerEntryComponentProps) {
       
       <div className="text-sm text-foreground/90 bg-muted/30 p-3 rounded border border-border/30 mb-3">
         <pre className="whitespace-pre-wrap font-mono text-xs leading-relaxed">
-          {entry.content}
+          {highlightTerms?.length ? highlightSearchTerms(entry.content, highlightTerms) : entry.content}
         </pre>
       </div>
 
+      {(consolidatedInto?.length || sourceCount > 0) && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground mb-3">
+          <Layers className="h-3 w-3" />
+          {consolidatedInto?.length ? (
+            <span className="flex flex-wrap gap-1">Consolidated into {entryLinks(consolidatedInto)}</span>
+          ) : null}
+          {sourceCount > 0 && (
+            <span className="flex flex-wrap gap-1">
+              Consolidates {sourceCount} {sourceCount === 1 ? 'entry' : 'entries'}
+              {consolidates?.length ? <>: {entryLinks(consolidates)}</> : null}
+              {consolidates && consolidates.length < sourceCount && ` (${sourceCount - consolidates.length} not loaded)`}
+            </span>
+          )}
+        </div>
+      )}
+
+      {extraFields.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs mb-3">
+          {extraFields.map(([key, field]) => (
+            <div key={key} className="contents">
+              <dt className="text-muted-foreground">{field.title}</dt>
+              <dd className="font-mono break-all">
+                {Array.isArray(body[key]) ? (body[key] as unknown[]).join(', ') : String(body[key])}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
       <div className="flex gap-2">
         {onPinToChat && (
           <Button
@@ -118,6 +198,18 @@ export function LedgerEntry({ entry, onPinToChat }: LedgerEntryComponentProps) {
           </Button>
         )}
 
+        {inclusion && onExportProof && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-xs h-8 gap-2"
+            onClick={onExportProof}
+          >
+            <FileDown className="h-3 w-3" />
+            Export Proof
+          </Button>
+        )}
+
         <Collapsible open={showDetails} onOpenChange={setShowDetails} className="flex-1">
         <CollapsibleTrigger asChild>
           <Button
@@ -146,6 +238,13 @@ export function LedgerEntry({ entry, onPinToChat }: LedgerEntryComponentProps) {
               </code>
             </div>
             
+            {verification && (
+              <div className="text-xs space-y-1">
+                <div className="font-medium text-muted-foreground">Integrity Check:</div>
+                <p className="bg-muted/50 p-2 rounded">{verification.detail}</p>
+              </div>
+            )}
+
             {entry.prevHash && (
               <div className="text-xs space-y-1">
                 <div className="font-medium text-muted-foreground">Previous Hash (Chain Link):</div>
@@ -163,6 +262,41 @@ export function LedgerEntry({ entry, onPinToChat }: LedgerEntryComponentProps) {
                 </code>
               </div>
             )}
+
+            {inclusion && (
+              <>
+                <div className="text-xs space-y-1">
+                  <div className="font-medium text-muted-foreground">Merkle Root:</div>
+                  <code className="block font-mono text-xs bg-muted/50 p-2 rounded break-all">
+                    {inclusion.batch.root_hash}
+                  </code>
+                </div>
+
+                <div className="text-xs space-y-1">
+                  <div className="font-medium text-muted-foreground">
+                    Inclusion Proof (leaf {inclusion.proof.leaf_index + 1} of {inclusion.batch.entry_count}, {inclusion.proof.path.length} steps):
+                  </div>
+                  <p className={`bg-muted/50 p-2 rounded ${inclusion.valid ? 'text-green-400' : 'text-destructive'}`}>
+                    {inclusion.valid
+                      ? "The proof leads from this entry's hash to the batch root."
+                      : "The proof does not lead to the batch root; the entry or the batch changed after batching."}
+                  </p>
+                </div>
+
+                <div className="text-xs space-y-1">
+                  <div className="font-medium text-muted-foreground">Anchor:</div>
+                  {inclusion.batch.anchored_at ? (
+                    <code className="block font-mono text-xs bg-muted/50 p-2 rounded break-all">
+                      {inclusion.batch.anchor_backend}
+                      {inclusion.batch.l2_block_number !== null && ` · block ${inclusion.batch.l2_block_number}`}
+                      {inclusion.batch.l2_tx && ` · ${inclusion.batch.l2_tx}`}
+                    </code>
+                  ) : (
+                    <p className="bg-muted/50 p-2 rounded">Not anchored yet; the next batching run retries it.</p>
+                  )}
+                </div>
+              </>
+            )}
           </div>
         </CollapsibleContent>
         </Collapsible>
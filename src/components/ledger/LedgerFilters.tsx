@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Search, Filter, X } from "lucide-react";
+import { ENTRY_TYPE_LIST } from "@/lib/ledgerTypes";
 
 interface LedgerFiltersProps {
   searchTerm: string;
@@ -55,11 +56,11 @@ export function LedgerFilters({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Types</SelectItem>
-              <SelectItem value="memory">Memory</SelectItem>
-              <SelectItem value="context">Context</SelectItem>
-              <SelectItem value="experience">Experience</SelectItem>
-              <SelectItem value="consolidation">Consolidation</SelectItem>
-              <SelectItem value="anchor_memory">Anchor Memory</SelectItem>
+              {ENTRY_TYPE_LIST.map(entryType => (
+                <SelectItem key={entryType.id} value={entryType.id}>
+                  {entryType.label}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
 
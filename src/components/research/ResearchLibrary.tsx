@@ -1,6 +1,9 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useServerSearch } from "@/hooks/useServerSearch";
+import { highlightSearchTerms } from "@/lib/highlightText";
+import type { SearchSource } from "@/lib/search";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -27,6 +30,8 @@ interface ResearchEntry {
   created_at: string;
 }
 
+const RESEARCH_SOURCES: SearchSource[] = ["research_library"];
+
 interface DuplicateDecision {
   action: "skip" | "overwrite" | "rename";
   applyToAll: boolean;
@@ -40,6 +45,7 @@ export function ResearchLibrary() {
   const [searchTerm, setSearchTerm] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [loading, setLoading] = useState(true);
+  const search = useServerSearch(searchTerm, RESEARCH_SOURCES);
 
   // Dialog states
   const [importDialogOpen, setImportDialogOpen] = useState(false);
@@ -71,7 +77,7 @@ export function ResearchLibrary() {
 
   useEffect(() => {
     filterLibrary();
-  }, [researchLibrary, searchTerm, categoryFilter]);
+  }, [researchLibrary, search.active, search.hits, categoryFilter]);
 
   const loadResearchLibrary = async () => {
     if (!user) return;
@@ -102,17 +108,16 @@ export function ResearchLibrary() {
   const filterLibrary = () => {
     let filtered = researchLibrary;
 
-    if (categoryFilter !== "all") {
-      filtered = filtered.filter((entry) => entry.category === categoryFilter);
+    // Search results, in rank order
+    if (search.active) {
+      const byId = new Map(researchLibrary.map((entry) => [entry.id, entry]));
+      filtered = search.hits
+        .map((hit) => byId.get(hit.sourceId))
+        .filter(Boolean) as ResearchEntry[];
     }
 
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(
-        (entry) =>
-          entry.title.toLowerCase().includes(term) ||
-          entry.content.toLowerCase().includes(term)
-      );
+    if (categoryFilter !== "all") {
+      filtered = filtered.filter((entry) => entry.category === categoryFilter);
     }
 
     setFilteredLibrary(filtered);
@@ -545,7 +550,12 @@ export function ResearchLibrary() {
               </CardHeader>
               <CardContent>
                 <CardDescription className="line-clamp-2 mb-3">
-                  {entry.content.substring(0, 150)}...
+                  {search.active
+                    ? highlightSearchTerms(
+                        search.hits.find((hit) => hit.sourceId === entry.id)?.snippet ?? entry.content.substring(0, 150),
+                        search.terms
+                      )
+                    : `${entry.content.substring(0, 150)}...`}
                 </CardDescription>
                 <div className="flex gap-2">
                   <Button variant="ghost" size="sm" onClick={() => handleCopy(entry.content)}>
@@ -578,9 +588,23 @@ export function ResearchLibrary() {
             </Card>
           ))}
 
+          {search.active && search.hasMore && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={search.loadMore}
+              disabled={search.loading}
+            >
+              {search.loading ? "Searching..." : "Load more results"}
+            </Button>
+          )}
+
           {filteredLibrary.length === 0 && (
             <div className="text-center py-8 text-muted-foreground">
-              {searchTerm || categoryFilter !== "all"
+              {search.loading
+                ? "Searching..."
+                : searchTerm || categoryFilter !== "all"
                 ? "No entries found matching your filters"
                 : "No research entries yet. Import Markdown files or add entries manually."}
             </div>
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "./useAuth";
+import { searchDocuments, searchTerms, type SearchHit, type SearchSource } from "@/lib/search";
+
+const DEBOUNCE_MS = 300;
+
+/**
+ * Debounced, paginated server-side search. Inactive (no request, no hits)
+ * while the query is blank, so callers can fall back to their full list.
+ */
+export const useServerSearch = (query: string, sources: SearchSource[], pageSize = 20) => {
+  const { user } = useAuth();
+  const [activeQuery, setActiveQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const sourcesKey = sources.join(',');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setActiveQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const fetchPage = useCallback((pageIndex: number) => searchDocuments({
+    query: activeQuery,
+    sources: sourcesKey.split(',') as SearchSource[],
+    page: pageIndex,
+    pageSize,
+  }), [activeQuery, sourcesKey, pageSize]);
+
+  useEffect(() => {
+    setHits([]);
+    setTotal(0);
+    setPage(0);
+    if (!user || !activeQuery) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetchPage(0)
+      .then(data => {
+        if (cancelled) return;
+        setHits(data.hits);
+        setTotal(data.total);
+      })
+      .catch(error => {
+        if (!cancelled) console.error('Error searching:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, activeQuery, fetchPage]);
+
+  const loadMore = async () => {
+    if (loading) return;
+    setLoading(true);
+    try {
+      const data = await fetchPage(page + 1);
+      setHits(prev => [...prev, ...data.hits]);
+      setTotal(data.total);
+      setPage(page + 1);
+    } catch (error) {
+      console.error('Error loading more results:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    active: !!activeQuery,
+    activeQuery,
+    terms: searchTerms(activeQuery),
+    hits,
+    total,
+    loading,
+    hasMore: hits.length < total,
+    loadMore,
+  };
+};
@@ -1,91 +1,96 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
 import { useSubscription } from "./useSubscription";
 import { useRole } from "./useRole";
 
-const DAILY_MESSAGE_LIMIT = 20;
+// Mirrors QuotaStatus in supabase/functions/_shared/quota.ts. The policy
+// itself lives server side; check-usage reports it along with today's usage.
+export interface QuotaStatus {
+  tier: 'free' | 'premium';
+  policy: {
+    dailyMessages: number | null;
+    dailyTokens: number | null;
+    providerDailyTokens: Record<string, number>;
+  };
+  usage: {
+    messages: number;
+    tokens: number;
+    providerTokens: Record<string, number>;
+  };
+  remaining: {
+    messages: number | null;
+    tokens: number | null;
+    providerTokens: Record<string, number>;
+  };
+  canSendMessage: boolean;
+}
 
 export const useUsageLimit = () => {
   const { user } = useAuth();
   const { subscribed } = useSubscription();
   const { isAdmin } = useRole();
-  const [dailyUsage, setDailyUsage] = useState(0);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const checkDailyUsage = async () => {
-    if (subscribed || isAdmin) {
-      setDailyUsage(0);
-      setLoading(false);
-      return;
-    }
+  const unlimited = subscribed || isAdmin;
 
+  const checkDailyUsage = useCallback(async () => {
     // Only check usage for authenticated users
     if (!user?.id) {
-      setDailyUsage(0);
+      setQuota(null);
       setLoading(false);
       return;
     }
 
     try {
-      const { data, error } = await supabase.rpc('get_daily_usage', {
-        p_user_id: user.id
-      });
+      const { data, error } = await supabase.functions.invoke('check-usage');
 
       if (error) throw error;
-      setDailyUsage(data || 0);
+      setQuota(data as QuotaStatus);
     } catch (error) {
       console.error('Error checking daily usage:', error);
-      setDailyUsage(0);
+      setQuota(null);
     } finally {
       setLoading(false);
     }
-  };
-
-  const incrementUsage = async (): Promise<boolean> => {
-    if (subscribed || isAdmin) return true;
-
-    // Only allow usage tracking for authenticated users
-    if (!user?.id) return false;
+  }, [user?.id]);
 
-    try {
-      const { data, error } = await supabase.rpc('increment_daily_usage', {
-        p_user_id: user.id
-      });
+  const canSendMessage = () => {
+    if (unlimited || !quota) return true;
+    return quota.canSendMessage;
+  };
 
-      if (error) throw error;
-      
-      const newCount = data || 0;
-      setDailyUsage(newCount);
-      
-      return newCount <= DAILY_MESSAGE_LIMIT;
-    } catch (error) {
-      console.error('Error incrementing usage:', error);
-      return false;
-    }
+  const remainingMessages = () => {
+    if (unlimited || quota?.remaining.messages == null) return Infinity;
+    return quota.remaining.messages;
   };
 
-  const canSendMessage = () => {
-    if (subscribed || isAdmin) return true;
-    return dailyUsage < DAILY_MESSAGE_LIMIT;
+  const remainingTokens = () => {
+    if (unlimited || quota?.remaining.tokens == null) return Infinity;
+    return quota.remaining.tokens;
   };
 
-  const remainingMessages = () => {
-    if (subscribed || isAdmin) return Infinity;
-    return Math.max(0, DAILY_MESSAGE_LIMIT - dailyUsage);
+  // Whether a provider's own cap is used up, even if the overall budget is not
+  const isProviderExhausted = (provider: string) => {
+    if (unlimited || !quota) return false;
+    return quota.remaining.providerTokens[provider] === 0;
   };
 
   useEffect(() => {
     checkDailyUsage();
-  }, [user, subscribed, isAdmin]);
+  }, [checkDailyUsage, subscribed, isAdmin]);
 
   return {
-    dailyUsage,
+    quota,
+    dailyUsage: quota?.usage.messages ?? 0,
     loading,
     canSendMessage: canSendMessage(),
     remainingMessages: remainingMessages(),
-    incrementUsage,
+    remainingTokens: remainingTokens(),
+    isProviderExhausted,
     checkDailyUsage,
-    DAILY_MESSAGE_LIMIT
+    messageLimit: quota?.policy.dailyMessages ?? null,
+    tokenLimit: quota?.policy.dailyTokens ?? null,
   };
-};
\ No newline at end of file
+};
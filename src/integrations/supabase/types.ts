@@ -14,41 +14,88 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_providers: {
+        Row: {
+          created_at: string
+          display_name: string
+          enabled: boolean
+          endpoint: string
+          id: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          display_name: string
+          enabled?: boolean
+          endpoint: string
+          id: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          display_name?: string
+          enabled?: boolean
+          endpoint?: string
+          id?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
       chat_files: {
         Row: {
           content_preview: string | null
           created_at: string
+          extracted_at: string | null
+          extracted_text: string | null
+          extraction_error: string | null
+          extraction_status: string
           file_path: string
           file_size: number
           file_type: string
           filename: string
           id: string
+          page_count: number | null
           session_id: string
+          structure: Json | null
         }
         Insert: {
           content_preview?: string | null
           created_at?: string
+          extracted_at?: string | null
+          extracted_text?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
           file_path: string
           file_size: number
           file_type: string
           filename: string
           id?: string
+          page_count?: number | null
           session_id: string
+          structure?: Json | null
         }
         Update: {
           content_preview?: string | null
           created_at?: string
+          extracted_at?: string | null
+          extracted_text?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
           file_path?: string
           file_size?: number
           file_type?: string
           filename?: string
           id?: string
+          page_count?: number | null
           session_id?: string
+          structure?: Json | null
         }
         Relationships: []
       }
       chat_sessions: {
         Row: {
+          active_branches: Json
+          context_summaries: Json
           created_at: string
           id: string
           title: string
@@ -56,6 +103,8 @@ export type Database = {
           user_id: string | null
         }
         Insert: {
+          active_branches?: Json
+          context_summaries?: Json
           created_at?: string
           id?: string
           title?: string
@@ -63,6 +112,8 @@ export type Database = {
           user_id?: string | null
         }
         Update: {
+          active_branches?: Json
+          context_summaries?: Json
           created_at?: string
           id?: string
           title?: string
@@ -71,6 +122,30 @@ export type Database = {
         }
         Relationships: []
       }
+      daily_sends: {
+        Row: {
+          created_at: string
+          date: string
+          request_count: number
+          send_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date?: string
+          request_count?: number
+          send_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          request_count?: number
+          send_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       daily_usage: {
         Row: {
           created_at: string
@@ -98,6 +173,218 @@ export type Database = {
         }
         Relationships: []
       }
+      document_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          embedding: string | null
+          fts: unknown
+          id: string
+          source_id: string
+          source_type: string
+          title: string
+          token_count: number
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          embedding?: string | null
+          fts?: unknown
+          id?: string
+          source_id: string
+          source_type: string
+          title?: string
+          token_count: number
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          embedding?: string | null
+          fts?: unknown
+          id?: string
+          source_id?: string
+          source_type?: string
+          title?: string
+          token_count?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      eval_prompts: {
+        Row: {
+          created_at: string
+          id: string
+          judge_cost_usd: number | null
+          judge_model: string | null
+          position: number
+          prompt: string
+          run_id: string
+          user_id: string
+          verdict: Json | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          judge_cost_usd?: number | null
+          judge_model?: string | null
+          position: number
+          prompt: string
+          run_id: string
+          user_id: string
+          verdict?: Json | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          judge_cost_usd?: number | null
+          judge_model?: string | null
+          position?: number
+          prompt?: string
+          run_id?: string
+          user_id?: string
+          verdict?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "eval_prompts_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "eval_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      eval_results: {
+        Row: {
+          cost_usd: number | null
+          created_at: string
+          error: string | null
+          first_token_ms: number | null
+          id: string
+          input_tokens: number | null
+          latency_ms: number | null
+          model_id: string | null
+          output_tokens: number | null
+          prompt_id: string
+          provider: string
+          response: string | null
+          run_id: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cost_usd?: number | null
+          created_at?: string
+          error?: string | null
+          first_token_ms?: number | null
+          id?: string
+          input_tokens?: number | null
+          latency_ms?: number | null
+          model_id?: string | null
+          output_tokens?: number | null
+          prompt_id: string
+          provider: string
+          response?: string | null
+          run_id: string
+          status: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cost_usd?: number | null
+          created_at?: string
+          error?: string | null
+          first_token_ms?: number | null
+          id?: string
+          input_tokens?: number | null
+          latency_ms?: number | null
+          model_id?: string | null
+          output_tokens?: number | null
+          prompt_id?: string
+          provider?: string
+          response?: string | null
+          run_id?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "eval_results_prompt_id_fkey"
+            columns: ["prompt_id"]
+            isOneToOne: false
+            referencedRelation: "eval_prompts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "eval_results_provider_fkey"
+            columns: ["provider"]
+            isOneToOne: false
+            referencedRelation: "ai_providers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "eval_results_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "eval_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      eval_runs: {
+        Row: {
+          created_at: string
+          id: string
+          judge_provider: string | null
+          prompt_count: number
+          providers: string[]
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+          web_search_enabled: boolean
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          judge_provider?: string | null
+          prompt_count?: number
+          providers?: string[]
+          status?: string
+          title: string
+          updated_at?: string
+          user_id: string
+          web_search_enabled?: boolean
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          judge_provider?: string | null
+          prompt_count?: number
+          providers?: string[]
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+          web_search_enabled?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "eval_runs_judge_provider_fkey"
+            columns: ["judge_provider"]
+            isOneToOne: false
+            referencedRelation: "ai_providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       knowledge_base: {
         Row: {
           content: string
@@ -127,6 +414,8 @@ export type Database = {
       }
       ledger_batches: {
         Row: {
+          anchor_backend: string | null
+          anchored_at: string | null
           created_at: string
           entry_count: number
           from_id: string | null
@@ -138,6 +427,8 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          anchor_backend?: string | null
+          anchored_at?: string | null
           created_at?: string
           entry_count?: number
           from_id?: string | null
@@ -149,6 +440,8 @@ export type Database = {
           user_id: string
         }
         Update: {
+          anchor_backend?: string | null
+          anchored_at?: string | null
           created_at?: string
           entry_count?: number
           from_id?: string | null
@@ -206,35 +499,189 @@ export type Database = {
         }
         Relationships: []
       }
+      ledger_proofs: {
+        Row: {
+          batch_id: string
+          created_at: string
+          entry_id: string
+          leaf_hash: string
+          leaf_index: number
+          path: Json
+          user_id: string
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          entry_id: string
+          leaf_hash: string
+          leaf_index: number
+          path?: Json
+          user_id: string
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          entry_id?: string
+          leaf_hash?: string
+          leaf_index?: number
+          path?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_proofs_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_proofs_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: true
+            referencedRelation: "ledger_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_votes: {
+        Row: {
+          created_at: string
+          id: string
+          is_best: boolean
+          message_id: string
+          prompt_message_id: string | null
+          session_id: string
+          updated_at: string
+          user_id: string
+          vote: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_best?: boolean
+          message_id: string
+          prompt_message_id?: string | null
+          session_id: string
+          updated_at?: string
+          user_id: string
+          vote?: number | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_best?: boolean
+          message_id?: string
+          prompt_message_id?: string | null
+          session_id?: string
+          updated_at?: string
+          user_id?: string
+          vote?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_votes_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_votes_prompt_message_id_fkey"
+            columns: ["prompt_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_votes_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           ai_model: string | null
+          attachments: Json | null
+          branch_of: string | null
           content: string
+          context_chunks: Json | null
+          cost_usd: number | null
           created_at: string
+          error: Json | null
           id: string
+          input_tokens: number | null
+          model_id: string | null
+          output_tokens: number | null
+          parent_message_id: string | null
           role: string
           session_id: string
           target_ai: string | null
+          web_search_enabled: boolean | null
         }
         Insert: {
           ai_model?: string | null
+          attachments?: Json | null
+          branch_of?: string | null
           content: string
+          context_chunks?: Json | null
+          cost_usd?: number | null
           created_at?: string
+          error?: Json | null
           id?: string
+          input_tokens?: number | null
+          model_id?: string | null
+          output_tokens?: number | null
+          parent_message_id?: string | null
           role: string
           session_id: string
           target_ai?: string | null
+          web_search_enabled?: boolean | null
         }
         Update: {
           ai_model?: string | null
+          attachments?: Json | null
+          branch_of?: string | null
           content?: string
+          context_chunks?: Json | null
+          cost_usd?: number | null
           created_at?: string
+          error?: Json | null
           id?: string
+          input_tokens?: number | null
+          model_id?: string | null
+          output_tokens?: number | null
+          parent_message_id?: string | null
           role?: string
           session_id?: string
           target_ai?: string | null
+          web_search_enabled?: boolean | null
         }
         Relationships: [
+          {
+            foreignKeyName: "messages_ai_model_fkey"
+            columns: ["ai_model"]
+            isOneToOne: false
+            referencedRelation: "ai_providers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_branch_of_fkey"
+            columns: ["branch_of"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_parent_message_id_fkey"
+            columns: ["parent_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_session_id_fkey"
             columns: ["session_id"]
@@ -244,6 +691,98 @@ export type Database = {
           },
         ]
       }
+      prompt_templates: {
+        Row: {
+          body: string
+          category: string | null
+          created_at: string
+          default_target: string | null
+          id: string
+          knowledge_ids: string[]
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          category?: string | null
+          created_at?: string
+          default_target?: string | null
+          id?: string
+          knowledge_ids?: string[]
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          category?: string | null
+          created_at?: string
+          default_target?: string | null
+          id?: string
+          knowledge_ids?: string[]
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      provider_requests: {
+        Row: {
+          created_at: string
+          error_class: string | null
+          http_status: number | null
+          id: string
+          input_tokens: number | null
+          latency_ms: number
+          model_id: string | null
+          output_tokens: number | null
+          provider: string
+          status: string
+          ttft_ms: number | null
+          user_id: string | null
+          web_search_used: boolean
+        }
+        Insert: {
+          created_at?: string
+          error_class?: string | null
+          http_status?: number | null
+          id?: string
+          input_tokens?: number | null
+          latency_ms: number
+          model_id?: string | null
+          output_tokens?: number | null
+          provider: string
+          status: string
+          ttft_ms?: number | null
+          user_id?: string | null
+          web_search_used?: boolean
+        }
+        Update: {
+          created_at?: string
+          error_class?: string | null
+          http_status?: number | null
+          id?: string
+          input_tokens?: number | null
+          latency_ms?: number
+          model_id?: string | null
+          output_tokens?: number | null
+          provider?: string
+          status?: string
+          ttft_ms?: number | null
+          user_id?: string | null
+          web_search_used?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_requests_provider_fkey"
+            columns: ["provider"]
+            isOneToOne: false
+            referencedRelation: "ai_providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       research_library: {
         Row: {
           category: string
@@ -280,6 +819,177 @@ export type Database = {
         }
         Relationships: []
       }
+      round_verdicts: {
+        Row: {
+          cost_usd: number | null
+          created_at: string
+          id: string
+          input_tokens: number | null
+          judge_model: string
+          judge_provider: string
+          output_tokens: number | null
+          prompt_message_id: string
+          session_id: string
+          user_id: string
+          verdict: Json
+        }
+        Insert: {
+          cost_usd?: number | null
+          created_at?: string
+          id?: string
+          input_tokens?: number | null
+          judge_model: string
+          judge_provider: string
+          output_tokens?: number | null
+          prompt_message_id: string
+          session_id: string
+          user_id: string
+          verdict: Json
+        }
+        Update: {
+          cost_usd?: number | null
+          created_at?: string
+          id?: string
+          input_tokens?: number | null
+          judge_model?: string
+          judge_provider?: string
+          output_tokens?: number | null
+          prompt_message_id?: string
+          session_id?: string
+          user_id?: string
+          verdict?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "round_verdicts_judge_provider_fkey"
+            columns: ["judge_provider"]
+            isOneToOne: false
+            referencedRelation: "ai_providers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "round_verdicts_prompt_message_id_fkey"
+            columns: ["prompt_message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "round_verdicts_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      search_documents: {
+        Row: {
+          content: string
+          created_at: string
+          embedding: string | null
+          fts: unknown
+          id: string
+          session_id: string | null
+          source_id: string
+          source_type: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          embedding?: string | null
+          fts?: unknown
+          id?: string
+          session_id?: string | null
+          source_id: string
+          source_type: string
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          embedding?: string | null
+          fts?: unknown
+          id?: string
+          session_id?: string | null
+          source_id?: string
+          source_type?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "search_documents_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_settings: {
+        Row: {
+          created_at: string
+          failover: boolean
+          id: string
+          max_tokens: number | null
+          model_id: string | null
+          provider: string
+          session_id: string
+          system_prompt: string | null
+          temperature: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          failover?: boolean
+          id?: string
+          max_tokens?: number | null
+          model_id?: string | null
+          provider: string
+          session_id: string
+          system_prompt?: string | null
+          temperature?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          failover?: boolean
+          id?: string
+          max_tokens?: number | null
+          model_id?: string | null
+          provider?: string
+          session_id?: string
+          system_prompt?: string | null
+          temperature?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_settings_provider_fkey"
+            columns: ["provider"]
+            isOneToOne: false
+            referencedRelation: "ai_providers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_settings_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subscribers: {
         Row: {
           created_at: string
@@ -316,6 +1026,56 @@ export type Database = {
         }
         Relationships: []
       }
+      token_usage_daily: {
+        Row: {
+          cost_usd: number
+          created_at: string
+          date: string
+          id: string
+          input_tokens: number
+          model_id: string
+          output_tokens: number
+          provider: string
+          request_count: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cost_usd?: number
+          created_at?: string
+          date?: string
+          id?: string
+          input_tokens?: number
+          model_id: string
+          output_tokens?: number
+          provider: string
+          request_count?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cost_usd?: number
+          created_at?: string
+          date?: string
+          id?: string
+          input_tokens?: number
+          model_id?: string
+          output_tokens?: number
+          provider?: string
+          request_count?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "token_usage_daily_provider_fkey"
+            columns: ["provider"]
+            isOneToOne: false
+            referencedRelation: "ai_providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -358,13 +1118,60 @@ export type Database = {
         }
         Relationships: []
       }
+      token_usage_monthly: {
+        Row: {
+          cost_usd: number | null
+          input_tokens: number | null
+          model_id: string | null
+          month: string | null
+          output_tokens: number | null
+          provider: string | null
+          request_count: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      commit_ledger_batch: {
+        Args: {
+          p_entry_ids: string[]
+          p_proofs: Json
+          p_root_hash: string
+          p_user_id: string
+        }
+        Returns: string
+      }
       compute_canonical_hash: { Args: { data: Json }; Returns: string }
+      consume_message_quota: {
+        Args: {
+          p_limit: number
+          p_max_requests: number
+          p_send_id: string
+          p_user_id: string
+        }
+        Returns: {
+          allowed: boolean
+          message_count: number
+          reason: string
+        }[]
+      }
       create_ledger_batch: { Args: { p_entry_ids: string[] }; Returns: string }
       get_daily_usage:
         | { Args: { p_user_id: string }; Returns: number }
         | { Args: { p_email?: string; p_user_id?: string }; Returns: number }
+      get_leaderboard_votes: {
+        Args: { p_from?: string; p_to?: string; p_web_search?: boolean }
+        Returns: {
+          ai_model: string
+          is_best: boolean
+          round_id: string
+          vote: number
+          voted_at: string
+          voter_id: string
+          web_search_enabled: boolean
+        }[]
+      }
       get_prev_hash: { Args: { p_agent_id: string }; Returns: string }
       has_role: {
         Args: {
@@ -376,6 +1183,79 @@ export type Database = {
       increment_daily_usage:
         | { Args: { p_user_id: string }; Returns: number }
         | { Args: { p_email?: string; p_user_id?: string }; Returns: number }
+      ledger_search_text: { Args: { p_body: Json }; Returns: string }
+      match_document_chunks: {
+        Args: {
+          p_file_ids?: string[]
+          p_include_research?: boolean
+          p_knowledge_ids?: string[]
+          p_limit?: number
+          p_query: string
+          p_query_embedding?: string
+          p_user_id: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          id: string
+          score: number
+          source_id: string
+          source_type: string
+          title: string
+          token_count: number
+        }[]
+      }
+      record_token_usage: {
+        Args: {
+          p_cost_usd: number
+          p_input_tokens: number
+          p_model_id: string
+          p_output_tokens: number
+          p_provider: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      search_documents_hybrid: {
+        Args: {
+          p_limit?: number
+          p_min_similarity?: number
+          p_offset?: number
+          p_query: string
+          p_query_embedding?: string
+          p_session_id?: string
+          p_sources?: string[]
+          p_user_id: string
+        }
+        Returns: {
+          created_at: string
+          similarity: number
+          score: number
+          session_id: string
+          snippet: string
+          source_id: string
+          source_type: string
+          text_rank: number
+          title: string
+          total_count: number
+        }[]
+      }
+      set_context_summary: {
+        Args: { p_provider: string; p_session_id: string; p_summary: Json }
+        Returns: Json
+      }
+      upsert_search_document: {
+        Args: {
+          p_content: string
+          p_created_at: string
+          p_session_id: string
+          p_source_id: string
+          p_source_type: string
+          p_title: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
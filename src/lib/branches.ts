@@ -0,0 +1,80 @@
+// Conversation branching
+//
+// A session is a tree of messages:
+// - a user message's parent_message_id is the prompt before it (null for the
+//   first prompt), so prompts form the spine of the conversation
+// - an assistant reply's parent_message_id is the prompt it answers
+// - regenerating a reply or editing a prompt creates a new version with
+//   branch_of pointing at the original; the original and its versions are
+//   siblings, and exactly one of them is active
+// The active path is what the chat shows and what each provider receives as
+// history.
+
+export interface BranchNode {
+  id: string;
+  role: 'user' | 'assistant';
+  parent_message_id?: string | null;
+  branch_of?: string | null;
+  created_at: string;
+}
+
+// Sibling-set key -> id of the version the user picked. Sets without an
+// entry show their newest version.
+export type ActiveBranches = Record<string, string>;
+
+export const branchRoot = (message: BranchNode) => message.branch_of ?? message.id;
+
+/**
+ * Groups messages into sibling sets, each ordered oldest first
+ */
+export function groupBranches<T extends BranchNode>(messages: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const message of messages) {
+    const root = branchRoot(message);
+    groups.set(root, [...(groups.get(root) ?? []), message]);
+  }
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+  return groups;
+}
+
+export function activeVersion<T extends BranchNode>(group: T[], root: string, activeBranches: ActiveBranches): T {
+  const selected = activeBranches[root];
+  return group.find(m => m.id === selected) ?? group[group.length - 1];
+}
+
+/**
+ * Messages on the active path, in chronological order
+ * @param messages - All messages of the session, oldest first
+ */
+export function getActivePath<T extends BranchNode>(messages: T[], activeBranches: ActiveBranches): T[] {
+  const groups = groupBranches(messages);
+  const visible = new Set<string>();
+  const path: T[] = [];
+  // Replies saved without a parent (forwards, debate summaries) follow the
+  // prompt they were created after
+  let lastPromptVisible = true;
+
+  for (const message of messages) {
+    const root = branchRoot(message);
+    const isActive = activeVersion(groups.get(root) ?? [message], root, activeBranches).id === message.id;
+
+    let onPath = false;
+    if (isActive) {
+      if (message.parent_message_id) {
+        onPath = visible.has(message.parent_message_id);
+      } else {
+        onPath = message.role === 'user' || lastPromptVisible;
+      }
+    }
+
+    if (message.role === 'user') lastPromptVisible = onPath;
+    if (onPath) {
+      visible.add(message.id);
+      path.push(message);
+    }
+  }
+
+  return path;
+}
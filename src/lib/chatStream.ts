@@ -0,0 +1,232 @@
+// Client side of the normalized chat stream emitted by every chat-* edge
+// function (see supabase/functions/_shared/sse.ts for the server side).
+
+import { supabase } from '@/integrations/supabase/client';
+import { FUNCTIONS_BASE_URL, getProvider, type ProviderId } from './providers';
+import type { ContextChunkRef, ContextScope } from './retrieval';
+
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'tool_status'; tool: string; status: 'started' | 'completed'; query?: string; resultCount?: number }
+  | { type: 'usage'; model: string; inputTokens: number; outputTokens: number; costUsd: number }
+  | { type: 'context'; chunks: ContextChunkRef[] }
+  | { type: 'failover'; from: string; to: string }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+export type ToolStatusEvent = Extract<ChatStreamEvent, { type: 'tool_status' }>;
+export type FailoverEvent = Extract<ChatStreamEvent, { type: 'failover' }>;
+
+export interface ChatStreamUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface ChatStreamHandlers {
+  onDelta?: (text: string, fullText: string) => void;
+  onToolStatus?: (event: ToolStatusEvent) => void;
+  onUsage?: (usage: ChatStreamUsage) => void;
+  onContext?: (chunks: ContextChunkRef[]) => void;
+  onFailover?: (event: FailoverEvent) => void;
+}
+
+export interface ChatStreamResult {
+  text: string;
+  usage: ChatStreamUsage | null;
+  // Document chunks the server injected into the prompt
+  contextChunks: ContextChunkRef[];
+}
+
+// Request body accepted by every chat-* function (see _shared/chat.ts)
+export interface ChatRequest {
+  message: string;
+  conversation_history: { role: string; content: string }[];
+  sessionId?: string | null;
+  // Requests sharing a sendId count as one message against the quota
+  sendId: string;
+  webSearchEnabled: boolean;
+  contextScope?: ContextScope;
+  pinnedContext?: string;
+  imageFileIds?: string[];
+}
+
+// The function refused the request before streaming (quota, settings, auth)
+export class ChatRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ChatRequestError';
+  }
+}
+
+export class ChatStreamError extends Error {
+  constructor(message: string, public partialText: string) {
+    super(message);
+    this.name = 'ChatStreamError';
+  }
+}
+
+// Why a reply failed, stored in messages.error instead of the reply text
+export type MessageErrorKind =
+  | 'quota'        // the user's own message or token limit
+  | 'rate_limit'   // the provider kept answering 429
+  | 'unavailable'  // the provider or chat function kept failing (5xx)
+  | 'refused'      // rejected before sending (settings, auth)
+  | 'stream'       // failed after the reply had started
+  | 'network'
+  | 'unknown';
+
+// Stored on messages.error (a type alias so it is assignable to Json)
+export type MessageError = {
+  kind: MessageErrorKind;
+  message: string;
+  // HTTP status of the chat function or provider, when known
+  status?: number;
+};
+
+const ERROR_KINDS: MessageErrorKind[] = ['quota', 'rate_limit', 'unavailable', 'refused', 'stream', 'network', 'unknown'];
+
+// Provider errors re-raised by the chat functions (ProviderApiError server side)
+const PROVIDER_STATUS = /API error: (\d{3})/;
+
+const kindForStatus = (status: number): MessageErrorKind =>
+  status === 429 ? 'rate_limit' : status >= 500 ? 'unavailable' : 'refused';
+
+/**
+ * Classifies a failed send for storage on the message
+ */
+export function toMessageError(error: unknown): MessageError {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+
+  if (error instanceof ChatRequestError) {
+    // Provider failures arrive as stream errors, so a 429 here is our quota
+    const kind = error.status === 429 ? 'quota' : kindForStatus(error.status);
+    return { kind, message, status: error.status };
+  }
+  if (error instanceof ChatStreamError) {
+    const status = Number(PROVIDER_STATUS.exec(message)?.[1]);
+    return Number.isNaN(status)
+      ? { kind: 'stream', message }
+      : { kind: kindForStatus(status), message, status };
+  }
+  if (error instanceof TypeError) return { kind: 'network', message };
+  return { kind: 'unknown', message };
+}
+
+export function parseMessageError(value: unknown): MessageError | null {
+  if (!value || typeof value !== 'object') return null;
+  const { kind, message, status } = value as Record<string, unknown>;
+  if (typeof message !== 'string') return null;
+  return {
+    kind: ERROR_KINDS.includes(kind as MessageErrorKind) ? kind as MessageErrorKind : 'unknown',
+    message,
+    ...(typeof status === 'number' && { status }),
+  };
+}
+
+/**
+ * Calls a provider's chat function
+ * @returns The response, ready for readChatStream
+ * @throws ChatRequestError when the function answers with an error status
+ */
+export async function openChatStream(
+  ai: ProviderId,
+  request: ChatRequest,
+  signal?: AbortSignal
+): Promise<Response> {
+  const provider = getProvider(ai);
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${FUNCTIONS_BASE_URL}/${provider.endpoint}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token}`,
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => null);
+    throw new ChatRequestError(errorBody?.error || `${provider.name} streaming error: ${response.status}`, response.status);
+  }
+  return response;
+}
+
+/**
+ * Reads a normalized chat stream to completion
+ * @param response - A successful fetch response from a chat-* function
+ * @param handlers - Callbacks for incremental updates
+ * @returns The full reply text, token usage (if the provider reported it) and
+ * any injected context chunks
+ * @throws ChatStreamError when the provider fails mid-stream
+ */
+export async function readChatStream(
+  response: Response,
+  handlers: ChatStreamHandlers = {}
+): Promise<ChatStreamResult> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('No reader available');
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage: ChatStreamUsage | null = null;
+  let contextChunks: ContextChunkRef[] = [];
+
+  const handleEvent = (event: ChatStreamEvent): boolean => {
+    switch (event.type) {
+      case 'delta':
+        text += event.text;
+        handlers.onDelta?.(event.text, text);
+        return false;
+      case 'tool_status':
+        handlers.onToolStatus?.(event);
+        return false;
+      case 'usage':
+        usage = { model: event.model, inputTokens: event.inputTokens, outputTokens: event.outputTokens, costUsd: event.costUsd };
+        handlers.onUsage?.(usage);
+        return false;
+      case 'context':
+        contextChunks = event.chunks;
+        handlers.onContext?.(contextChunks);
+        return false;
+      case 'failover':
+        handlers.onFailover?.(event);
+        return false;
+      case 'error':
+        throw new ChatStreamError(event.message, text);
+      case 'done':
+        return true;
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+
+        let event: ChatStreamEvent;
+        try {
+          event = JSON.parse(line.slice(6));
+        } catch (e) {
+          continue; // Skip malformed JSON
+        }
+
+        if (handleEvent(event)) return { text, usage, contextChunks };
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return { text, usage, contextChunks };
+}
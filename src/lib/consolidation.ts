@@ -0,0 +1,151 @@
+// Memory consolidation
+//
+// Several ledger entries are folded into one consolidation entry: the
+// consolidate-memories function has a model draft the summary, the user
+// edits it, and it is committed like any other entry (save-to-ledger) with
+// the sources' body_hash values in source_hashes. Sources are never changed;
+// "consolidated into" links are derived by matching those hashes, so the
+// chain stays append-only.
+
+import { supabase } from '@/integrations/supabase/client';
+import { normalizeHash } from '@/lib/ledgerHash';
+import type { ProviderId } from '@/lib/providers';
+
+// Mirror MAX_SOURCE_ENTRIES and MAX_SOURCE_CHARS in
+// supabase/functions/consolidate-memories
+export const MAX_CONSOLIDATION_SOURCES = 200;
+export const MAX_CONSOLIDATION_CHARS = 60000;
+
+export interface ConsolidationSource {
+  id: string;
+  agentId: string;
+  bodyHash: string;
+}
+
+export interface ConsolidationDraft {
+  draft: string;
+  model: string;
+  sources: ConsolidationSource[];
+}
+
+// Enough of a loaded entry to link consolidations
+export interface LinkableEntry {
+  id: string;
+  agentId: string;
+  type: string;
+  timestamp: string;
+  hash: string;
+  body?: unknown;
+}
+
+export interface EntryRef {
+  id: string;
+  timestamp: string;
+}
+
+export interface ConsolidationLinks {
+  // Source entry id -> the consolidations that include it
+  into: Map<string, EntryRef[]>;
+  // Consolidation entry id -> its sources that are loaded
+  from: Map<string, EntryRef[]>;
+}
+
+/**
+ * Length of the transcript consolidate-memories builds from `entries`, which
+ * it refuses past MAX_CONSOLIDATION_CHARS
+ */
+export function consolidationSize(entries: LinkableEntry[]): number {
+  return entries
+    .map(entry => {
+      const body = entry.body as Record<string, unknown> | undefined;
+      const text = typeof body?.content === 'string' ? body.content : JSON.stringify(body);
+      return `[${entry.timestamp}] ${entry.agentId} · ${entry.type}\n${text}`;
+    })
+    .join('\n\n').length;
+}
+
+/**
+ * Has `provider` draft a consolidated summary of the entries
+ * @throws Error when the edge function fails
+ */
+export async function draftConsolidation(entryIds: string[], provider: ProviderId): Promise<ConsolidationDraft> {
+  const { data, error } = await supabase.functions.invoke('consolidate-memories', {
+    body: { entryIds, provider, sendId: crypto.randomUUID() },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as ConsolidationDraft;
+}
+
+/**
+ * Appends the edited summary to `agentId`'s chain as a consolidation entry
+ * @returns The new entry's id
+ */
+export async function commitConsolidation(params: {
+  agentId: string;
+  content: string;
+  model: string | null;
+  sources: ConsolidationSource[];
+  actor: string;
+}): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('save-to-ledger', {
+    body: {
+      agent_id: params.agentId,
+      entry_type: 'consolidation',
+      body_json: {
+        content: params.content.trim(),
+        actor: params.actor,
+        timestamp: new Date().toISOString(),
+        source_hashes: params.sources.map(source => normalizeHash(source.bodyHash)),
+        source_ids: params.sources.map(source => source.id),
+        ...(params.model ? { model: params.model } : {}),
+      },
+    },
+  });
+  if (error) throw error;
+  if (!data?.ledger_entry_id) throw new Error(data?.error ?? 'Invalid response from save-to-ledger');
+  return data.ledger_entry_id;
+}
+
+/**
+ * One agent's entries between `from` and `to` (inclusive), oldest first.
+ * Consolidations are left out so a window can be consolidated again.
+ */
+export function entriesInWindow<T extends LinkableEntry>(entries: T[], agentId: string, from: Date, to: Date): T[] {
+  return entries
+    .filter(entry => {
+      const time = new Date(entry.timestamp).getTime();
+      return entry.agentId === agentId
+        && entry.type !== 'consolidation'
+        && time >= from.getTime()
+        && time <= to.getTime();
+    })
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Links between loaded consolidation entries and their sources
+ */
+export function consolidationLinks(entries: LinkableEntry[]): ConsolidationLinks {
+  const byHash = new Map(entries.map(entry => [normalizeHash(entry.hash), entry]));
+  const into = new Map<string, EntryRef[]>();
+  const from = new Map<string, EntryRef[]>();
+
+  for (const entry of entries) {
+    if (entry.type !== 'consolidation') continue;
+    const hashes = (entry.body as { source_hashes?: unknown })?.source_hashes;
+    if (!Array.isArray(hashes)) continue;
+
+    const ref = { id: entry.id, timestamp: entry.timestamp };
+    const sources: EntryRef[] = [];
+    for (const hash of hashes) {
+      const source = typeof hash === 'string' ? byHash.get(normalizeHash(hash)) : undefined;
+      if (!source) continue;
+      sources.push({ id: source.id, timestamp: source.timestamp });
+      into.set(source.id, [...(into.get(source.id) ?? []), ref]);
+    }
+    from.set(entry.id, sources);
+  }
+
+  return { into, from };
+}
@@ -0,0 +1,105 @@
+// Context window management
+//
+// Each provider gets the newest turns of its history that fit its
+// historyTokenBudget. Older turns are folded into a rolling per-provider
+// summary (chat_sessions.context_summaries, written by the summarize-history
+// edge function) that goes in with the prompt instead.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { ProviderId } from '@/lib/providers';
+
+export interface HistoryMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  ai_model?: string;
+  target_ai?: string;
+  error?: unknown;
+}
+
+// Mirrors ContextSummary in supabase/functions/summarize-history
+export interface ContextSummary {
+  summary: string;
+  // Newest message folded into the summary
+  throughMessageId: string;
+  summarizedCount: number;
+  updatedAt: string;
+}
+
+export type ContextSummaries = Partial<Record<ProviderId, ContextSummary>>;
+
+export interface HistorySplit<T> {
+  // Sent verbatim, oldest first; always starts with a user turn
+  kept: T[];
+  // Too old to fit, oldest first
+  dropped: T[];
+}
+
+// Rough count, good enough for budgeting (~4 characters per token)
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * The turns of a conversation path one model takes part in: its own replies
+ * (failed ones left out) and the prompts addressed to it
+ */
+export const historyFor = <T extends HistoryMessage>(path: T[], ai: ProviderId): T[] =>
+  path.filter(msg => msg.role === 'assistant'
+    ? msg.ai_model === ai && !msg.error
+    : msg.target_ai === ai || msg.target_ai === 'all' || msg.content?.includes('[Forwarded from'));
+
+/**
+ * Keeps the newest turns that fit the budget and drops the rest
+ */
+export function splitHistory<T extends HistoryMessage>(history: T[], budgetTokens: number): HistorySplit<T> {
+  let used = 0;
+  let start = history.length;
+  while (start > 0) {
+    const tokens = estimateTokens(history[start - 1].content ?? '');
+    if (used + tokens > budgetTokens) break;
+    used += tokens;
+    start--;
+  }
+
+  // Providers expect the history to open with the user
+  while (start < history.length && history[start].role !== 'user') start++;
+
+  return { kept: history.slice(start), dropped: history.slice(0, start) };
+}
+
+/**
+ * Which dropped turns still need folding into the summary. When the summary
+ * was built along a different branch it no longer applies and the dropped
+ * turns are summarized afresh.
+ */
+export function unsummarized<T extends HistoryMessage>(
+  dropped: T[],
+  summary: ContextSummary | undefined,
+): { turns: T[]; continueFrom: string | null } {
+  const through = summary ? dropped.findIndex(msg => msg.id === summary.throughMessageId) : -1;
+  return through === -1
+    ? { turns: dropped, continueFrom: null }
+    : { turns: dropped.slice(through + 1), continueFrom: summary!.throughMessageId };
+}
+
+export const formatSummary = (summary: ContextSummary) =>
+  `--- Earlier Conversation (summarized) ---\n${summary.summary}`;
+
+export const toContextSummaries = (value: unknown): ContextSummaries =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as ContextSummaries) : {};
+
+/**
+ * Folds turns into a provider's rolling summary and stores it on the session
+ * @throws Error when the edge function fails
+ */
+export async function summarizeHistory(params: {
+  sessionId: string;
+  provider: ProviderId;
+  sendId: string;
+  messageIds: string[];
+  continueFrom: string | null;
+}): Promise<ContextSummary> {
+  const { data, error } = await supabase.functions.invoke('summarize-history', { body: params });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as ContextSummary;
+}
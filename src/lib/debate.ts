@@ -0,0 +1,89 @@
+// Debate mode: the models take turns arguing a topic, each seeing the others'
+// latest arguments, and a moderator summarizes at the end.
+
+import { getProvider, type ProviderId } from '@/lib/providers';
+
+export const MIN_DEBATE_ROUNDS = 1;
+export const MAX_DEBATE_ROUNDS = 5;
+
+export const MODERATOR_HEADING = '**🧑‍⚖️ Moderator summary**';
+
+export interface DebateConfig {
+  topic: string;
+  rounds: number;
+  moderator: ProviderId;
+}
+
+export interface DebateTurn {
+  round: number;
+  speaker: ProviderId;
+  content: string;
+}
+
+// Also matched by get_leaderboard_votes, which leaves debates out
+const OPENING_PREFIX = '🎙️ Debate';
+
+// Persisted as the user message that opens the debate
+export const debateOpening = ({ topic, rounds }: DebateConfig) =>
+  `${OPENING_PREFIX} (${rounds} round${rounds === 1 ? '' : 's'}): ${topic}`;
+
+export const isDebateOpening = (content: string) => content.startsWith(OPENING_PREFIX);
+
+/**
+ * Latest argument from each participant, in turn order
+ */
+function latestArguments(turns: DebateTurn[]): DebateTurn[] {
+  const latest = new Map<ProviderId, DebateTurn>();
+  for (const turn of turns) latest.set(turn.speaker, turn);
+  return [...latest.values()];
+}
+
+/**
+ * Prompt for one debate turn. Debate prompts are self-contained, so the
+ * caller sends them without the session's conversation history.
+ */
+export function buildTurnPrompt(config: DebateConfig, speaker: ProviderId, round: number, turns: DebateTurn[]): string {
+  const name = getProvider(speaker).name;
+  const latest = latestArguments(turns);
+  const own = latest.find(t => t.speaker === speaker);
+  const others = latest.filter(t => t.speaker !== speaker);
+
+  const parts = [
+    `You are ${name}, taking part in a structured debate with other AI assistants.`,
+    `Topic: ${config.topic}`,
+    `This is round ${round} of ${config.rounds}.`,
+  ];
+
+  if (own) {
+    parts.push(`Your previous argument:\n${own.content}`);
+  }
+
+  if (others.length > 0) {
+    parts.push(
+      `The other participants' latest arguments:\n\n${others
+        .map(t => `### ${getProvider(t.speaker).name} (round ${t.round})\n${t.content}`)
+        .join('\n\n')}`
+    );
+    parts.push('Respond to their strongest points directly, concede what is right, and sharpen your own position. Keep it under 300 words.');
+  } else {
+    parts.push('You speak first. State your position and your main arguments. Keep it under 300 words.');
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Prompt for the moderator's closing summary over the whole transcript
+ */
+export function buildModeratorPrompt(config: DebateConfig, turns: DebateTurn[]): string {
+  const transcript = turns
+    .map(t => `### Round ${t.round} - ${getProvider(t.speaker).name}\n${t.content}`)
+    .join('\n\n');
+
+  return [
+    'You are the neutral moderator of a debate between AI assistants. You did not take part.',
+    `Topic: ${config.topic}`,
+    `Transcript:\n\n${transcript}`,
+    'Summarize the debate: each participant\'s position, where they converged, the main open disagreements, and which arguments were strongest and why. Do not introduce new arguments of your own.',
+  ].join('\n\n');
+}
@@ -0,0 +1,384 @@
+// Batch evaluations
+//
+// A prompt set (eval_prompts) is sent to each of a run's models with the same
+// streaming path as the chat (openChatStream/readChatStream), one prompt at a
+// time. Every answer is stored in eval_results as soon as it finishes, so a
+// paused or interrupted run resumes with whatever is still missing. With a
+// judge set, the judge-eval function scores each prompt's answers.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { ChatRequestError, openChatStream, readChatStream } from '@/lib/chatStream';
+import { averageScore, type Verdict } from '@/lib/judge';
+import { isProviderId, type ProviderId } from '@/lib/providers';
+
+export const MAX_EVAL_PROMPTS = 200;
+
+// Pause between prompts, so a large set does not hit provider rate limits
+export const EVAL_PROMPT_INTERVAL_MS = 1500;
+
+export type EvalRunStatus = 'pending' | 'running' | 'paused' | 'completed';
+
+export interface EvalRun {
+  id: string;
+  title: string;
+  status: EvalRunStatus;
+  providers: ProviderId[];
+  judge_provider: ProviderId | null;
+  web_search_enabled: boolean;
+  prompt_count: number;
+  created_at: string;
+}
+
+export interface EvalPrompt {
+  id: string;
+  run_id: string;
+  position: number;
+  prompt: string;
+  verdict: Verdict | null;
+  judge_model: string | null;
+  judge_cost_usd: number | null;
+}
+
+export interface EvalResult {
+  id: string;
+  prompt_id: string;
+  provider: ProviderId;
+  status: 'completed' | 'failed';
+  response: string | null;
+  error: string | null;
+  model_id: string | null;
+  first_token_ms: number | null;
+  latency_ms: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cost_usd: number | null;
+}
+
+interface EvalRunRow extends Omit<EvalRun, 'status' | 'providers' | 'judge_provider'> {
+  status: string;
+  providers: string[];
+  judge_provider: string | null;
+}
+
+interface EvalPromptRow extends Omit<EvalPrompt, 'verdict'> {
+  verdict: Json | null;
+}
+
+export const toEvalRun = (row: EvalRunRow): EvalRun => ({
+  ...row,
+  status: row.status as EvalRunStatus,
+  providers: row.providers.filter(isProviderId),
+  judge_provider: isProviderId(row.judge_provider) ? row.judge_provider : null,
+});
+
+export const toEvalPrompt = (row: EvalPromptRow): EvalPrompt => ({
+  ...row,
+  verdict: row.verdict as unknown as Verdict | null,
+});
+
+// ---------------------------------------------------------------------------
+// Prompt files
+
+const PROMPT_FIELDS = ['prompt', 'input', 'question'];
+
+/**
+ * Splits CSV text into rows, honouring quoted fields with embedded commas,
+ * quotes ("") and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Reads prompts from a CSV file (a prompt/input/question column, or the first
+ * column when there is no such header) or a JSONL file (one string or object
+ * with a prompt/input/question field per line)
+ * @throws Error naming the line that could not be read, or when there are no
+ * prompts or too many
+ */
+export function parsePromptFile(filename: string, text: string): string[] {
+  const isJsonl = /\.(jsonl|ndjson)$/i.test(filename);
+  let prompts: string[];
+
+  if (isJsonl) {
+    prompts = text.split(/\r?\n/).flatMap((line, index) => {
+      if (!line.trim()) return [];
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`);
+      }
+      if (typeof value === 'string') return [value];
+      const field = value && typeof value === 'object'
+        ? PROMPT_FIELDS.map(name => (value as Record<string, unknown>)[name]).find(v => typeof v === 'string')
+        : undefined;
+      if (typeof field !== 'string') throw new Error(`Line ${index + 1} has no "prompt" field`);
+      return [field];
+    });
+  } else {
+    const rows = parseCsv(text).filter(row => row.some(cell => cell.trim()));
+    const header = rows[0]?.map(cell => cell.trim().toLowerCase()) ?? [];
+    const column = header.findIndex(cell => PROMPT_FIELDS.includes(cell));
+    prompts = (column === -1 ? rows : rows.slice(1)).map(row => row[Math.max(column, 0)] ?? '');
+  }
+
+  prompts = prompts.map(prompt => prompt.trim()).filter(Boolean);
+  if (prompts.length === 0) throw new Error('No prompts found in the file');
+  if (prompts.length > MAX_EVAL_PROMPTS) {
+    throw new Error(`A run can hold up to ${MAX_EVAL_PROMPTS} prompts; the file has ${prompts.length}`);
+  }
+  return prompts;
+}
+
+// ---------------------------------------------------------------------------
+// Running
+
+export interface EvalWorkItem {
+  prompt: EvalPrompt;
+  // Models without a completed answer yet
+  providers: ProviderId[];
+  // Models that already answered, counted towards judging
+  answered: ProviderId[];
+}
+
+export const resultKey = (promptId: string, provider: string) => `${promptId}:${provider}`;
+
+/**
+ * What is left of a run: missing or failed answers, and prompts still
+ * waiting for the judge
+ */
+export function pendingWork(run: EvalRun, prompts: EvalPrompt[], results: Map<string, EvalResult>): EvalWorkItem[] {
+  return prompts.flatMap(prompt => {
+    const answered = run.providers.filter(p => results.get(resultKey(prompt.id, p))?.status === 'completed');
+    const providers = run.providers.filter(p => !answered.includes(p));
+    const needsJudge = !!run.judge_provider && !prompt.verdict && run.providers.length >= 2;
+    return providers.length > 0 || needsJudge ? [{ prompt, providers, answered }] : [];
+  });
+}
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+async function saveResult(run: EvalRun, userId: string, row: Omit<EvalResult, 'id'>): Promise<EvalResult> {
+  const { data, error } = await supabase
+    .from('eval_results')
+    .upsert({ ...row, run_id: run.id, user_id: userId }, { onConflict: 'prompt_id,provider' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as EvalResult;
+}
+
+/**
+ * Sends one prompt to one model and stores the outcome. Provider failures
+ * are stored as failed results; aborts and quota refusals are rethrown so
+ * the run stops.
+ */
+async function runEvalTask(
+  run: EvalRun,
+  userId: string,
+  prompt: EvalPrompt,
+  provider: ProviderId,
+  sendId: string,
+  signal: AbortSignal,
+): Promise<EvalResult> {
+  const startedAt = performance.now();
+  let firstTokenAt: number | null = null;
+
+  try {
+    const response = await openChatStream(provider, {
+      message: prompt.prompt,
+      conversation_history: [],
+      sendId,
+      webSearchEnabled: run.web_search_enabled,
+    }, signal);
+
+    const { text, usage } = await readChatStream(response, {
+      onDelta: () => {
+        firstTokenAt ??= performance.now();
+      },
+    });
+
+    return await saveResult(run, userId, {
+      prompt_id: prompt.id,
+      provider,
+      status: 'completed',
+      response: text,
+      error: null,
+      model_id: usage?.model ?? null,
+      first_token_ms: firstTokenAt === null ? null : Math.round(firstTokenAt - startedAt),
+      latency_ms: Math.round(performance.now() - startedAt),
+      input_tokens: usage?.inputTokens ?? null,
+      output_tokens: usage?.outputTokens ?? null,
+      cost_usd: usage?.costUsd ?? null,
+    });
+  } catch (error) {
+    if (isAbort(error) || (error instanceof ChatRequestError && error.status === 429)) throw error;
+
+    return saveResult(run, userId, {
+      prompt_id: prompt.id,
+      provider,
+      status: 'failed',
+      response: null,
+      error: (error as Error).message || 'Unknown error',
+      model_id: null,
+      first_token_ms: null,
+      latency_ms: Math.round(performance.now() - startedAt),
+      input_tokens: null,
+      output_tokens: null,
+      cost_usd: null,
+    });
+  }
+}
+
+/**
+ * Scores a prompt's answers with the run's judge
+ * @throws Error when the edge function fails
+ */
+export async function judgeEvalPrompt(prompt: EvalPrompt, judgeProvider: ProviderId, sendId: string): Promise<EvalPrompt> {
+  const { data, error } = await supabase.functions.invoke('judge-eval', {
+    body: { evalPromptId: prompt.id, sendId, judgeProvider },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return toEvalPrompt(data);
+}
+
+export interface RunEvaluationOptions {
+  run: EvalRun;
+  userId: string;
+  work: EvalWorkItem[];
+  signal: AbortSignal;
+  onPrompt: (prompt: EvalPrompt) => void;
+  onResult: (result: EvalResult) => void;
+  onVerdict: (prompt: EvalPrompt) => void;
+}
+
+/**
+ * Works through the pending items one prompt at a time, all of a prompt's
+ * models in parallel
+ * @throws ChatRequestError when the quota refuses a prompt; AbortError when
+ * the signal fires mid-request
+ */
+export async function runEvaluation({ run, userId, work, signal, onPrompt, onResult, onVerdict }: RunEvaluationOptions): Promise<void> {
+  // A prompt's models and judge share one message per pass. Each resume is
+  // a new pass with its own sendIds, so it never runs into the cap on
+  // requests per send.
+  const pass = crypto.randomUUID();
+
+  for (const [index, item] of work.entries()) {
+    if (signal.aborted) return;
+    onPrompt(item.prompt);
+    const sendId = `${item.prompt.id}:${pass}`;
+
+    const results = await Promise.all(
+      item.providers.map(provider => runEvalTask(run, userId, item.prompt, provider, sendId, signal))
+    );
+    results.forEach(onResult);
+
+    const answered = item.answered.length + results.filter(r => r.status === 'completed').length;
+    if (run.judge_provider && !item.prompt.verdict && answered >= 2 && !signal.aborted) {
+      try {
+        onVerdict(await judgeEvalPrompt(item.prompt, run.judge_provider, sendId));
+      } catch (error) {
+        // Left unjudged; resuming the run tries again
+        console.error('Error judging eval prompt:', error);
+      }
+    }
+
+    if (index < work.length - 1) await sleep(EVAL_PROMPT_INTERVAL_MS, signal);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Export
+
+const csvField = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per prompt, with each model's answer, timings, tokens and judge
+ * score side by side
+ */
+export function evaluationToCsv(run: EvalRun, prompts: EvalPrompt[], results: Map<string, EvalResult>): string {
+  const header = ['#', 'prompt'];
+  for (const provider of run.providers) {
+    header.push(
+      `${provider}_response`, `${provider}_status`, `${provider}_model`, `${provider}_first_token_ms`,
+      `${provider}_latency_ms`, `${provider}_input_tokens`, `${provider}_output_tokens`, `${provider}_cost_usd`,
+    );
+    if (run.judge_provider) header.push(`${provider}_judge_score`, `${provider}_judge_rank`);
+  }
+
+  const rows = prompts.map(prompt => {
+    const row: (string | number | null)[] = [prompt.position + 1, prompt.prompt];
+    for (const provider of run.providers) {
+      const result = results.get(resultKey(prompt.id, provider));
+      row.push(
+        result?.status === 'failed' ? result.error : result?.response ?? null,
+        result?.status ?? 'pending',
+        result?.model_id ?? null,
+        result?.first_token_ms ?? null,
+        result?.latency_ms ?? null,
+        result?.input_tokens ?? null,
+        result?.output_tokens ?? null,
+        result?.cost_usd ?? null,
+      );
+      if (run.judge_provider) {
+        const score = averageScore(prompt.verdict?.scores[provider]);
+        const rank = prompt.verdict ? prompt.verdict.ranking.indexOf(provider) : -1;
+        row.push(score === null ? null : score.toFixed(1), rank === -1 ? null : rank + 1);
+      }
+    }
+    return row;
+  });
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
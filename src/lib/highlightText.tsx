@@ -3,22 +3,28 @@ import React from 'react';
 /**
  * Highlights search terms within text by wrapping matches in <mark> elements
  * @param text - The text to search within
- * @param searchTerm - The term to highlight
+ * @param searchTerm - The term to highlight, or several terms to highlight independently
  * @returns React nodes with highlighted matches
  */
 export function highlightSearchTerms(
   text: string,
-  searchTerm: string
+  searchTerm: string | string[]
 ): React.ReactNode {
-  if (!searchTerm.trim()) return text;
-  
-  // Escape special regex characters in search term
-  const escapedTerm = searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const regex = new RegExp(`(${escapedTerm})`, 'gi');
+  const terms = (Array.isArray(searchTerm) ? searchTerm : [searchTerm]).filter(term => term.trim());
+  if (terms.length === 0) return text;
+
+  // Escape special regex characters in search terms; longest first so a
+  // longer term wins over its prefix
+  const pattern = terms
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|');
+  const regex = new RegExp(`(${pattern})`, 'gi');
+  const isMatch = new RegExp(`^(?:${pattern})$`, 'i');
   const parts = text.split(regex);
-  
+
   return parts.map((part, i) =>
-    regex.test(part) ? (
+    isMatch.test(part) ? (
       <mark key={i} className="bg-yellow-200 dark:bg-yellow-900/50 px-0.5 rounded">
         {part}
       </mark>
@@ -0,0 +1,68 @@
+// Image attachments. Uploaded, pasted and camera images all land in the
+// chat-files bucket like any other upload; the chat functions inline them as
+// image parts for vision providers (supabase/functions/_shared/vision.ts).
+
+import type { ClipboardEvent } from 'react';
+import { Capacitor } from '@capacitor/core';
+import { Camera, CameraResultType, CameraSource } from '@capacitor/camera';
+import { supabase } from '@/integrations/supabase/client';
+
+// Stored on the prompt's messages.attachments (a type alias rather than an
+// interface so it is assignable to Json)
+export type MessageAttachment = {
+  fileId: string;
+  filename: string;
+  mimeType: string;
+  path: string;
+};
+
+export const isImageType = (mimeType: string | null | undefined) => !!mimeType?.startsWith('image/');
+
+export const toAttachments = (value: unknown): MessageAttachment[] =>
+  Array.isArray(value) ? (value as MessageAttachment[]) : [];
+
+export const imageUrl = (path: string) =>
+  supabase.storage.from('chat-files').getPublicUrl(path).data.publicUrl;
+
+// The camera plugin needs a native shell; on the web the file picker's
+// image/* accept already offers the camera on phones
+export const canUseCamera = () => Capacitor.isNativePlatform();
+
+/**
+ * Takes or picks a photo with the device camera
+ * @returns the photo as a File, or null when the user cancelled
+ */
+export async function capturePhoto(): Promise<File | null> {
+  try {
+    const photo = await Camera.getPhoto({
+      resultType: CameraResultType.Uri,
+      source: CameraSource.Prompt,
+      quality: 85,
+      // Keeps photos under the providers' per-image size limits
+      width: 2048,
+    });
+    if (!photo.webPath) return null;
+
+    const blob = await (await fetch(photo.webPath)).blob();
+    const extension = photo.format || 'jpeg';
+    return new File([blob], `photo-${Date.now()}.${extension}`, { type: blob.type || `image/${extension}` });
+  } catch (error) {
+    // The plugin rejects with this message when the sheet is dismissed
+    if (error instanceof Error && /cancel/i.test(error.message)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Images pasted into a text field, named so they are recognisable in the
+ * file list
+ */
+export function pastedImages(event: ClipboardEvent): File[] {
+  return Array.from(event.clipboardData.files)
+    .filter(file => isImageType(file.type))
+    .map((file, index) => new File(
+      [file],
+      file.name && file.name !== 'image.png' ? file.name : `pasted-${Date.now()}-${index + 1}.${file.type.split('/')[1] || 'png'}`,
+      { type: file.type },
+    ));
+}
@@ -0,0 +1,30 @@
+// Client side of the `ingest-file` edge function, which extracts the full text
+// and page/section structure of an uploaded chat file.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type ExtractionStatus = 'pending' | 'processing' | 'ready' | 'failed' | 'unsupported';
+
+export interface IngestResult {
+  status: 'ready' | 'unsupported';
+  format?: string;
+  characters?: number;
+  sections?: number;
+  pageCount?: number | null;
+}
+
+// Still waiting on the server; the file list should show a spinner
+export const isExtracting = (status: string | null | undefined) =>
+  status === 'pending' || status === 'processing';
+
+/**
+ * Extracts an uploaded file's text. The result is also written to the
+ * chat_files row, so callers usually just reload the file list afterwards.
+ * @throws Error when extraction fails (the row is marked failed as well)
+ */
+export async function ingestFile(fileId: string): Promise<IngestResult> {
+  const { data, error } = await supabase.functions.invoke('ingest-file', { body: { fileId } });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as IngestResult;
+}
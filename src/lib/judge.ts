@@ -0,0 +1,50 @@
+// Judge mode: a chosen model scores the anonymized answers of one arena
+// round (see supabase/functions/judge-round for the server side).
+
+import type { Json } from '@/integrations/supabase/types';
+import { isProviderId, type ProviderId } from '@/lib/providers';
+
+export interface Verdict {
+  criteria: string[];
+  // Provider ids, best first
+  ranking: ProviderId[];
+  // provider -> criterion -> score (1-10)
+  scores: Record<string, Record<string, number>>;
+  rationale: string;
+  // Anonymized label the judge saw -> provider id
+  labels: Record<string, string>;
+}
+
+export interface RoundVerdict {
+  id: string;
+  prompt_message_id: string;
+  judge_provider: string;
+  judge_model: string;
+  verdict: Verdict;
+  cost_usd: number | null;
+  created_at: string;
+}
+
+interface RoundVerdictRow extends Omit<RoundVerdict, 'verdict'> {
+  verdict: Json;
+}
+
+export function toRoundVerdict(row: RoundVerdictRow): RoundVerdict {
+  const verdict = row.verdict as unknown as Verdict;
+  return {
+    ...row,
+    verdict: {
+      ...verdict,
+      ranking: (verdict.ranking ?? []).filter(isProviderId),
+    },
+  };
+}
+
+/**
+ * Average score across criteria, or null when the judge gave none
+ */
+export function averageScore(scores: Record<string, number> | undefined): number | null {
+  const values = Object.values(scores ?? {});
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,115 @@
+// Arena leaderboard computed from human votes
+//
+// Each voted round yields pairwise matches between the models that answered:
+// - a best-of-round pick beats every other answer in that round
+// - otherwise a thumbs-up answer beats a thumbs-down answer
+// Ratings use a standard Elo update, applied in the order votes were cast.
+
+export interface VoteRow {
+  round_id: string;
+  voter_id: string;
+  ai_model: string;
+  vote: number | null;
+  is_best: boolean;
+  web_search_enabled: boolean | null;
+  voted_at: string;
+}
+
+export interface LeaderboardRow {
+  model: string;
+  rating: number;
+  matches: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  bestPicks: number;
+  thumbsUp: number;
+  thumbsDown: number;
+}
+
+export const INITIAL_RATING = 1000;
+const K_FACTOR = 32;
+
+interface Match {
+  winner: string;
+  loser: string;
+}
+
+/**
+ * Derives the pairwise matches from one voter's votes on one round
+ */
+function roundMatches(answers: VoteRow[]): Match[] {
+  const matches: Match[] = [];
+  const best = answers.find(a => a.is_best);
+
+  if (best) {
+    for (const answer of answers) {
+      if (answer.ai_model !== best.ai_model) {
+        matches.push({ winner: best.ai_model, loser: answer.ai_model });
+      }
+    }
+    return matches;
+  }
+
+  for (const up of answers.filter(a => a.vote === 1)) {
+    for (const down of answers.filter(a => a.vote === -1)) {
+      if (up.ai_model !== down.ai_model) {
+        matches.push({ winner: up.ai_model, loser: down.ai_model });
+      }
+    }
+  }
+  return matches;
+}
+
+const expectedScore = (rating: number, opponent: number) =>
+  1 / (1 + Math.pow(10, (opponent - rating) / 400));
+
+/**
+ * Builds the leaderboard, best rating first
+ * @param rows - Output of the get_leaderboard_votes RPC, ordered by voted_at
+ */
+export function computeLeaderboard(rows: VoteRow[]): LeaderboardRow[] {
+  const stats = new Map<string, LeaderboardRow>();
+  const statsFor = (model: string) => {
+    let row = stats.get(model);
+    if (!row) {
+      row = { model, rating: INITIAL_RATING, matches: 0, wins: 0, losses: 0, winRate: null, bestPicks: 0, thumbsUp: 0, thumbsDown: 0 };
+      stats.set(model, row);
+    }
+    return row;
+  };
+
+  // Group by (round, voter), keeping first-seen order, which is vote order
+  const rounds = new Map<string, VoteRow[]>();
+  for (const row of rows) {
+    const key = `${row.round_id}:${row.voter_id}`;
+    rounds.set(key, [...(rounds.get(key) ?? []), row]);
+
+    const model = statsFor(row.ai_model);
+    if (row.is_best) model.bestPicks++;
+    if (row.vote === 1) model.thumbsUp++;
+    if (row.vote === -1) model.thumbsDown++;
+  }
+
+  for (const answers of rounds.values()) {
+    for (const { winner, loser } of roundMatches(answers)) {
+      const w = statsFor(winner);
+      const l = statsFor(loser);
+      const expected = expectedScore(w.rating, l.rating);
+      w.rating += K_FACTOR * (1 - expected);
+      l.rating -= K_FACTOR * (1 - expected);
+      w.wins++;
+      l.losses++;
+      w.matches++;
+      l.matches++;
+    }
+  }
+
+  return [...stats.values()]
+    .map(row => ({
+      ...row,
+      rating: Math.round(row.rating),
+      winRate: row.matches > 0 ? row.wins / row.matches : null,
+    }))
+    .sort((a, b) => b.rating - a.rating);
+}
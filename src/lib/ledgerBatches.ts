@@ -0,0 +1,200 @@
+// Ledger batches
+//
+// The ledger-batch function groups a user's unbatched entries into a Merkle
+// tree, stores the root on ledger_batches with one inclusion proof per entry
+// in ledger_proofs, and anchors the root through an anchor backend. Proofs
+// are re-checked here against the batch root rather than trusted, and
+// exported as proof bundles (see proofBundle.ts).
+
+import { supabase } from '@/integrations/supabase/client';
+import { canonicalJson } from '@/lib/ledgerHash';
+import { MERKLE_SCHEME, toProofPath, verifyInclusion, type ProofStep } from '@/lib/merkle';
+import { fetchAllPages } from '@/lib/paging';
+import {
+  BODY_HASH_SCHEME,
+  PROOF_BUNDLE_VERSION,
+  type BundledEntry,
+  type ChainLink,
+  type ProofBundle,
+} from '@/lib/proofBundle';
+
+export interface LedgerBatch {
+  id: string;
+  root_hash: string;
+  entry_count: number;
+  // Anchor reference: a transaction hash, or a record id for the file backend
+  l2_tx: string | null;
+  l2_block_number: number | null;
+  anchor_backend: string | null;
+  anchored_at: string | null;
+  created_at: string;
+}
+
+export interface LedgerProof {
+  entry_id: string;
+  batch_id: string;
+  leaf_index: number;
+  leaf_hash: string;
+  path: ProofStep[];
+}
+
+// A batched entry with its proof, as shown on the entry
+export interface EntryInclusion {
+  batch: LedgerBatch;
+  proof: LedgerProof;
+  valid: boolean;
+}
+
+export interface BatchRunResult {
+  batches: { batchId: string; rootHash: string; entryCount: number; anchor: unknown }[];
+  reanchored: number;
+}
+
+export async function loadBatches(userId: string): Promise<{ batches: LedgerBatch[]; proofs: LedgerProof[] }> {
+  const [batchesResult, proofs] = await Promise.all([
+    supabase
+      .from('ledger_batches')
+      .select('id, root_hash, entry_count, l2_tx, l2_block_number, anchor_backend, anchored_at, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false }),
+    fetchAllPages((from, to) => supabase
+      .from('ledger_proofs')
+      .select('entry_id, batch_id, leaf_index, leaf_hash, path')
+      .eq('user_id', userId)
+      .order('entry_id')
+      .range(from, to)),
+  ]);
+  if (batchesResult.error) throw batchesResult.error;
+
+  return {
+    batches: batchesResult.data,
+    proofs: proofs.map(row => ({ ...row, path: toProofPath(row.path) })),
+  };
+}
+
+/**
+ * Batches the caller's unbatched entries now instead of waiting for the
+ * scheduled sweep
+ */
+export async function runBatching(): Promise<BatchRunResult> {
+  const { data, error } = await supabase.functions.invoke('ledger-batch', { body: {} });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as BatchRunResult;
+}
+
+/**
+ * Checks every entry's proof against its batch root, keyed by entry id.
+ * Entries without a proof (unbatched, or batched before proofs were issued)
+ * are left out.
+ */
+export async function checkInclusion(
+  entries: { id: string; hash: string }[],
+  batches: LedgerBatch[],
+  proofs: LedgerProof[],
+): Promise<Map<string, EntryInclusion>> {
+  const batchById = new Map(batches.map(batch => [batch.id, batch]));
+  const proofByEntry = new Map(proofs.map(proof => [proof.entry_id, proof]));
+  const checked = new Map<string, EntryInclusion>();
+
+  for (const entry of entries) {
+    const proof = proofByEntry.get(entry.id);
+    const batch = proof && batchById.get(proof.batch_id);
+    if (!proof || !batch) continue;
+    checked.set(entry.id, {
+      batch,
+      proof,
+      valid: await verifyInclusion(entry.hash, proof.path, batch.root_hash),
+    });
+  }
+
+  return checked;
+}
+
+// Links of the agent's chain included before each exported entry
+const CHAIN_SEGMENT_LENGTH = 8;
+
+export interface BundleSourceEntry {
+  id: string;
+  agentId: string;
+  type: string;
+  timestamp: string;
+  hash: string;
+  prevHash?: string | null;
+  body: unknown;
+}
+
+const byChainOrder = (a: BundleSourceEntry, b: BundleSourceEntry) =>
+  a.timestamp === b.timestamp ? a.id.localeCompare(b.id) : a.timestamp.localeCompare(b.timestamp);
+
+function chainSegment(entry: BundleSourceEntry, entries: BundleSourceEntry[]): ChainLink[] {
+  const chain = entries.filter(other => other.agentId === entry.agentId).sort(byChainOrder);
+  const end = chain.findIndex(other => other.id === entry.id);
+  return chain.slice(Math.max(0, end - CHAIN_SEGMENT_LENGTH + 1), end + 1).map(link => ({
+    entry_id: link.id,
+    created_at: link.timestamp,
+    body_hash: link.hash,
+    prev_hash: link.prevHash ?? null,
+  }));
+}
+
+const bundledEntry = (entry: BundleSourceEntry, entries: BundleSourceEntry[], proof: LedgerProof): BundledEntry => ({
+  entry_id: entry.id,
+  agent_id: entry.agentId,
+  entry_type: entry.type,
+  created_at: entry.timestamp,
+  canonical_body: canonicalJson(entry.body),
+  body_hash: entry.hash,
+  prev_hash: entry.prevHash ?? null,
+  chain_segment: chainSegment(entry, entries),
+  merkle: { leaf_index: proof.leaf_index, leaf_hash: proof.leaf_hash, path: proof.path },
+});
+
+const bundle = (kind: ProofBundle['kind'], batch: LedgerBatch, bundled: BundledEntry[]): ProofBundle => ({
+  version: PROOF_BUNDLE_VERSION,
+  kind,
+  body_hash_scheme: BODY_HASH_SCHEME,
+  merkle_scheme: MERKLE_SCHEME,
+  exported_at: new Date().toISOString(),
+  batch: {
+    id: batch.id,
+    root_hash: batch.root_hash,
+    entry_count: batch.entry_count,
+    created_at: batch.created_at,
+    anchor: batch.anchored_at
+      ? {
+        backend: batch.anchor_backend ?? 'unknown',
+        tx: batch.l2_tx,
+        block_number: batch.l2_block_number,
+        anchored_at: batch.anchored_at,
+      }
+      : null,
+  },
+  entries: bundled,
+});
+
+/**
+ * Proof bundle for one batched entry (see proofBundle.ts)
+ */
+export function entryProofBundle(
+  entry: BundleSourceEntry,
+  entries: BundleSourceEntry[],
+  inclusion: EntryInclusion,
+): ProofBundle {
+  return bundle('entry', inclusion.batch, [bundledEntry(entry, entries, inclusion.proof)]);
+}
+
+/**
+ * Proof bundle for every entry of a batch, in leaf order
+ */
+export function batchProofBundle(
+  batch: LedgerBatch,
+  entries: BundleSourceEntry[],
+  inclusion: Map<string, EntryInclusion>,
+): ProofBundle {
+  const bundled = entries
+    .filter(entry => inclusion.get(entry.id)?.batch.id === batch.id)
+    .map(entry => bundledEntry(entry, entries, inclusion.get(entry.id)!.proof))
+    .sort((a, b) => a.merkle.leaf_index - b.merkle.leaf_index);
+  return bundle('batch', batch, bundled);
+}
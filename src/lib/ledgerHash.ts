@@ -0,0 +1,64 @@
+// Canonical ledger hashing
+//
+// body_hash is SHA-256 (hex) of body_json as Postgres prints a jsonb value,
+// which is what compute_canonical_hash hashes. That text form is canonical:
+//   - object keys sorted by byte length, then bytewise; a repeated key keeps
+//     its last value
+//   - ", " between items and ": " after keys, no other whitespace
+//   - strings escaped like JSON, non-ASCII characters left as is
+//
+// Numbers are the one gap: jsonb keeps numeric text such as 1.0 or 1e2 that
+// does not survive JSON.parse, so a body containing such a value cannot be
+// re-hashed from its parsed form.
+//
+// This module has no app imports so the offline proof verifier can use it.
+
+const encoder = new TextEncoder();
+
+function compareKeys(a: string, b: string): number {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  if (left.length !== right.length) return left.length - right.length;
+  for (let i = 0; i < left.length; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+/**
+ * Renders a JSON value the way Postgres prints jsonb
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Cannot canonicalize number ${value}`);
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(', ')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => compareKeys(a, b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}: ${canonicalJson(v)}`).join(', ')}}`;
+  }
+  throw new Error(`Cannot canonicalize ${typeof value}`);
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+}
+
+export const canonicalHash = (value: unknown) => sha256Hex(canonicalJson(value));
+
+// Hashes as stored may carry a 0x or \x prefix or upper-case hex
+export const normalizeHash = (hash: string) => hash.trim().toLowerCase().replace(/^(0x|\\x)/, '');
+
+export const sameHash = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && normalizeHash(a) === normalizeHash(b);
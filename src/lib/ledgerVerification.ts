@@ -0,0 +1,183 @@
+// Ledger chain verification
+//
+// Re-checks the Memory Ledger in the browser rather than trusting the
+// stored hashes: every body is re-hashed (see ledgerHash.ts) and each agent's
+// entries are walked oldest first, expecting every prev_hash to be the
+// body_hash of the entry just before it.
+//
+// Before trusting its own hashing the verifier asks the database to hash a
+// fixed probe value and compares. If the two disagree the ledger was hashed
+// some other way, so body checks are reported as unchecked instead of
+// flagging every entry as tampered.
+
+import { supabase } from '@/integrations/supabase/client';
+import { canonicalHash, sameHash } from '@/lib/ledgerHash';
+
+export interface VerifiableEntry {
+  id: string;
+  agentId: string;
+  timestamp: string;
+  hash: string;
+  prevHash?: string | null;
+  body: unknown;
+}
+
+export type EntryIntegrity =
+  | 'verified'
+  // Body no longer hashes to body_hash
+  | 'tampered'
+  // prev_hash points at an entry of this agent that is not the one before it
+  | 'reordered'
+  // prev_hash points at nothing we can see, or the chain restarts mid-way
+  | 'missing_link'
+  // Links are fine but the body could not be re-hashed
+  | 'unchecked';
+
+export type LinkStatus = 'genesis' | 'linked' | 'reordered' | 'missing';
+
+export interface EntryVerification {
+  status: EntryIntegrity;
+  // Null when the body could not be checked
+  bodyMatches: boolean | null;
+  link: LinkStatus;
+  detail: string;
+}
+
+export interface ChainReport {
+  agentId: string;
+  entries: number;
+  verified: number;
+  tampered: number;
+  reordered: number;
+  missing: number;
+  unchecked: number;
+}
+
+export interface LedgerVerification {
+  byEntry: Map<string, EntryVerification>;
+  chains: ChainReport[];
+  // Whether local hashing matched the database's on the probe value
+  hashingConfirmed: boolean;
+  checkedAt: string;
+}
+
+// Exercises key ordering, nesting, escapes and non-ASCII text
+const PROBE = {
+  zeta: [1, 'two', null, true, { b: 2, a: 1 }],
+  id: 'probe',
+  'é': 'ünïcødé 📍',
+  quote: 'say "hi"\n\ttab',
+  nested: { long_key: false, k: -1.5 },
+};
+
+/**
+ * Whether the browser's canonical hash agrees with compute_canonical_hash
+ */
+export async function confirmHashing(): Promise<boolean> {
+  try {
+    const { data, error } = await supabase.rpc('compute_canonical_hash', { data: PROBE });
+    if (error) throw error;
+    return sameHash(data, await canonicalHash(PROBE));
+  } catch (error) {
+    console.error('Error confirming ledger hashing:', error);
+    return false;
+  }
+}
+
+const SEVERITY: EntryIntegrity[] = ['tampered', 'reordered', 'missing_link', 'unchecked', 'verified'];
+
+const combine = (bodyMatches: boolean | null, link: LinkStatus): EntryIntegrity => {
+  if (bodyMatches === false) return 'tampered';
+  if (link === 'reordered') return 'reordered';
+  if (link === 'missing') return 'missing_link';
+  return bodyMatches === null ? 'unchecked' : 'verified';
+};
+
+const byChainOrder = (a: VerifiableEntry, b: VerifiableEntry) =>
+  a.timestamp === b.timestamp ? a.id.localeCompare(b.id) : a.timestamp.localeCompare(b.timestamp);
+
+async function bodyMatches(entry: VerifiableEntry, hashingConfirmed: boolean): Promise<boolean | null> {
+  if (!hashingConfirmed || entry.body === undefined) return null;
+  try {
+    return sameHash(await canonicalHash(entry.body), entry.hash);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks one agent's chain, oldest entry first
+ */
+async function verifyChain(chain: VerifiableEntry[], hashingConfirmed: boolean, byEntry: Map<string, EntryVerification>) {
+  for (let i = 0; i < chain.length; i++) {
+    const entry = chain[i];
+    const previous = i > 0 ? chain[i - 1] : null;
+    const matches = await bodyMatches(entry, hashingConfirmed);
+
+    let link: LinkStatus;
+    let detail: string;
+    if (!entry.prevHash) {
+      link = previous ? 'missing' : 'genesis';
+      detail = previous ? 'Chain restarts here: no previous hash' : 'First entry of this agent';
+    } else if (previous && sameHash(entry.prevHash, previous.hash)) {
+      link = 'linked';
+      detail = `Follows ${previous.id.slice(0, 8)}`;
+    } else {
+      const target = chain.find(other => other !== entry && sameHash(entry.prevHash, other.hash));
+      link = target ? 'reordered' : 'missing';
+      detail = target
+        ? `Points at ${target.id.slice(0, 8)}, which is not the entry before it`
+        : 'Previous entry is not in your ledger';
+    }
+
+    if (matches === false) detail = 'Body does not match its hash';
+    else if (matches === null && hashingConfirmed) detail = `${detail}; body could not be re-hashed`;
+
+    byEntry.set(entry.id, { status: combine(matches, link), bodyMatches: matches, link, detail });
+  }
+}
+
+export async function verifyLedger(entries: VerifiableEntry[]): Promise<LedgerVerification> {
+  const hashingConfirmed = await confirmHashing();
+  const byEntry = new Map<string, EntryVerification>();
+
+  const chains = new Map<string, VerifiableEntry[]>();
+  for (const entry of entries) {
+    chains.set(entry.agentId, [...(chains.get(entry.agentId) ?? []), entry]);
+  }
+
+  const reports: ChainReport[] = [];
+  for (const [agentId, chain] of chains) {
+    chain.sort(byChainOrder);
+    await verifyChain(chain, hashingConfirmed, byEntry);
+
+    const statuses = chain.map(entry => byEntry.get(entry.id)!.status);
+    const count = (status: EntryIntegrity) => statuses.filter(s => s === status).length;
+    reports.push({
+      agentId,
+      entries: chain.length,
+      verified: count('verified'),
+      tampered: count('tampered'),
+      reordered: count('reordered'),
+      missing: count('missing_link'),
+      unchecked: count('unchecked'),
+    });
+  }
+
+  reports.sort((a, b) => a.agentId.localeCompare(b.agentId));
+  return { byEntry, chains: reports, hashingConfirmed, checkedAt: new Date().toISOString() };
+}
+
+/**
+ * The most serious status among a set of entries
+ */
+export const worstStatus = (statuses: EntryIntegrity[]): EntryIntegrity =>
+  SEVERITY.find(status => statuses.includes(status)) ?? 'verified';
+
+export const INTEGRITY_LABELS: Record<EntryIntegrity, string> = {
+  verified: 'Verified',
+  tampered: 'Tampered',
+  reordered: 'Out of order',
+  missing_link: 'Missing link',
+  unchecked: 'Unchecked',
+};
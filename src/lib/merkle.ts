@@ -0,0 +1,71 @@
+// Merkle inclusion proofs for ledger batches
+//
+// Mirrors supabase/functions/_shared/merkle.ts, which builds the trees: leaves
+// are entries' body_hash values, RFC 6962 prefixes (0x00 leaf, 0x01 node),
+// and a node without a sibling moves up a level unchanged.
+//
+// Like ledgerHash.ts this has no app imports so offline verifiers can use it.
+
+import { normalizeHash } from './ledgerHash';
+
+export const MERKLE_SCHEME = 'sha256-rfc6962';
+
+export interface ProofStep {
+  hash: string;
+  // Side the sibling sits on
+  position: 'left' | 'right';
+}
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+function fromHex(hex: string): Uint8Array {
+  if (!/^([0-9a-f]{2})*$/.test(hex)) throw new Error(`Not a hex hash: ${hex}`);
+  return new Uint8Array((hex.match(/../g) ?? []).map(pair => parseInt(pair, 16)));
+}
+
+async function sha256(parts: Uint8Array[]): Promise<string> {
+  const data = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+}
+
+export const leafHash = (bodyHash: string) =>
+  sha256([new Uint8Array([0]), encoder.encode(normalizeHash(bodyHash))]);
+
+export const nodeHash = (left: string, right: string) =>
+  sha256([new Uint8Array([1]), fromHex(normalizeHash(left)), fromHex(normalizeHash(right))]);
+
+/**
+ * Folds a proof path into the root it implies
+ */
+export async function rootFromProof(leaf: string, path: ProofStep[]): Promise<string> {
+  let hash = normalizeHash(leaf);
+  for (const step of path) {
+    hash = step.position === 'left' ? await nodeHash(step.hash, hash) : await nodeHash(hash, step.hash);
+  }
+  return hash;
+}
+
+/**
+ * Whether an entry's body_hash is included under `root` by `path`
+ */
+export async function verifyInclusion(bodyHash: string, path: ProofStep[], root: string): Promise<boolean> {
+  try {
+    return (await rootFromProof(await leafHash(bodyHash), path)) === normalizeHash(root);
+  } catch {
+    return false;
+  }
+}
+
+export const toProofPath = (value: unknown): ProofStep[] =>
+  Array.isArray(value)
+    ? value.filter((step): step is ProofStep =>
+      typeof step?.hash === 'string' && (step.position === 'left' || step.position === 'right'))
+    : [];
@@ -0,0 +1,20 @@
+// PostgREST returns at most max_rows rows per request (1000 by default), so
+// tables that can grow past that are read a page at a time.
+
+export const PAGE_SIZE = 1000;
+
+/**
+ * Every row of a query. `page` runs the query for one inclusive range and
+ * must order it by a unique key so pages neither overlap nor skip rows.
+ */
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,209 @@
+// Ledger proof bundles
+//
+// A bundle is a self-contained JSON document showing that ledger entries
+// existed unchanged: the canonical body and its body_hash, a run of the
+// agent's prev_hash chain ending at the entry, the Merkle path from the
+// entry to its batch root, and where that root was anchored. Bundles are
+// built from the Memories page (see ledgerBatches.ts).
+//
+// verifyProofBundle needs nothing but the bundle: no Supabase access and no
+// app imports, so a third party can run it offline. The anchor reference is
+// reported, not checked; looking it up needs the anchor backend itself.
+
+import { normalizeHash, sameHash, sha256Hex } from './ledgerHash';
+import { leafHash, MERKLE_SCHEME, rootFromProof, type ProofStep } from './merkle';
+
+export const PROOF_BUNDLE_VERSION = 1;
+// body_hash is SHA-256 of canonical_body (see ledgerHash.ts)
+export const BODY_HASH_SCHEME = 'sha256-canonical-jsonb';
+
+export interface ChainLink {
+  entry_id: string;
+  created_at: string;
+  body_hash: string;
+  prev_hash: string | null;
+}
+
+export interface AnchorReference {
+  backend: string;
+  tx: string | null;
+  block_number: number | null;
+  anchored_at: string;
+}
+
+export interface BundledEntry {
+  entry_id: string;
+  agent_id: string;
+  entry_type: string;
+  created_at: string;
+  // body_json exactly as hashed
+  canonical_body: string;
+  body_hash: string;
+  prev_hash: string | null;
+  // Oldest first, ending with this entry
+  chain_segment: ChainLink[];
+  merkle: { leaf_index: number; leaf_hash: string; path: ProofStep[] };
+}
+
+export interface ProofBundle {
+  version: number;
+  kind: 'entry' | 'batch';
+  body_hash_scheme: string;
+  merkle_scheme: string;
+  exported_at: string;
+  batch: {
+    id: string;
+    root_hash: string;
+    entry_count: number;
+    created_at: string;
+    anchor: AnchorReference | null;
+  };
+  entries: BundledEntry[];
+}
+
+export interface BundleCheck {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+export interface EntryReport {
+  entryId: string;
+  valid: boolean;
+  checks: BundleCheck[];
+}
+
+export interface BundleReport {
+  valid: boolean;
+  // Checks on the bundle as a whole
+  checks: BundleCheck[];
+  entries: EntryReport[];
+  // Left to the reader: look it up on the anchor backend
+  anchor: AnchorReference | null;
+}
+
+const check = (name: string, ok: boolean, detail: string): BundleCheck => ({ name, ok, detail });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isHashOrNull = (value: unknown) => value === null || value === undefined || typeof value === 'string';
+
+const isChainLink = (value: unknown) =>
+  isObject(value) && typeof value.body_hash === 'string' && isHashOrNull(value.prev_hash);
+
+const isProofStep = (value: unknown) =>
+  isObject(value) && typeof value.hash === 'string' && (value.position === 'left' || value.position === 'right');
+
+/**
+ * Whether an entry has every field verifyEntry reads, with the right types.
+ * Bundles are often hand-edited, so nothing is assumed.
+ */
+function isBundledEntry(value: unknown): value is BundledEntry {
+  if (!isObject(value)) return false;
+  const { merkle } = value;
+  return typeof value.entry_id === 'string'
+    && typeof value.canonical_body === 'string'
+    && typeof value.body_hash === 'string'
+    && isHashOrNull(value.prev_hash)
+    && Array.isArray(value.chain_segment) && value.chain_segment.every(isChainLink)
+    && isObject(merkle)
+    && Number.isInteger(merkle.leaf_index)
+    && typeof merkle.leaf_hash === 'string'
+    && Array.isArray(merkle.path) && merkle.path.every(isProofStep);
+}
+
+async function verifyEntry(entry: BundledEntry, rootHash: string): Promise<EntryReport> {
+  const checks: BundleCheck[] = [];
+
+  let bodyHash: string | null = null;
+  try {
+    JSON.parse(entry.canonical_body);
+    bodyHash = await sha256Hex(entry.canonical_body);
+  } catch {
+    // Reported below
+  }
+  checks.push(check('body', sameHash(bodyHash, entry.body_hash),
+    bodyHash === null
+      ? 'canonical_body is not valid JSON'
+      : sameHash(bodyHash, entry.body_hash)
+        ? 'canonical_body hashes to body_hash'
+        : `canonical_body hashes to ${bodyHash}, not body_hash`));
+
+  const segment = entry.chain_segment;
+  const last = segment[segment.length - 1];
+  let chainProblem = !last
+    ? 'The chain segment is empty'
+    : !sameHash(last.body_hash, entry.body_hash) || (last.prev_hash ?? null) !== (entry.prev_hash ?? null)
+      ? 'The chain segment does not end with this entry'
+      : null;
+  for (let i = 1; i < segment.length && !chainProblem; i++) {
+    if (!sameHash(segment[i].prev_hash, segment[i - 1].body_hash)) {
+      chainProblem = `Link ${i + 1} of the chain segment does not point at link ${i}`;
+    }
+  }
+  checks.push(check('chain', !chainProblem,
+    chainProblem ?? (segment.length === 1
+      ? (entry.prev_hash ? 'Single link; earlier entries not included' : 'First entry of its agent')
+      : `${segment.length} consecutive links`)));
+
+  let root: string | null = null;
+  const expectedLeaf = await leafHash(entry.body_hash);
+  try {
+    root = await rootFromProof(entry.merkle.leaf_hash, entry.merkle.path);
+  } catch {
+    // Reported below
+  }
+  const leafMatches = sameHash(entry.merkle.leaf_hash, expectedLeaf);
+  const rootMatches = sameHash(root, rootHash);
+  checks.push(check('merkle', leafMatches && rootMatches,
+    !leafMatches
+      ? 'leaf_hash is not the leaf hash of body_hash'
+      : rootMatches
+        ? `Path of ${entry.merkle.path.length} steps leads to the batch root`
+        : 'Path does not lead to the batch root'));
+
+  return { entryId: entry.entry_id, valid: checks.every(c => c.ok), checks };
+}
+
+/**
+ * Checks a bundle using only its own contents
+ */
+export async function verifyProofBundle(bundle: ProofBundle): Promise<BundleReport> {
+  const knownFormat = bundle?.version === PROOF_BUNDLE_VERSION
+    && bundle.body_hash_scheme === BODY_HASH_SCHEME
+    && bundle.merkle_scheme === MERKLE_SCHEME
+    && typeof bundle.batch?.root_hash === 'string'
+    && Array.isArray(bundle.entries);
+  const malformed = knownFormat ? bundle.entries.filter(entry => !isBundledEntry(entry)).length : 0;
+  const wellFormed = knownFormat && malformed === 0;
+  const checks: BundleCheck[] = [
+    check('format', wellFormed, !knownFormat
+      ? `Not a version ${PROOF_BUNDLE_VERSION} bundle using ${BODY_HASH_SCHEME} and ${MERKLE_SCHEME}`
+      : malformed > 0
+        ? `${malformed} of ${bundle.entries.length} entries are missing fields or have fields of the wrong type`
+        : `Version ${PROOF_BUNDLE_VERSION}, ${BODY_HASH_SCHEME}, ${MERKLE_SCHEME}`),
+  ];
+  if (!wellFormed) return { valid: false, checks, entries: [], anchor: null };
+
+  if (bundle.kind === 'batch') {
+    const indexes = new Set(bundle.entries.map(entry => entry.merkle.leaf_index));
+    const complete = bundle.entries.length === bundle.batch.entry_count && indexes.size === bundle.batch.entry_count;
+    checks.push(check('complete', complete,
+      complete
+        ? `All ${bundle.batch.entry_count} entries of the batch are included`
+        : `${indexes.size} of ${bundle.batch.entry_count} leaves are included`));
+  }
+
+  const entries: EntryReport[] = [];
+  for (const entry of bundle.entries) {
+    entries.push(await verifyEntry(entry, normalizeHash(bundle.batch.root_hash)));
+  }
+
+  return {
+    valid: checks.every(c => c.ok) && entries.length > 0 && entries.every(entry => entry.valid),
+    checks,
+    entries,
+    anchor: bundle.batch.anchor,
+  };
+}
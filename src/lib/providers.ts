@@ -0,0 +1,100 @@
+// Chat provider registry
+//
+// Every model the arena can talk to is described here once. The chat UI,
+// the mobile selector, the forward menu and the `messages.ai_model` column
+// (via the `ai_providers` table) all key off these ids, so adding a model
+// means adding a descriptor and an edge function - nothing else.
+
+export const FUNCTIONS_BASE_URL = "https://ywohajmeijjiubesykcu.supabase.co/functions/v1";
+
+export interface ProviderDescriptor {
+  id: string;
+  name: string;
+  color: string;
+  icon: string;
+  // Supabase edge function that proxies this provider. It must emit the
+  // normalized event stream read by readChatStream.
+  endpoint: string;
+  // Accepts image attachments; others are told the images exist but get
+  // only their names (mirrors ProviderApi.vision in the edge functions)
+  vision: boolean;
+  // Tokens of conversation history sent verbatim; older turns are
+  // summarized (see src/lib/contextWindow.ts)
+  historyTokenBudget: number;
+  // Full class strings so Tailwind can see them at build time
+  classes: {
+    avatar: string;
+    badge: string;
+    button: string;
+  };
+}
+
+export const PROVIDERS = [
+  {
+    id: "chatgpt",
+    name: "ChatGPT",
+    color: "chatgpt",
+    icon: "🤖",
+    endpoint: "chat-openai",
+    vision: true,
+    historyTokenBudget: 24000,
+    classes: {
+      avatar: "bg-chatgpt text-chatgpt-foreground",
+      badge: "bg-chatgpt/20 text-chatgpt border-chatgpt/30",
+      button: "bg-chatgpt hover:bg-chatgpt/90",
+    },
+  },
+  {
+    id: "claude",
+    name: "Claude",
+    color: "claude",
+    icon: "🧠",
+    endpoint: "chat-claude",
+    vision: true,
+    historyTokenBudget: 32000,
+    classes: {
+      avatar: "bg-claude text-claude-foreground",
+      badge: "bg-claude/20 text-claude border-claude/30",
+      button: "bg-claude hover:bg-claude/90",
+    },
+  },
+  {
+    id: "deepseek",
+    name: "DeepSeek",
+    color: "deepseek",
+    icon: "🔍",
+    endpoint: "chat-deepseek",
+    vision: false,
+    historyTokenBudget: 16000,
+    classes: {
+      avatar: "bg-deepseek text-deepseek-foreground",
+      badge: "bg-deepseek/20 text-deepseek border-deepseek/30",
+      button: "bg-deepseek hover:bg-deepseek/90",
+    },
+  },
+] as const satisfies readonly ProviderDescriptor[];
+
+export type ProviderId = (typeof PROVIDERS)[number]["id"];
+export type AIModel = ProviderId | "all";
+
+export const PROVIDER_IDS: ProviderId[] = PROVIDERS.map(p => p.id);
+
+// Pseudo-provider used by the selectors for fan-out sends
+export const ALL_PROVIDERS = { name: "All AIs", color: "gradient-glow", icon: "🌟" };
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && PROVIDER_IDS.includes(value as ProviderId);
+}
+
+export function getProvider(id: ProviderId): ProviderDescriptor {
+  const provider = PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`Unknown AI: ${id}`);
+  return provider;
+}
+
+/**
+ * Display config for a selector value, including the "all" pseudo-provider
+ */
+export function getSelectionConfig(model: AIModel): { name: string; color: string; icon: string } {
+  return model === "all" ? ALL_PROVIDERS : getProvider(model);
+}
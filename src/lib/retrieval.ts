@@ -0,0 +1,37 @@
+// Retrieval-augmented context. The chat functions pick the chunks of the
+// attached documents most relevant to each prompt (see
+// supabase/functions/_shared/rag.ts) and report them back on the stream.
+
+export type ChunkSource = 'knowledge_base' | 'research_library' | 'chat_files';
+
+export const CHUNK_SOURCE_LABELS: Record<ChunkSource, string> = {
+  knowledge_base: 'Knowledge',
+  research_library: 'Research',
+  chat_files: 'File',
+};
+
+// Documents the user attached to a send; retrieval never looks outside them
+export interface ContextScope {
+  knowledgeIds: string[];
+  fileIds: string[];
+  includeResearch: boolean;
+}
+
+// Mirrors ContextChunkRef in rag.ts; stored on messages.context_chunks (a
+// type alias rather than an interface so it is assignable to Json)
+export type ContextChunkRef = {
+  id: string;
+  sourceType: ChunkSource;
+  sourceId: string;
+  title: string;
+  chunkIndex: number;
+  tokens: number;
+  score: number;
+  excerpt: string;
+};
+
+export const isEmptyScope = (scope: ContextScope) =>
+  scope.knowledgeIds.length === 0 && scope.fileIds.length === 0 && !scope.includeResearch;
+
+export const toContextChunks = (value: unknown): ContextChunkRef[] =>
+  Array.isArray(value) ? (value as ContextChunkRef[]) : [];
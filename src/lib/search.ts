@@ -0,0 +1,71 @@
+// Client side of the `search` edge function, which ranks a user's messages,
+// knowledge, research, ledger entries and uploaded files with full-text plus vector search.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export const SEARCH_SOURCES = ['messages', 'knowledge_base', 'research_library', 'ledger_entries', 'chat_files'] as const;
+
+export type SearchSource = (typeof SEARCH_SOURCES)[number];
+
+export const SEARCH_SOURCE_LABELS: Record<SearchSource, string> = {
+  messages: 'Chats',
+  knowledge_base: 'Knowledge',
+  research_library: 'Research',
+  ledger_entries: 'Memories',
+  chat_files: 'Files',
+};
+
+export interface SearchHit {
+  sourceType: SearchSource;
+  // Id of the row in the source table
+  sourceId: string;
+  // Set for message and file hits
+  sessionId: string | null;
+  title: string;
+  // Best-matching excerpt, unmarked; highlight with searchTerms()
+  snippet: string;
+  createdAt: string;
+  textRank: number | null;
+  similarity: number | null;
+  score: number;
+}
+
+export interface SearchPage {
+  hits: SearchHit[];
+  total: number;
+  page: number;
+  pageSize: number;
+  // False when embeddings were unavailable and only full text was used
+  semantic: boolean;
+}
+
+export interface SearchParams {
+  query: string;
+  sources?: SearchSource[];
+  sessionId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Runs a server-side search
+ * @throws Error when the edge function fails
+ */
+export async function searchDocuments(params: SearchParams): Promise<SearchPage> {
+  const { data, error } = await supabase.functions.invoke('search', { body: params });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as SearchPage;
+}
+
+/**
+ * Splits a query into the words worth highlighting. Mirrors the parts of
+ * websearch syntax the server understands: quotes, OR and -excluded words.
+ */
+export function searchTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .filter(word => word && !word.startsWith('-') && word.toLowerCase() !== 'or')
+    .map(word => word.replace(/^"+|"+$/g, ''))
+    .filter(word => word.length > 1);
+}
@@ -0,0 +1,71 @@
+// Per-session model settings (session_settings rows, one per provider).
+// The chat functions re-check every value against the same allow-list
+// (supabase/functions/_shared/settings.ts), so this copy only drives the UI.
+
+import type { ProviderId } from '@/lib/providers';
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  premium: boolean;
+  // Reasoning models reject a temperature parameter
+  temperature: boolean;
+  // Highest temperature the provider accepts (Anthropic stops at 1)
+  maxTemperature: number;
+  maxOutputTokens: number;
+  // Model of the same provider to fail over to when this one keeps failing
+  fallback: string;
+}
+
+export const MODEL_OPTIONS: Record<ProviderId, ModelOption[]> = {
+  chatgpt: [
+    { id: 'gpt-5-mini-2025-08-07', label: 'GPT-5 mini', premium: false, temperature: false, maxTemperature: 2, maxOutputTokens: 16384, fallback: 'gpt-4.1-2025-04-14' },
+    { id: 'gpt-5-2025-08-07', label: 'GPT-5', premium: true, temperature: false, maxTemperature: 2, maxOutputTokens: 16384, fallback: 'gpt-5-mini-2025-08-07' },
+    { id: 'gpt-4.1-2025-04-14', label: 'GPT-4.1', premium: true, temperature: true, maxTemperature: 2, maxOutputTokens: 16384, fallback: 'gpt-5-mini-2025-08-07' },
+  ],
+  claude: [
+    { id: 'claude-haiku-4-5-20251001', label: 'Claude Haiku 4.5', premium: false, temperature: true, maxTemperature: 1, maxOutputTokens: 8192, fallback: 'claude-sonnet-4-5-20250929' },
+    { id: 'claude-sonnet-4-5-20250929', label: 'Claude Sonnet 4.5', premium: true, temperature: true, maxTemperature: 1, maxOutputTokens: 8192, fallback: 'claude-haiku-4-5-20251001' },
+  ],
+  deepseek: [
+    { id: 'deepseek-chat', label: 'DeepSeek V3', premium: false, temperature: true, maxTemperature: 2, maxOutputTokens: 8192, fallback: 'deepseek-reasoner' },
+    { id: 'deepseek-reasoner', label: 'DeepSeek R1', premium: true, temperature: false, maxTemperature: 2, maxOutputTokens: 8192, fallback: 'deepseek-chat' },
+  ],
+};
+
+export const TIER_LIMITS = {
+  free: { maxTokens: 4096, systemPromptChars: 2000 },
+  premium: { maxTokens: 16384, systemPromptChars: 8000 },
+} as const;
+
+export interface SessionSetting {
+  provider: ProviderId;
+  model_id: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  system_prompt: string | null;
+  failover: boolean;
+}
+
+export type SessionSettings = Partial<Record<ProviderId, SessionSetting>>;
+
+export const defaultModel = (provider: ProviderId) => MODEL_OPTIONS[provider][0];
+
+export const findModel = (provider: ProviderId, modelId: string | null) =>
+  MODEL_OPTIONS[provider].find(option => option.id === modelId) ?? defaultModel(provider);
+
+/**
+ * The model a setting fails over to, or null when the user's plan can't use it
+ */
+export function fallbackModel(setting: SessionSetting, subscribed: boolean): ModelOption | null {
+  const fallback = MODEL_OPTIONS[setting.provider].find(option => option.id === findModel(setting.provider, setting.model_id).fallback);
+  return fallback && (!fallback.premium || subscribed) ? fallback : null;
+}
+
+// Whether a setting changes anything, i.e. is worth keeping as a row
+export const isCustomized = (setting: SessionSetting) =>
+  (setting.model_id !== null && setting.model_id !== defaultModel(setting.provider).id)
+  || setting.temperature !== null
+  || setting.max_tokens !== null
+  || !!setting.system_prompt?.trim()
+  || !setting.failover;
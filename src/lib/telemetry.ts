@@ -0,0 +1,131 @@
+// Provider health from request telemetry
+//
+// The chat-* functions write one provider_requests row per request (see
+// supabase/functions/_shared/telemetry.ts). These helpers roll them up into
+// the per-provider numbers and time series shown on the admin dashboard.
+
+export interface ProviderRequest {
+  provider: string;
+  model_id: string | null;
+  status: 'success' | 'error';
+  error_class: string | null;
+  http_status: number | null;
+  ttft_ms: number | null;
+  latency_ms: number;
+  web_search_used: boolean;
+  created_at: string;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  requests: number;
+  errors: number;
+  // Share of requests that succeeded, 0-1; null without requests
+  availability: number | null;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  p50TtftMs: number | null;
+  p95TtftMs: number | null;
+  webSearchRequests: number;
+}
+
+// One point per time bucket, with `${provider}` keys for charting
+export type SeriesPoint = { bucket: string } & Record<string, number | string | null>;
+
+export const TELEMETRY_RANGES = {
+  '24h': { label: 'Last 24 hours', hours: 24, bucketHours: 1 },
+  '7d': { label: 'Last 7 days', hours: 24 * 7, bucketHours: 6 },
+} as const;
+
+export type TelemetryRange = keyof typeof TELEMETRY_RANGES;
+
+// Rows loaded per range; enough for a week of moderate traffic
+export const TELEMETRY_ROW_LIMIT = 5000;
+
+/**
+ * Nearest-rank percentile of an unsorted list
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)];
+}
+
+export function providerHealth(rows: ProviderRequest[], providers: string[]): ProviderHealth[] {
+  return providers.map(provider => {
+    const own = rows.filter(r => r.provider === provider);
+    const errors = own.filter(r => r.status === 'error').length;
+    const successes = own.filter(r => r.status === 'success');
+    const ttfts = successes.map(r => r.ttft_ms).filter((ms): ms is number => ms !== null);
+
+    return {
+      provider,
+      requests: own.length,
+      errors,
+      availability: own.length > 0 ? (own.length - errors) / own.length : null,
+      p50LatencyMs: percentile(successes.map(r => r.latency_ms), 50),
+      p95LatencyMs: percentile(successes.map(r => r.latency_ms), 95),
+      p50TtftMs: percentile(ttfts, 50),
+      p95TtftMs: percentile(ttfts, 95),
+      webSearchRequests: own.filter(r => r.web_search_used).length,
+    };
+  });
+}
+
+/**
+ * Buckets rows by time and reduces each provider's rows in a bucket with
+ * `value`. Buckets without rows for a provider are null so lines break
+ * rather than dropping to zero.
+ */
+export function timeSeries(
+  rows: ProviderRequest[],
+  providers: string[],
+  range: TelemetryRange,
+  value: (rows: ProviderRequest[]) => number | null,
+  now = Date.now(),
+): SeriesPoint[] {
+  const { hours, bucketHours } = TELEMETRY_RANGES[range];
+  const bucketMs = bucketHours * 3600_000;
+  const start = Math.floor((now - hours * 3600_000) / bucketMs) * bucketMs;
+  const count = Math.ceil((now - start) / bucketMs);
+
+  const buckets: ProviderRequest[][] = Array.from({ length: count }, () => []);
+  for (const row of rows) {
+    const index = Math.floor((new Date(row.created_at).getTime() - start) / bucketMs);
+    if (index >= 0 && index < count) buckets[index].push(row);
+  }
+
+  return buckets.map((bucketRows, index) => {
+    const point: SeriesPoint = { bucket: new Date(start + index * bucketMs).toISOString() };
+    for (const provider of providers) {
+      const own = bucketRows.filter(r => r.provider === provider);
+      point[provider] = own.length > 0 ? value(own) : null;
+    }
+    return point;
+  });
+}
+
+export const p95Latency = (rows: ProviderRequest[]) =>
+  percentile(rows.filter(r => r.status === 'success').map(r => r.latency_ms), 95);
+
+export const errorRate = (rows: ProviderRequest[]) =>
+  rows.filter(r => r.status === 'error').length / rows.length;
+
+/**
+ * Error counts per class, one row per class with `${provider}` keys
+ */
+export function errorsByClass(rows: ProviderRequest[], providers: string[]) {
+  const counts = new Map<string, Record<string, number>>();
+  for (const row of rows) {
+    if (row.status !== 'error') continue;
+    const errorClass = row.error_class ?? 'unknown';
+    const entry = counts.get(errorClass) ?? Object.fromEntries(providers.map(p => [p, 0]));
+    entry[row.provider] = (entry[row.provider] ?? 0) + 1;
+    counts.set(errorClass, entry);
+  }
+  return [...counts.entries()].map(([errorClass, byProvider]) => ({ errorClass, ...byProvider }));
+}
+
+export const formatMs = (ms: number | null) =>
+  ms === null ? '–' : ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
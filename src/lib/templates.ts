@@ -0,0 +1,57 @@
+// Prompt templates
+//
+// Reusable prompts stored in prompt_templates. A body may contain
+// {{variable}} placeholders that are filled in when the template is used
+// from the composer's slash menu or the Templates panel.
+
+import { isProviderId, type AIModel } from '@/lib/providers';
+
+export interface PromptTemplate {
+  id: string;
+  title: string;
+  body: string;
+  category: string | null;
+  default_target: string | null;
+  knowledge_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// Shown in the slash menu before filtering narrows it down
+const MAX_MENU_ITEMS = 8;
+
+/**
+ * Variable names in the order they first appear
+ */
+export function templateVariables(body: string): string[] {
+  const names = new Set<string>();
+  for (const match of body.matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+  return [...names];
+}
+
+export const fillTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(VARIABLE_PATTERN, (_placeholder, name: string) => values[name] ?? '');
+
+export const templateTarget = (template: PromptTemplate): AIModel | null =>
+  template.default_target === 'all' || isProviderId(template.default_target) ? template.default_target : null;
+
+/**
+ * The filter typed after a leading slash, or null when the composer does not
+ * hold a slash command
+ */
+export const slashQuery = (input: string): string | null => {
+  const match = input.match(/^\/(\S*)$/);
+  return match ? match[1].toLowerCase() : null;
+};
+
+export const matchTemplates = (templates: PromptTemplate[], query: string) =>
+  templates
+    .filter(template =>
+      template.title.toLowerCase().includes(query)
+      || template.category?.toLowerCase().includes(query))
+    .slice(0, MAX_MENU_ITEMS);
+
+export const templateCategories = (templates: PromptTemplate[]) =>
+  [...new Set(templates.map(template => template.category).filter(Boolean) as string[])].sort();
@@ -0,0 +1,33 @@
+// Formatting helpers for token and cost figures
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface UsageLike {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cost_usd?: number | null;
+}
+
+export function sumUsage(rows: UsageLike[]): UsageTotals {
+  return rows.reduce<UsageTotals>((totals, row) => ({
+    inputTokens: totals.inputTokens + (row.input_tokens ?? 0),
+    outputTokens: totals.outputTokens + (row.output_tokens ?? 0),
+    costUsd: totals.costUsd + Number(row.cost_usd ?? 0),
+  }), { inputTokens: 0, outputTokens: 0, costUsd: 0 });
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+export function formatCost(costUsd: number): string {
+  if (costUsd === 0) return '$0';
+  if (costUsd < 0.01) return `$${costUsd.toFixed(4)}`;
+  return `$${costUsd.toFixed(2)}`;
+}
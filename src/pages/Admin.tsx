@@ -8,8 +8,9 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, Users, CreditCard, MessageSquare, UserCheck, Crown } from "lucide-react";
+import { ArrowLeft, Users, CreditCard, MessageSquare, UserCheck, Crown, Activity } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
+import { ProviderMetrics } from "@/components/admin/ProviderMetrics";
 
 const Admin = () => {
   const { user } = useAuth();
@@ -139,7 +140,7 @@ const Admin = () => {
           </div>
         ) : (
           <Tabs defaultValue="users" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="users" className="flex items-center gap-2">
                 <Users className="w-4 h-4" />
                 Users ({users.length})
@@ -152,6 +153,10 @@ const Admin = () => {
                 <MessageSquare className="w-4 h-4" />
                 Chat Sessions ({sessions.length})
               </TabsTrigger>
+              <TabsTrigger value="providers" className="flex items-center gap-2">
+                <Activity className="w-4 h-4" />
+                Providers
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="users">
@@ -294,6 +299,10 @@ const Admin = () => {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="providers">
+              <ProviderMetrics />
+            </TabsContent>
           </Tabs>
         )}
       </div>
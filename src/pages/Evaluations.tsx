@@ -0,0 +1,394 @@
+import { useState, useEffect, useRef, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { ArrowLeft, Download, FlaskConical, Pause, Play, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import { getProvider } from "@/lib/providers";
+import { formatCost } from "@/lib/usage";
+import { ChatRequestError } from "@/lib/chatStream";
+import {
+  evaluationToCsv,
+  pendingWork,
+  resultKey,
+  runEvaluation,
+  toEvalPrompt,
+  toEvalRun,
+  type EvalPrompt,
+  type EvalResult,
+  type EvalRun,
+  type EvalRunStatus,
+} from "@/lib/evaluation";
+import { NewEvalRunDialog, type NewEvalRun } from "@/components/evaluation/NewEvalRunDialog";
+import { EvalResultsTable } from "@/components/evaluation/EvalResultsTable";
+import logo from "@/assets/logo.png";
+
+// Inserted in slices to keep each request small
+const PROMPT_INSERT_BATCH = 100;
+
+const Evaluations = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [runs, setRuns] = useState<EvalRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [prompts, setPrompts] = useState<EvalPrompt[]>([]);
+  const [results, setResults] = useState<Map<string, EvalResult>>(new Map());
+  const [loading, setLoading] = useState(true);
+  // The run this tab is driving, and the prompt it is on
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [activePromptId, setActivePromptId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const selectedRun = runs.find(run => run.id === selectedRunId) ?? null;
+
+  const loadRun = async (runId: string) => {
+    const [promptsResult, resultsResult] = await Promise.all([
+      supabase.from('eval_prompts').select('*').eq('run_id', runId).order('position'),
+      supabase.from('eval_results').select('*').eq('run_id', runId),
+    ]);
+    if (promptsResult.error) throw promptsResult.error;
+    if (resultsResult.error) throw resultsResult.error;
+
+    const loadedPrompts = (promptsResult.data || []).map(toEvalPrompt);
+    const loadedResults = new Map((resultsResult.data || []).map(row => [
+      resultKey(row.prompt_id, row.provider),
+      row as EvalResult,
+    ]));
+    setPrompts(loadedPrompts);
+    setResults(loadedResults);
+    return { prompts: loadedPrompts, results: loadedResults };
+  };
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+      return;
+    }
+    if (!user) return;
+
+    const loadRuns = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('eval_runs')
+          .select('*')
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setRuns((data || []).map(toEvalRun));
+      } catch (error) {
+        console.error('Error loading evaluations:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load evaluations",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRuns();
+  }, [user, authLoading, navigate, toast]);
+
+  useEffect(() => {
+    if (!selectedRunId) return;
+    loadRun(selectedRunId).catch(error => console.error('Error loading evaluation:', error));
+  }, [selectedRunId]);
+
+  // Stop driving the run when leaving the page; it stays resumable
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const setRunStatus = async (runId: string, status: EvalRunStatus) => {
+    setRuns(prev => prev.map(run => run.id === runId ? { ...run, status } : run));
+    const { error } = await supabase.from('eval_runs').update({ status }).eq('id', runId);
+    if (error) console.error('Error updating evaluation status:', error);
+  };
+
+  const createRun = async (newRun: NewEvalRun) => {
+    if (!user) return;
+    try {
+      const { data: run, error } = await supabase
+        .from('eval_runs')
+        .insert({
+          user_id: user.id,
+          title: newRun.title,
+          providers: newRun.providers,
+          judge_provider: newRun.judgeProvider,
+          web_search_enabled: newRun.webSearchEnabled,
+          prompt_count: newRun.prompts.length,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      for (let start = 0; start < newRun.prompts.length; start += PROMPT_INSERT_BATCH) {
+        const { error: promptsError } = await supabase
+          .from('eval_prompts')
+          .insert(newRun.prompts.slice(start, start + PROMPT_INSERT_BATCH).map((prompt, offset) => ({
+            run_id: run.id,
+            user_id: user.id,
+            position: start + offset,
+            prompt,
+          })));
+        if (promptsError) throw promptsError;
+      }
+
+      setRuns(prev => [toEvalRun(run), ...prev]);
+      setSelectedRunId(run.id);
+    } catch (error) {
+      console.error('Error creating evaluation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create evaluation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startRun = async (run: EvalRun) => {
+    if (!user || activeRunId) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setActiveRunId(run.id);
+    await setRunStatus(run.id, 'running');
+
+    try {
+      const current = await loadRun(run.id);
+      await runEvaluation({
+        run,
+        userId: user.id,
+        work: pendingWork(run, current.prompts, current.results),
+        signal: controller.signal,
+        onPrompt: (prompt) => setActivePromptId(prompt.id),
+        onResult: (result) => setResults(prev => new Map(prev).set(resultKey(result.prompt_id, result.provider), result)),
+        onVerdict: (prompt) => setPrompts(prev => prev.map(p => p.id === prompt.id ? prompt : p)),
+      });
+    } catch (error) {
+      if (error instanceof ChatRequestError) {
+        toast({
+          title: "Evaluation paused",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else if (!controller.signal.aborted) {
+        console.error('Error running evaluation:', error);
+        toast({
+          title: "Evaluation paused",
+          description: (error as Error).message || "The run stopped unexpectedly",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setActiveRunId(null);
+      setActivePromptId(null);
+    }
+
+    // Anything still missing (failures, a pause) leaves the run resumable
+    const latest = await loadRun(run.id).catch(() => null);
+    const done = latest !== null && pendingWork(run, latest.prompts, latest.results).length === 0;
+    await setRunStatus(run.id, done ? 'completed' : 'paused');
+  };
+
+  const pauseRun = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const deleteRun = async (runId: string) => {
+    try {
+      const { error } = await supabase.from('eval_runs').delete().eq('id', runId);
+      if (error) throw error;
+      setRuns(prev => prev.filter(run => run.id !== runId));
+      if (selectedRunId === runId) setSelectedRunId(null);
+    } catch (error) {
+      console.error('Error deleting evaluation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete evaluation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportCsv = () => {
+    if (!selectedRun) return;
+    const blob = new Blob([evaluationToCsv(selectedRun, prompts, results)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${selectedRun.title.replace(/[^a-z0-9]/gi, '_')}_${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const summary = useMemo(() => {
+    if (!selectedRun) return null;
+    const all = [...results.values()];
+    const answered = all.filter(result => result.status === 'completed').length;
+    const failed = all.filter(result => result.status === 'failed').length;
+    const total = selectedRun.prompt_count * selectedRun.providers.length;
+    const cost = all.reduce((sum, result) => sum + (result.cost_usd ?? 0), 0)
+      + prompts.reduce((sum, prompt) => sum + (prompt.judge_cost_usd ?? 0), 0);
+    return { answered, failed, total, cost };
+  }, [selectedRun, results, prompts]);
+
+  // A run marked running that this tab is not driving was interrupted
+  const displayStatus = (run: EvalRun): EvalRunStatus =>
+    run.status === 'running' && run.id !== activeRunId ? 'paused' : run.status;
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-primary">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <div className="text-lg text-foreground">Loading...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-primary">
+      {/* Header */}
+      <div className="border-b border-border/50 bg-card/30 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => navigate("/")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Chat
+            </Button>
+            <Separator orientation="vertical" className="h-8" />
+            <img src={logo} alt="Logo" className="w-6 h-6" />
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Evaluations</h1>
+              <p className="text-sm text-muted-foreground">
+                Run a prompt set against every model and compare the answers
+              </p>
+            </div>
+            <div className="ml-auto">
+              <NewEvalRunDialog onCreate={createRun} />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 grid gap-6 lg:grid-cols-[280px_1fr]">
+        {/* Runs */}
+        <div className="space-y-2">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              No evaluations yet. Upload a prompt set to start one.
+            </p>
+          ) : (
+            runs.map(run => (
+              <Card
+                key={run.id}
+                className={cn(
+                  "p-3 cursor-pointer transition-colors group",
+                  run.id === selectedRunId ? "border-primary" : "hover:bg-card/80"
+                )}
+                // The table follows the running evaluation until it stops
+                onClick={() => !activeRunId && setSelectedRunId(run.id)}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium truncate">{run.title}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="opacity-0 group-hover:opacity-100 h-6 w-6 p-0"
+                    disabled={run.id === activeRunId}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteRun(run.id);
+                    }}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                  <Badge variant="outline" className="text-[10px] capitalize">{displayStatus(run)}</Badge>
+                  {run.prompt_count} prompts · {formatDistanceToNow(new Date(run.created_at), { addSuffix: true })}
+                </div>
+              </Card>
+            ))
+          )}
+        </div>
+
+        {/* Selected run */}
+        {selectedRun && summary ? (
+          <Card className="bg-card/50 min-w-0">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <FlaskConical className="w-5 h-5 text-primary" />
+                    {selectedRun.title}
+                  </CardTitle>
+                  <CardDescription>
+                    {selectedRun.providers.map(id => getProvider(id).name).join(', ')}
+                    {selectedRun.judge_provider && ` · judged by ${getProvider(selectedRun.judge_provider).name}`}
+                    {selectedRun.web_search_enabled && ' · 🌐 web search'}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  {activeRunId === selectedRun.id ? (
+                    <Button size="sm" variant="outline" onClick={pauseRun} className="gap-2">
+                      <Pause className="w-4 h-4" />
+                      Pause
+                    </Button>
+                  ) : displayStatus(selectedRun) !== 'completed' && (
+                    <Button size="sm" onClick={() => startRun(selectedRun)} disabled={activeRunId !== null} className="gap-2">
+                      <Play className="w-4 h-4" />
+                      {selectedRun.status === 'pending' ? 'Start' : 'Resume'}
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={exportCsv} className="gap-2">
+                    <Download className="w-4 h-4" />
+                    CSV
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-1 pt-2">
+                <Progress value={summary.total === 0 ? 0 : (summary.answered / summary.total) * 100} />
+                <p className="text-xs text-muted-foreground">
+                  {summary.answered}/{summary.total} answers
+                  {summary.failed > 0 && ` · ${summary.failed} failed (retried on resume)`}
+                  {summary.cost > 0 && ` · ${formatCost(summary.cost)}`}
+                </p>
+              </div>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <EvalResultsTable
+                run={selectedRun}
+                prompts={prompts}
+                results={results}
+                activePromptId={activeRunId === selectedRun.id ? activePromptId : null}
+              />
+            </CardContent>
+          </Card>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-12">
+            Select an evaluation to see its results.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Evaluations;
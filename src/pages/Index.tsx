@@ -5,7 +5,7 @@ import { useIsMobile } from "@/hooks/use-mobile";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useNavigate } from "react-router-dom";
-import { LogIn, LogOut, User, Crown, Database, Menu } from "lucide-react";
+import { LogIn, LogOut, User, Crown, Database, Menu, Trophy, FlaskConical } from "lucide-react";
 import logo from "@/assets/logo.png";
 import {
   DropdownMenu,
@@ -56,6 +56,14 @@ const Index = () => {
                 <Database className="w-4 h-4 mr-2" />
                 Memory Ledger
               </Button>
+              <Button variant="outline" onClick={() => navigate("/leaderboard")} size="sm">
+                <Trophy className="w-4 h-4 mr-2" />
+                Leaderboard
+              </Button>
+              <Button variant="outline" onClick={() => navigate("/evaluations")} size="sm">
+                <FlaskConical className="w-4 h-4 mr-2" />
+                Evaluations
+              </Button>
               {isAdmin && (
                 <Button variant="outline" onClick={() => navigate("/admin")} size="sm">
                   <Crown className="w-4 h-4 mr-2" />
@@ -86,6 +94,14 @@ const Index = () => {
                   <Database className="w-4 h-4 mr-2" />
                   Memory Ledger
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate("/leaderboard")}>
+                  <Trophy className="w-4 h-4 mr-2" />
+                  Leaderboard
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate("/evaluations")}>
+                  <FlaskConical className="w-4 h-4 mr-2" />
+                  Evaluations
+                </DropdownMenuItem>
                 {isAdmin && (
                   <DropdownMenuItem onClick={() => navigate("/admin")}>
                     <Crown className="w-4 h-4 mr-2" />
@@ -0,0 +1,218 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Trophy } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getProvider, isProviderId } from "@/lib/providers";
+import { computeLeaderboard, type VoteRow } from "@/lib/leaderboard";
+import logo from "@/assets/logo.png";
+
+type WebSearchFilter = "all" | "on" | "off";
+
+const Leaderboard = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<VoteRow[]>([]);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [webSearchFilter, setWebSearchFilter] = useState<WebSearchFilter>("all");
+  const [loading, setLoading] = useState(true);
+
+  const fetchVotes = useCallback(async () => {
+    setLoading(true);
+    try {
+      // The "to" date is inclusive, so query up to the start of the next day
+      const to = toDate ? new Date(new Date(toDate).getTime() + 24 * 60 * 60 * 1000).toISOString() : undefined;
+      const { data, error } = await supabase.rpc('get_leaderboard_votes', {
+        p_from: fromDate ? new Date(fromDate).toISOString() : undefined,
+        p_to: to,
+        p_web_search: webSearchFilter === "all" ? undefined : webSearchFilter === "on",
+      });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error loading leaderboard:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load leaderboard",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [fromDate, toDate, webSearchFilter, toast]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+      return;
+    }
+    if (user) {
+      fetchVotes();
+    }
+  }, [user, authLoading, navigate, fetchVotes]);
+
+  const leaderboard = useMemo(() => computeLeaderboard(rows), [rows]);
+  const roundCount = useMemo(() => new Set(rows.map(r => `${r.round_id}:${r.voter_id}`)).size, [rows]);
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-primary">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <div className="text-lg text-foreground">Loading...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-primary">
+      {/* Header */}
+      <div className="border-b border-border/50 bg-card/30 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => navigate("/")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Chat
+            </Button>
+            <Separator orientation="vertical" className="h-8" />
+            <img src={logo} alt="Logo" className="w-6 h-6" />
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Arena Leaderboard</h1>
+              <p className="text-sm text-muted-foreground">
+                Ratings from your team's thumbs and best-of-round votes
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <label htmlFor="leaderboard-from" className="text-xs text-muted-foreground">From</label>
+            <Input
+              id="leaderboard-from"
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-[160px]"
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="leaderboard-to" className="text-xs text-muted-foreground">To</label>
+            <Input
+              id="leaderboard-to"
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-[160px]"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">Web search</span>
+            <Select value={webSearchFilter} onValueChange={(value) => setWebSearchFilter(value as WebSearchFilter)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any</SelectItem>
+                <SelectItem value="on">🌐 On</SelectItem>
+                <SelectItem value="off">Off</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {(fromDate || toDate || webSearchFilter !== "all") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setFromDate("");
+                setToDate("");
+                setWebSearchFilter("all");
+              }}
+            >
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        <Card className="bg-card/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="w-5 h-5 text-primary" />
+              Rankings
+            </CardTitle>
+            <CardDescription>
+              {roundCount} voted round{roundCount === 1 ? '' : 's'}. A best-of-round pick beats every other answer in
+              the round; otherwise thumbs-up answers beat thumbs-down ones.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : leaderboard.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">
+                No votes yet. Vote on replies in the chat to build the leaderboard.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead className="text-right">Rating</TableHead>
+                    <TableHead className="text-right">Win rate</TableHead>
+                    <TableHead className="text-right">W / L</TableHead>
+                    <TableHead className="text-right">Best picks</TableHead>
+                    <TableHead className="text-right">👍 / 👎</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leaderboard.map((row, index) => (
+                    <TableRow key={row.model}>
+                      <TableCell className="font-medium">{index + 1}</TableCell>
+                      <TableCell>
+                        {isProviderId(row.model) ? (
+                          <Badge className={cn("text-xs", getProvider(row.model).classes.badge)}>
+                            {getProvider(row.model).icon} {getProvider(row.model).name}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">{row.model}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{row.rating}</TableCell>
+                      <TableCell className="text-right">
+                        {row.winRate === null ? '–' : `${Math.round(row.winRate * 100)}%`}
+                      </TableCell>
+                      <TableCell className="text-right">{row.wins} / {row.losses}</TableCell>
+                      <TableCell className="text-right">{row.bestPicks}</TableCell>
+                      <TableCell className="text-right">{row.thumbsUp} / {row.thumbsDown}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -1,20 +1,42 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useServerSearch } from "@/hooks/useServerSearch";
+import type { SearchSource } from "@/lib/search";
 import { useNavigate } from "react-router-dom";
 import { AddEntryForm } from "@/components/ledger/AddEntryForm";
 import { LedgerEntry } from "@/components/ledger/LedgerEntry";
 import { LedgerStats } from "@/components/ledger/LedgerStats";
 import { useToast } from "@/hooks/use-toast";
 import { LedgerFilters } from "@/components/ledger/LedgerFilters";
+import { ChainIntegrityReport } from "@/components/ledger/ChainIntegrityReport";
+import { LedgerBatches } from "@/components/ledger/LedgerBatches";
+import { ConsolidationDialog } from "@/components/ledger/ConsolidationDialog";
+import { consolidationLinks } from "@/lib/consolidation";
+import { verifyLedger, type LedgerVerification, type VerifiableEntry } from "@/lib/ledgerVerification";
+import { fetchAllPages } from "@/lib/paging";
+import {
+  batchProofBundle,
+  checkInclusion,
+  entryProofBundle,
+  loadBatches,
+  runBatching,
+  type BundleSourceEntry,
+  type EntryInclusion,
+  type LedgerBatch,
+  type LedgerProof,
+} from "@/lib/ledgerBatches";
+import type { ProofBundle } from "@/lib/proofBundle";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { Database, Calendar, ChevronDown, ChevronUp, ArrowLeft, User, LogOut } from "lucide-react";
+import { Database, Calendar, ChevronDown, ChevronUp, ArrowLeft, User, LogOut, Layers } from "lucide-react";
 import logo from "@/assets/logo.png";
 
+const LEDGER_SOURCES: SearchSource[] = ["ledger_entries"];
+
 const Memories = () => {
   const { user, signOut, loading: authLoading } = useAuth();
   const navigate = useNavigate();
@@ -25,18 +47,31 @@ const Memories = () => {
   const [agentFilter, setAgentFilter] = useState("all");
   const [showAddForm, setShowAddForm] = useState(true);
   const [loading, setLoading] = useState(true);
+  const [verification, setVerification] = useState<LedgerVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [batches, setBatches] = useState<LedgerBatch[]>([]);
+  const [proofs, setProofs] = useState<LedgerProof[]>([]);
+  const [inclusion, setInclusion] = useState<Map<string, EntryInclusion>>(new Map());
+  const [batching, setBatching] = useState(false);
+  // Picking entries to consolidate
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [consolidating, setConsolidating] = useState(false);
+  const search = useServerSearch(searchTerm, LEDGER_SOURCES);
 
   const fetchEntries = async () => {
     if (!user) return;
     
     try {
-      const { data, error } = await supabase
+      // All of them: a chain cut off by the row cap would show its oldest
+      // loaded entry as a missing link
+      const data = await fetchAllPages((from, to) => supabase
         .from('ledger_entries')
         .select('*')
         .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, to));
       
       const transformedData = data.map(entry => ({
         id: entry.id,
@@ -47,10 +82,15 @@ const Memories = () => {
         content: (entry.body_json as any)?.content || 'No content',
         size: new Blob([(entry.body_json as any)?.content || '']).size,
         prevHash: entry.prev_hash,
-        batchId: entry.batch_id
+        batchId: entry.batch_id,
+        body: entry.body_json
       }));
       
       setEntries(transformedData);
+
+      const batchData = await loadBatches(user.id);
+      setBatches(batchData.batches);
+      setProofs(batchData.proofs);
     } catch (error) {
       console.error('Error fetching entries:', error);
     } finally {
@@ -64,8 +104,119 @@ const Memories = () => {
     }
   }, [user]);
 
-  const handleAddEntry = (newEntry: any) => {
-    setEntries(prev => [newEntry, ...prev]);
+  const runVerification = useCallback(async (toVerify: VerifiableEntry[]) => {
+    setVerifying(true);
+    try {
+      setVerification(await verifyLedger(toVerify));
+    } catch (error) {
+      console.error('Error verifying ledger:', error);
+      toast({
+        title: "Verification failed",
+        description: "Could not check the ledger chain",
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(false);
+    }
+  }, [toast]);
+
+  // Re-check whenever the loaded entries change
+  useEffect(() => {
+    if (entries.length > 0) runVerification(entries);
+  }, [entries, runVerification]);
+
+  useEffect(() => {
+    let cancelled = false;
+    checkInclusion(entries, batches, proofs)
+      .then(checked => { if (!cancelled) setInclusion(checked); })
+      .catch(error => console.error('Error checking inclusion proofs:', error));
+    return () => { cancelled = true; };
+  }, [entries, batches, proofs]);
+
+  const handleBatchNow = async () => {
+    setBatching(true);
+    try {
+      const result = await runBatching();
+      const batched = result.batches.reduce((sum, batch) => sum + batch.entryCount, 0);
+      toast({
+        title: batched > 0 ? "Batch created" : "Nothing to batch",
+        description: batched > 0
+          ? `${batched} ${batched === 1 ? 'entry' : 'entries'} added to a Merkle batch`
+          : "Every entry is already in a batch",
+      });
+      await fetchEntries();
+    } catch (error) {
+      console.error('Error batching entries:', error);
+      toast({
+        title: "Batching failed",
+        description: error instanceof Error ? error.message : "Could not batch entries",
+        variant: "destructive",
+      });
+    } finally {
+      setBatching(false);
+    }
+  };
+
+  const downloadBundle = (bundle: ProofBundle, name: string) => {
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ledger-proof_${name}_${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Proof exported",
+      // The bundle's body check re-hashes canonical_body the way this page does
+      description: verification && !verification.hashingConfirmed
+        ? "Warning: the database hashes bodies differently, so the bundle's body check will fail"
+        : `${bundle.entries.length} ${bundle.entries.length === 1 ? 'entry' : 'entries'} with Merkle path and anchor reference`,
+      variant: verification && !verification.hashingConfirmed ? "destructive" : "default",
+    });
+  };
+
+  const handleExportEntryProof = (entry: BundleSourceEntry) => {
+    const entryInclusion = inclusion.get(entry.id);
+    if (!entryInclusion) return;
+    downloadBundle(entryProofBundle(entry, entries, entryInclusion), entry.id.slice(0, 8));
+  };
+
+  const handleExportBatchProof = (batch: LedgerBatch) => {
+    downloadBundle(batchProofBundle(batch, entries, inclusion), `batch-${batch.id.slice(0, 8)}`);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleConsolidated = () => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+    fetchEntries();
+  };
+
+  // Clears filters so the linked entry is in the list, then scrolls to it
+  const handleOpenEntry = (id: string) => {
+    setSearchTerm("");
+    setTypeFilter("all");
+    setAgentFilter("all");
+    setTimeout(() => {
+      document.getElementById(`ledger-entry-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 100);
+  };
+
+  const handleAddEntry = () => {
+    // Reload rather than insert locally: the stored body (and so its hash)
+    // is the server's sanitized version
+    fetchEntries();
   };
 
   const handlePinToChat = (entry: { id: string; content: string; agentId: string; type: string; timestamp: string }) => {
@@ -96,18 +247,29 @@ const Memories = () => {
   };
 
   const filteredEntries = useMemo(() => {
-    return entries.filter(entry => {
-      const matchesSearch = searchTerm === "" || 
-        entry.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        entry.agentId.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        entry.id.toLowerCase().includes(searchTerm.toLowerCase());
-        
+    let matches = entries;
+
+    if (search.active) {
+      // Ranked content hits first, then exact lookups by agent or entry id,
+      // which the full-text index does not cover
+      const term = search.activeQuery.toLowerCase();
+      const byId = new Map(entries.map(entry => [entry.id, entry]));
+      const ranked = search.hits.map(hit => byId.get(hit.sourceId)).filter(Boolean);
+      const rankedIds = new Set(ranked.map(entry => entry.id));
+      const lookups = entries.filter(entry =>
+        !rankedIds.has(entry.id) &&
+        (entry.agentId.toLowerCase().includes(term) || entry.id.toLowerCase().includes(term))
+      );
+      matches = [...ranked, ...lookups];
+    }
+
+    return matches.filter(entry => {
       const matchesType = typeFilter === "all" || entry.type === typeFilter;
       const matchesAgent = agentFilter === "all" || entry.agentId === agentFilter;
       
-      return matchesSearch && matchesType && matchesAgent;
+      return matchesType && matchesAgent;
     });
-  }, [entries, searchTerm, typeFilter, agentFilter]);
+  }, [entries, search.active, search.activeQuery, search.hits, typeFilter, agentFilter]);
 
   const stats = useMemo(() => {
     const totalEntries = entries.length;
@@ -122,6 +284,8 @@ const Memories = () => {
     return Array.from(new Set(entries.map(e => e.agentId))).sort();
   }, [entries]);
 
+  const links = useMemo(() => consolidationLinks(entries), [entries]);
+
   if (authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-primary">
@@ -189,6 +353,20 @@ const Memories = () => {
         {/* Stats */}
         <LedgerStats {...stats} />
 
+        <ChainIntegrityReport
+          verification={verification}
+          verifying={verifying}
+          onVerify={() => runVerification(entries)}
+        />
+
+        <LedgerBatches
+          batches={batches}
+          pendingCount={entries.filter(entry => !entry.batchId).length}
+          batching={batching}
+          onBatchNow={handleBatchNow}
+          onExportBatch={handleExportBatchProof}
+        />
+
         {/* Add Entry Form */}
         {showAddForm && (
           <AddEntryForm onAddEntry={handleAddEntry} />
@@ -205,10 +383,35 @@ const Memories = () => {
                 {filteredEntries.length} of {entries.length} entries shown
               </p>
             </div>
-            <Badge variant="secondary" className="font-mono">
-              <Calendar className="h-3 w-3 mr-1" />
-              Live Feed
-            </Badge>
+            <div className="flex items-center gap-2">
+              {selecting ? (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setSelecting(false);
+                      setSelectedIds(new Set());
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={() => setConsolidating(true)}>
+                    <Layers className="h-4 w-4 mr-2" />
+                    Consolidate ({selectedIds.size})
+                  </Button>
+                </>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => setSelecting(true)} disabled={entries.length < 2}>
+                  <Layers className="h-4 w-4 mr-2" />
+                  Consolidate
+                </Button>
+              )}
+              <Badge variant="secondary" className="font-mono">
+                <Calendar className="h-3 w-3 mr-1" />
+                Live Feed
+              </Badge>
+            </div>
           </div>
 
           <LedgerFilters
@@ -243,13 +446,47 @@ const Memories = () => {
             <ScrollArea className="h-[600px] pr-4">
               <div className="space-y-4">
                 {filteredEntries.map((entry) => (
-                  <LedgerEntry key={entry.id} entry={entry} onPinToChat={handlePinToChat} />
+                  <LedgerEntry
+                    key={entry.id}
+                    entry={entry}
+                    onPinToChat={handlePinToChat}
+                    highlightTerms={search.terms}
+                    verification={verification?.byEntry.get(entry.id)}
+                    inclusion={inclusion.get(entry.id)}
+                    onExportProof={() => handleExportEntryProof(entry)}
+                    selected={selectedIds.has(entry.id)}
+                    onToggleSelect={selecting ? () => toggleSelected(entry.id) : undefined}
+                    consolidatedInto={links.into.get(entry.id)}
+                    consolidates={links.from.get(entry.id)}
+                    onOpenEntry={handleOpenEntry}
+                  />
                 ))}
+                {search.active && search.hasMore && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={search.loadMore}
+                    disabled={search.loading}
+                  >
+                    {search.loading ? "Searching..." : "Load more results"}
+                  </Button>
+                )}
               </div>
             </ScrollArea>
           )}
         </div>
       </div>
+
+      {consolidating && (
+        <ConsolidationDialog
+          open={consolidating}
+          onOpenChange={setConsolidating}
+          entries={entries}
+          selectedIds={Array.from(selectedIds)}
+          availableAgents={availableAgents}
+          onCommitted={handleConsolidated}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,83 @@
+// Anchor backends publish a batch's Merkle root somewhere it cannot be
+// quietly rewritten. LEDGER_ANCHOR_BACKEND picks one; a real chain backend
+// only needs to implement AnchorBackend and be added to ANCHOR_BACKENDS.
+
+export interface AnchorRequest {
+  batchId: string;
+  rootHash: string;
+  entryCount: number;
+}
+
+export interface AnchorReceipt {
+  backend: string;
+  // Transaction (or record) reference, stored on ledger_batches.l2_tx
+  tx: string;
+  blockNumber: number | null;
+  anchoredAt: string;
+}
+
+export interface AnchorBackend {
+  name: string;
+  anchor(request: AnchorRequest): Promise<AnchorReceipt>;
+}
+
+const DEFAULT_BACKEND = 'mock-chain';
+// Mainnet-like block time, so mock block numbers advance plausibly
+const MOCK_BLOCK_MS = 12_000;
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Deterministic fake transactions, for development and tests
+const mockChain: AnchorBackend = {
+  name: 'mock-chain',
+  async anchor({ batchId, rootHash }) {
+    const now = Date.now();
+    return {
+      backend: 'mock-chain',
+      tx: `0x${await sha256Hex(`mock:${rootHash}:${batchId}`)}`,
+      blockNumber: Math.floor(now / MOCK_BLOCK_MS),
+      anchoredAt: new Date(now).toISOString(),
+    };
+  },
+};
+
+// Appends one JSON line per root to LEDGER_ANCHOR_FILE; the line number is
+// the "block"
+const localFile: AnchorBackend = {
+  name: 'local-file',
+  async anchor({ batchId, rootHash, entryCount }) {
+    const path = Deno.env.get('LEDGER_ANCHOR_FILE') ?? '/tmp/ledger-anchors.jsonl';
+    const anchoredAt = new Date().toISOString();
+    const record = JSON.stringify({ batchId, rootHash, entryCount, anchoredAt });
+
+    let lines = 0;
+    try {
+      lines = (await Deno.readTextFile(path)).split('\n').filter(Boolean).length;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+    await Deno.writeTextFile(path, `${record}\n`, { append: true });
+
+    return {
+      backend: 'local-file',
+      tx: `file:${path}#${lines + 1}`,
+      blockNumber: lines + 1,
+      anchoredAt,
+    };
+  },
+};
+
+const ANCHOR_BACKENDS: Record<string, AnchorBackend> = {
+  [mockChain.name]: mockChain,
+  [localFile.name]: localFile,
+};
+
+export function resolveAnchorBackend(): AnchorBackend {
+  const name = Deno.env.get('LEDGER_ANCHOR_BACKEND') ?? DEFAULT_BACKEND;
+  const backend = ANCHOR_BACKENDS[name];
+  if (!backend) throw new Error(`Unknown anchor backend: ${name}`);
+  return backend;
+}
@@ -0,0 +1,50 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { LogStep } from "./log.ts";
+
+export interface ChatUser {
+  userId: string | null;
+  email: string | null;
+  isSubscribed: boolean;
+}
+
+// Service role client - bypasses RLS, only use server side
+export const createServiceClient = (): SupabaseClient =>
+  createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+/**
+ * Resolves the caller from the bearer token and looks up their subscription.
+ * Anonymous callers come back with a null userId rather than an error.
+ */
+export async function resolveChatUser(
+  req: Request,
+  supabaseClient: SupabaseClient,
+  logStep: LogStep,
+): Promise<ChatUser> {
+  const user: ChatUser = { userId: null, email: null, isSubscribed: false };
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return user;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: userData } = await supabaseClient.auth.getUser(token);
+  if (!userData.user) return user;
+
+  user.userId = userData.user.id;
+  user.email = userData.user.email ?? null;
+  logStep("Authenticated user found", { userId: user.userId, email: user.email });
+
+  const { data: subscriptionData } = await supabaseClient
+    .from('subscribers')
+    .select('subscribed')
+    .eq('user_id', user.userId)
+    .maybeSingle();
+
+  user.isSubscribed = subscriptionData?.subscribed || false;
+  logStep("Subscription status", { isSubscribed: user.isSubscribed });
+
+  return user;
+}
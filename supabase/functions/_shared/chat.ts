@@ -0,0 +1,221 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { corsHeaders } from "./cors.ts";
+import { createLogger, type LogStep } from "./log.ts";
+import { createServiceClient, resolveChatUser, type ChatUser } from "./auth.ts";
+import { enforceQuota, recordTokenUsage } from "./quota.ts";
+import { createChatStream, isRetryableError, jsonResponse, sseResponse, type EmitEvent, type UpstreamStream } from "./sse.ts";
+import { contextBudgetFor, formatRetrievedContext, retrieveContext, toChunkRefs, type ContextScope } from "./rag.ts";
+import { PROVIDER_APIS } from "./providers.ts";
+import { imageNotice, listImageNames, loadImages, type ImageInput } from "./vision.ts";
+import { resolveModelSettings, type ModelSettings } from "./settings.ts";
+import { recordRequest, streamTelemetry } from "./telemetry.ts";
+
+export interface ChatMessage {
+  role: string;
+  content: unknown;
+}
+
+export interface ChatRequestContext {
+  // The user's message with any retrieved and pinned context prepended
+  message: string;
+  // Attached images, only ever non-empty for vision providers; pass them
+  // through userContent() when building the user turn
+  images: ImageInput[];
+  conversationHistory: ChatMessage[];
+  sessionId?: string;
+  // Model, sampling and system prompt for this session, already validated
+  settings: ModelSettings;
+  webSearchEnabled: boolean;
+  apiKey: string;
+  user: ChatUser;
+  logStep: LogStep;
+  // Sends a normalized event (e.g. tool_status) ahead of the model output
+  emit: EmitEvent;
+}
+
+export interface ChatProviderOptions {
+  // Registry id (ai_providers.id) this function serves
+  provider: string;
+  // Prefix for log lines, e.g. CHAT-CLAUDE
+  tag: string;
+  // Human readable provider name used in error messages
+  label: string;
+  apiKeyEnv: string;
+  // Maps the request onto the provider API and returns its raw stream
+  handle: (ctx: ChatRequestContext) => Promise<UpstreamStream>;
+}
+
+const hasScope = (scope?: ContextScope): scope is ContextScope =>
+  !!scope && (!!scope.knowledgeIds?.length || !!scope.fileIds?.length || scope.includeResearch === true);
+
+/**
+ * Prepends the chunks retrieved for this prompt and the client's pinned
+ * references (ledger entries) to the user's message. Retrieval problems are
+ * logged and the message goes out without them rather than failing the reply.
+ */
+async function withContext(
+  serviceClient: SupabaseClient,
+  user: ChatUser,
+  provider: string,
+  message: string,
+  scope: ContextScope | undefined,
+  pinnedContext: string | undefined,
+  emit: EmitEvent,
+  logStep: LogStep,
+): Promise<string> {
+  const sections: string[] = [];
+
+  if (user.userId && hasScope(scope)) {
+    try {
+      const chunks = await retrieveContext(serviceClient, user.userId, message, scope, contextBudgetFor(provider), logStep);
+      if (chunks.length > 0) {
+        sections.push(formatRetrievedContext(chunks));
+        emit({ type: 'context', chunks: toChunkRefs(chunks) });
+      }
+    } catch (error) {
+      logStep("Context retrieval failed", { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (pinnedContext?.trim()) sections.push(pinnedContext.trim());
+
+  return sections.length > 0 ? `${sections.join('\n\n')}\n\nUser Message: ${message}` : message;
+}
+
+/**
+ * Loads the prompt's images for a vision provider. Anything the model won't
+ * see (every image, for a text-only provider) is named in a notice to append
+ * to the message instead. Failures degrade to no images rather than no reply.
+ */
+async function withImages(
+  serviceClient: SupabaseClient,
+  user: ChatUser,
+  provider: string,
+  imageFileIds: unknown,
+  logStep: LogStep,
+): Promise<{ images: ImageInput[]; notice: string | null }> {
+  const fileIds = Array.isArray(imageFileIds) ? imageFileIds.filter((id): id is string => typeof id === 'string') : [];
+  if (fileIds.length === 0) return { images: [], notice: null };
+
+  try {
+    if (!PROVIDER_APIS[provider]?.vision) {
+      const names = await listImageNames(serviceClient, user.userId, fileIds);
+      return { images: [], notice: names.length > 0 ? imageNotice(names) : null };
+    }
+
+    const { images, skipped } = await loadImages(serviceClient, user.userId, fileIds, logStep);
+    return { images, notice: skipped.length > 0 ? imageNotice(skipped) : null };
+  } catch (error) {
+    logStep("Image loading failed", { error: error instanceof Error ? error.message : String(error) });
+    return { images: [], notice: null };
+  }
+}
+
+/**
+ * Serves a chat-* edge function. CORS, auth, quota and error handling live
+ * here; the provider only supplies its request mapping and stream format.
+ * The response is always the normalized event stream from createChatStream.
+ */
+export function serveChatProvider(options: ChatProviderOptions) {
+  const logStep = createLogger(options.tag);
+
+  serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    const startedAt = performance.now();
+
+    try {
+      logStep("Function started");
+
+      const {
+        message,
+        conversation_history = [],
+        sessionId,
+        sendId,
+        webSearchEnabled = false,
+        contextScope,
+        pinnedContext,
+        imageFileIds,
+      } = await req.json();
+      const apiKey = Deno.env.get(options.apiKeyEnv);
+
+      if (!apiKey) {
+        throw new Error(`${options.label} API key not configured`);
+      }
+
+      const serviceClient = createServiceClient();
+      const user = await resolveChatUser(req, serviceClient, logStep);
+
+      // Checked before the quota so a rejected setting costs no message
+      const resolved = await resolveModelSettings(serviceClient, user, options.provider, sessionId, logStep);
+      if (!resolved.ok) {
+        logStep("Session settings rejected", { error: resolved.error });
+        return jsonResponse({ error: resolved.error }, 403);
+      }
+
+      const limitResponse = await enforceQuota(serviceClient, user, options.provider, sendId, logStep);
+      if (limitResponse) return limitResponse;
+
+      return sseResponse(createChatStream(async (emit) => {
+        const { images, notice } = await withImages(serviceClient, user, options.provider, imageFileIds, logStep);
+        const prompt = await withContext(serviceClient, user, options.provider, message, contextScope, pinnedContext, emit, logStep);
+
+        const request = (settings: ModelSettings) => options.handle({
+          message: notice ? `${prompt}\n\n${notice}` : prompt,
+          images,
+          conversationHistory: conversation_history,
+          sessionId,
+          settings,
+          webSearchEnabled: webSearchEnabled === true,
+          apiKey,
+          user,
+          logStep,
+          emit,
+        });
+
+        try {
+          return await request(resolved.settings);
+        } catch (error) {
+          // postProvider has already retried; try the fallback model once
+          if (!resolved.fallback || !isRetryableError(error)) throw error;
+          logStep("Failing over", { from: resolved.settings.model, to: resolved.fallback.model });
+          // The stream's own row covers the fallback; record the failure it replaced
+          await recordRequest(
+            serviceClient,
+            streamTelemetry(options.provider, user.userId, startedAt, {
+              model: resolved.settings.model,
+              firstDeltaAt: null,
+              tools: [],
+              usage: null,
+              error,
+            }),
+            logStep,
+          );
+          emit({ type: 'failover', from: resolved.settings.model, to: resolved.fallback.model });
+          return await request(resolved.fallback);
+        }
+      }, (usage) => recordTokenUsage(serviceClient, user, {
+        provider: options.provider,
+        modelId: usage.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        costUsd: usage.costUsd,
+      }, logStep), (outcome) => recordRequest(
+        serviceClient,
+        streamTelemetry(options.provider, user.userId, startedAt, {
+          ...outcome,
+          model: outcome.model ?? resolved.settings.model,
+        }),
+        logStep,
+      )));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logStep("Error in function", { error: errorMessage });
+      return jsonResponse({ error: errorMessage }, 500);
+    }
+  });
+}
@@ -0,0 +1,78 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { LogStep } from "./log.ts";
+import { postProvider } from "./sse.ts";
+
+// Must match the vector(1536) columns in the database
+export const EMBEDDING_MODEL = 'text-embedding-3-small';
+const EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+
+// The model accepts ~8k tokens per input; stay well under it
+const MAX_INPUT_CHARS = 24000;
+// Inputs per embeddings request, and documents embedded per search
+const BATCH_SIZE = 64;
+const PENDING_LIMIT = 64;
+
+/**
+ * Embeds texts with OpenAI, in batches. Returns null when no API key is
+ * configured so callers can fall back to full-text search.
+ */
+export async function embedTexts(texts: string[], logStep: LogStep): Promise<number[][] | null> {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) {
+    logStep("OpenAI API key not configured, skipping embeddings");
+    return null;
+  }
+
+  const embeddings: number[][] = [];
+  for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+    const response = await postProvider(EMBEDDINGS_URL, { 'Authorization': `Bearer ${apiKey}` }, {
+      model: EMBEDDING_MODEL,
+      input: texts.slice(start, start + BATCH_SIZE).map(text => text.slice(0, MAX_INPUT_CHARS)),
+    }, 'OpenAI');
+    const data = await response.json();
+
+    embeddings.push(...(data.data as { index: number; embedding: number[] }[])
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding));
+  }
+
+  return embeddings;
+}
+
+// pgvector's text input format, accepted wherever a vector column or
+// parameter is expected
+export const toVectorLiteral = (embedding: number[]) => `[${embedding.join(',')}]`;
+
+/**
+ * Embeds a user's search documents that have no embedding yet (new rows, or
+ * rows whose text changed). Runs a bounded batch per call so search stays fast;
+ * a large backlog catches up over a few searches.
+ */
+export async function embedPendingDocuments(
+  serviceClient: SupabaseClient,
+  userId: string,
+  logStep: LogStep,
+): Promise<number> {
+  const { data: pending, error } = await serviceClient
+    .from('search_documents')
+    .select('id, title, content')
+    .eq('user_id', userId)
+    .is('embedding', null)
+    .order('updated_at', { ascending: false })
+    .limit(PENDING_LIMIT);
+  if (error) throw error;
+  if (!pending?.length) return 0;
+
+  const vectors = await embedTexts(pending.map(doc => `${doc.title}\n\n${doc.content}`), logStep);
+  if (!vectors) return 0;
+
+  await Promise.all(pending.map((doc, index) =>
+    serviceClient
+      .from('search_documents')
+      .update({ embedding: toVectorLiteral(vectors[index]) })
+      .eq('id', doc.id)
+  ));
+
+  logStep("Embedded pending documents", { count: pending.length });
+  return pending.length;
+}
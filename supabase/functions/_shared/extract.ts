@@ -0,0 +1,224 @@
+import { DOMParser, type Element, type Node } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { parse as parseCsv } from "https://deno.land/std@0.168.0/encoding/csv.ts";
+import { extractText as extractPdfText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import mammoth from "https://esm.sh/mammoth@1.8.0";
+
+// Text extraction for uploaded files. Every extractor returns the full text
+// plus a list of sections (pages, headings, row ranges) as character offsets
+// into that text, so retrieval can label chunks with where they came from.
+
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'csv' | 'tsv' | 'markdown' | 'code' | 'text';
+
+export interface DocumentSection {
+  kind: 'page' | 'section' | 'rows' | 'file';
+  title: string;
+  start: number;
+  end: number;
+}
+
+export interface Extraction {
+  format: DocumentFormat;
+  text: string;
+  sections: DocumentSection[];
+  pageCount: number | null;
+}
+
+interface SectionPart {
+  kind: DocumentSection['kind'];
+  title: string;
+  text: string;
+}
+
+// Keeps one huge upload from exhausting the function's memory downstream
+export const MAX_EXTRACTED_CHARS = 2_000_000;
+const CSV_ROWS_PER_SECTION = 100;
+
+const CODE_EXTENSIONS = new Set([
+  'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cc', 'cpp',
+  'hpp', 'cs', 'php', 'scala', 'sh', 'bash', 'zsh', 'sql', 'r', 'lua', 'pl', 'dart', 'vue', 'svelte', 'css',
+  'scss', 'less', 'yaml', 'yml', 'toml', 'ini', 'json', 'xml', 'gradle', 'dockerfile', 'makefile',
+]);
+const TEXT_EXTENSIONS = new Set(['txt', 'log', 'rst', 'adoc', 'tex']);
+
+/**
+ * Works out how to read a file from its name and MIME type. Returns null for
+ * files with no text to extract (images, archives, ...).
+ */
+export function detectFormat(filename: string, mimeType: string): DocumentFormat | null {
+  const name = filename.toLowerCase();
+  const extension = name.includes('.') ? name.split('.').pop()! : name;
+
+  if (extension === 'pdf' || mimeType === 'application/pdf') return 'pdf';
+  if (extension === 'docx' || mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') return 'docx';
+  if (extension === 'html' || extension === 'htm' || mimeType === 'text/html') return 'html';
+  if (extension === 'csv' || mimeType === 'text/csv') return 'csv';
+  if (extension === 'tsv' || mimeType === 'text/tab-separated-values') return 'tsv';
+  if (extension === 'md' || extension === 'markdown' || mimeType === 'text/markdown') return 'markdown';
+  if (CODE_EXTENSIONS.has(extension)) return 'code';
+  if (TEXT_EXTENSIONS.has(extension) || mimeType.startsWith('text/')) return 'text';
+  return null;
+}
+
+const normalizeWhitespace = (text: string) =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Joins parts into one text and records where each one landed
+function assemble(format: DocumentFormat, parts: SectionPart[], pageCount: number | null = null): Extraction {
+  let text = '';
+  const sections: DocumentSection[] = [];
+
+  for (const part of parts) {
+    if (!part.text.trim()) continue;
+    if (text) text += '\n\n';
+    const start = text.length;
+    text += part.text;
+    sections.push({ kind: part.kind, title: part.title, start, end: text.length });
+  }
+
+  if (text.length > MAX_EXTRACTED_CHARS) {
+    text = text.slice(0, MAX_EXTRACTED_CHARS);
+    const kept = sections.filter(section => section.start < MAX_EXTRACTED_CHARS);
+    kept.forEach(section => { section.end = Math.min(section.end, MAX_EXTRACTED_CHARS); });
+    return { format, text, sections: kept, pageCount };
+  }
+
+  return { format, text, sections, pageCount };
+}
+
+async function extractPdf(bytes: Uint8Array): Promise<Extraction> {
+  const pdf = await getDocumentProxy(bytes);
+  const { totalPages, text } = await extractPdfText(pdf, { mergePages: false });
+  const pages = (Array.isArray(text) ? text : [text]).map((pageText, index) => ({
+    kind: 'page' as const,
+    title: `Page ${index + 1}`,
+    text: normalizeWhitespace(pageText),
+  }));
+  return assemble('pdf', pages, totalPages);
+}
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'HEAD']);
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'LI', 'TR', 'PRE', 'BLOCKQUOTE', 'SECTION', 'ARTICLE', 'TABLE', 'UL', 'OL', 'BR', 'HR',
+  'HEADER', 'FOOTER', 'MAIN', 'NAV', 'ASIDE', 'FIGURE', 'FIGCAPTION', 'DL', 'DT', 'DD',
+]);
+
+// Splits an HTML document into sections at each heading
+function extractHtmlString(html: string, format: DocumentFormat): Extraction {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const parts: SectionPart[] = [];
+  let current: SectionPart = { kind: 'section', title: document?.title?.trim() || 'Introduction', text: '' };
+
+  const flush = () => {
+    current.text = normalizeWhitespace(current.text);
+    parts.push(current);
+  };
+
+  const walk = (node: Node) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === 3) {
+        current.text += child.textContent;
+        continue;
+      }
+      if (child.nodeType !== 1) continue;
+
+      const tag = (child as Element).tagName;
+      if (SKIPPED_TAGS.has(tag)) continue;
+
+      if (/^H[1-6]$/.test(tag)) {
+        flush();
+        const title = normalizeWhitespace(child.textContent ?? '');
+        current = { kind: 'section', title: title || 'Untitled section', text: `${title}\n\n` };
+        continue;
+      }
+
+      walk(child);
+      if (BLOCK_TAGS.has(tag)) current.text += '\n';
+      else if (tag === 'TD' || tag === 'TH') current.text += '\t';
+    }
+  };
+
+  if (document?.body) walk(document.body);
+  flush();
+
+  return assemble(format, parts);
+}
+
+async function extractDocx(bytes: Uint8Array): Promise<Extraction> {
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+  const { value: html } = await mammoth.convertToHtml({ arrayBuffer: buffer });
+  return extractHtmlString(html, 'docx');
+}
+
+// Rows become "column: value" lines, which retrieve far better than raw CSV,
+// grouped into row ranges that repeat nothing but stay self-describing
+function extractDelimited(text: string, format: 'csv' | 'tsv'): Extraction {
+  const rows = parseCsv(text, { separator: format === 'tsv' ? '\t' : ',', lazyQuotes: true }) as string[][];
+  if (rows.length === 0) return assemble(format, []);
+
+  const [header, ...records] = rows;
+  const columns = header.map((name, index) => name.trim() || `Column ${index + 1}`);
+  const parts: SectionPart[] = [];
+
+  for (let start = 0; start < records.length; start += CSV_ROWS_PER_SECTION) {
+    const group = records.slice(start, start + CSV_ROWS_PER_SECTION);
+    parts.push({
+      kind: 'rows',
+      title: `Rows ${start + 1}–${start + group.length}`,
+      text: group
+        .map(record => record.map((value, index) => `${columns[index] ?? `Column ${index + 1}`}: ${value}`).join(' | '))
+        .join('\n'),
+    });
+  }
+
+  return assemble(format, [{ kind: 'section', title: 'Columns', text: columns.join(', ') }, ...parts]);
+}
+
+function extractMarkdown(text: string): Extraction {
+  const parts: SectionPart[] = [];
+  let current: SectionPart = { kind: 'section', title: 'Introduction', text: '' };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const heading = /^#{1,6}\s+(.+)$/.exec(line);
+    if (heading) {
+      parts.push(current);
+      current = { kind: 'section', title: heading[1].trim(), text: '' };
+    }
+    current.text += `${line}\n`;
+  }
+  parts.push(current);
+
+  return assemble('markdown', parts.map(part => ({ ...part, text: part.text.trim() })));
+}
+
+/**
+ * Extracts the text and structure of a file
+ * @throws Error when the file cannot be parsed as its detected format
+ */
+export async function extractDocument(bytes: Uint8Array, filename: string, format: DocumentFormat): Promise<Extraction> {
+  switch (format) {
+    case 'pdf':
+      return extractPdf(bytes);
+    case 'docx':
+      return extractDocx(bytes);
+    default: {
+      const text = new TextDecoder().decode(bytes);
+      switch (format) {
+        case 'html':
+          return extractHtmlString(text, 'html');
+        case 'csv':
+        case 'tsv':
+          return extractDelimited(text, format);
+        case 'markdown':
+          return extractMarkdown(text);
+        default:
+          // Source and plain text keep their exact layout
+          return assemble(format, [{ kind: 'file', title: filename, text: text.replace(/\r\n?/g, '\n').trim() }]);
+      }
+    }
+  }
+}
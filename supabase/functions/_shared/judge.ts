@@ -0,0 +1,140 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { ChatUser } from "./auth.ts";
+import type { LogStep } from "./log.ts";
+import { recordTokenUsage } from "./quota.ts";
+import { computeCostUsd } from "./pricing.ts";
+import { completeText } from "./providers.ts";
+
+// Judge mode
+//
+// A judge model scores anonymized answers to one prompt. Shared by arena
+// rounds (judge-round) and batch evaluations (judge-eval).
+
+const CRITERIA = ['accuracy', 'helpfulness', 'clarity', 'depth'] as const;
+const LABELS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+const SYSTEM_PROMPT = `You are an impartial judge comparing answers from different AI assistants to the same prompt. The answers are anonymized; judge only their content, not their style of self-reference. Score each answer from 1 (poor) to 10 (excellent) on each criterion: ${CRITERIA.join(', ')}. Then rank the answers from best to worst.
+
+Respond with JSON only, no prose and no code fences, in exactly this shape:
+{"ranking": ["<label>", ...], "scores": {"<label>": {${CRITERIA.map(c => `"${c}": <1-10>`).join(', ')}}}, "rationale": "<a short paragraph referring to answers by label>"}`;
+
+export interface Answer {
+  provider: string;
+  content: string;
+}
+
+// Verdict as stored in round_verdicts.verdict and eval_prompts.verdict,
+// keyed by provider id
+export interface Verdict {
+  criteria: string[];
+  ranking: string[];
+  scores: Record<string, Record<string, number>>;
+  rationale: string;
+  // Label shown to the judge -> provider id, so the rationale can be read back
+  labels: Record<string, string>;
+}
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const clampScore = (value: unknown) => {
+  const score = Math.round(Number(value));
+  return Number.isFinite(score) ? Math.min(10, Math.max(1, score)) : null;
+};
+
+/**
+ * Parses the judge's JSON reply and maps anonymized labels back to providers
+ * @throws Error when the reply is not a usable verdict
+ */
+function parseVerdict(text: string, labels: Record<string, string>): Verdict {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error('Judge did not return JSON');
+
+  const raw = JSON.parse(text.slice(start, end + 1));
+  const known = Object.keys(labels);
+
+  const ranking = (Array.isArray(raw.ranking) ? raw.ranking : [])
+    .map((label: unknown) => String(label).trim().toUpperCase())
+    .filter((label: string, index: number, all: string[]) => known.includes(label) && all.indexOf(label) === index);
+  // Anything the judge left out is ranked last, in label order
+  for (const label of known) {
+    if (!ranking.includes(label)) ranking.push(label);
+  }
+
+  const scores: Record<string, Record<string, number>> = {};
+  for (const label of known) {
+    const rawScores = raw.scores?.[label] ?? {};
+    scores[labels[label]] = {};
+    for (const criterion of CRITERIA) {
+      const score = clampScore(rawScores[criterion]);
+      if (score !== null) scores[labels[label]][criterion] = score;
+    }
+  }
+
+  return {
+    criteria: [...CRITERIA],
+    ranking: ranking.map((label: string) => labels[label]),
+    scores,
+    rationale: typeof raw.rationale === 'string' ? raw.rationale : '',
+    labels,
+  };
+}
+
+export interface JudgeResult {
+  verdict: Verdict;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Has the judge score the answers in random order and records its usage
+ * @throws Error when the judge's reply is not a usable verdict
+ */
+export async function judgeAnswers(
+  serviceClient: SupabaseClient,
+  user: ChatUser,
+  judgeProvider: string,
+  prompt: string,
+  answers: Answer[],
+  logStep: LogStep,
+): Promise<JudgeResult> {
+  const labels: Record<string, string> = {};
+  const answerBlocks = shuffle(answers).map((answer, index) => {
+    labels[LABELS[index]] = answer.provider;
+    return `### Answer ${LABELS[index]}\n${answer.content}`;
+  });
+
+  const completion = await completeText(judgeProvider, SYSTEM_PROMPT, [{
+    role: 'user',
+    content: `## Prompt\n${prompt}\n\n## Answers\n${answerBlocks.join('\n\n')}`,
+  }]);
+  const costUsd = computeCostUsd(completion.model, completion.inputTokens, completion.outputTokens);
+
+  await recordTokenUsage(serviceClient, user, {
+    provider: judgeProvider,
+    modelId: completion.model,
+    inputTokens: completion.inputTokens,
+    outputTokens: completion.outputTokens,
+    costUsd,
+  }, logStep);
+
+  const verdict = parseVerdict(completion.text, labels);
+  logStep("Verdict parsed", { ranking: verdict.ranking });
+
+  return {
+    verdict,
+    model: completion.model,
+    inputTokens: completion.inputTokens,
+    outputTokens: completion.outputTokens,
+    costUsd,
+  };
+}
@@ -0,0 +1,153 @@
+// Ledger entry types
+//
+// Every entry_type has a JSON schema for its body_json. save-to-ledger
+// rejects bodies that do not match; the Memories page renders a form from
+// the same schemas. Keep in sync with src/lib/ledgerTypes.ts.
+//
+// Only the JSON Schema keywords used below are supported by validateBody.
+// Properties not listed in a schema are allowed, so older bodies with extra
+// fields (agent_id, entry_type) still validate.
+
+export interface FieldSchema {
+  type: 'string' | 'array';
+  title: string;
+  description?: string;
+  enum?: string[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'date-time';
+  items?: { type: 'string'; pattern?: string; maxLength?: number };
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface EntrySchema {
+  $id: string;
+  title: string;
+  description: string;
+  type: 'object';
+  required: string[];
+  properties: Record<string, FieldSchema>;
+}
+
+const HASH_PATTERN = '^[0-9a-f]{64}$';
+
+// Set by the client on every entry
+const BASE_PROPERTIES: Record<string, FieldSchema> = {
+  actor: { type: 'string', title: 'Actor', description: 'User id of the author', minLength: 1 },
+  timestamp: { type: 'string', title: 'Timestamp', format: 'date-time' },
+};
+
+// Pins and memories hold whole chat replies, so they are not capped
+const content = (title: string, description: string, maxLength: number | null = 8000): FieldSchema =>
+  ({ type: 'string', title, description, minLength: 1, ...(maxLength === null ? {} : { maxLength }) });
+
+const schema = (
+  id: string,
+  title: string,
+  description: string,
+  required: string[],
+  properties: Record<string, FieldSchema>,
+): EntrySchema => ({
+  $id: `ledger-entry/${id}`,
+  title,
+  description,
+  type: 'object',
+  required: ['content', 'actor', ...required],
+  properties: { ...properties, ...BASE_PROPERTIES },
+});
+
+export const ENTRY_SCHEMAS: Record<string, EntrySchema> = {
+  memory: schema('memory', 'Memory', 'Something the agent should remember', [], {
+    content: content('Memory', 'What to remember', null),
+    tags: { type: 'array', title: 'Tags', items: { type: 'string', maxLength: 40 }, maxItems: 20 },
+  }),
+  context: schema('context', 'Context', 'Background the agent works within', [], {
+    content: content('Context', 'The background itself'),
+    scope: { type: 'string', title: 'Scope', enum: ['session', 'project', 'global'] },
+    source: { type: 'string', title: 'Source', description: 'Where this came from', maxLength: 500 },
+  }),
+  experience: schema('experience', 'Experience', 'Something that happened and what it taught', [], {
+    content: content('What happened', 'The event or attempt'),
+    outcome: { type: 'string', title: 'Outcome', enum: ['success', 'failure', 'mixed'] },
+    lesson: { type: 'string', title: 'Lesson', maxLength: 2000 },
+  }),
+  consolidation: schema('consolidation', 'Consolidation', 'A summary that supersedes several entries', ['source_hashes'], {
+    content: content('Summary', 'The consolidated memory'),
+    source_hashes: {
+      type: 'array',
+      title: 'Source hashes',
+      description: 'body_hash of each consolidated entry',
+      items: { type: 'string', pattern: HASH_PATTERN },
+      minItems: 1,
+      maxItems: 200,
+    },
+    source_ids: { type: 'array', title: 'Source entry ids', items: { type: 'string', maxLength: 100 }, maxItems: 200 },
+    model: { type: 'string', title: 'Drafted by', description: 'Model that drafted the summary', maxLength: 100 },
+  }),
+  anchor_memory: schema('anchor_memory', 'Anchor Memory', 'A core memory that should always hold', [], {
+    content: content('Anchor', 'The memory to anchor'),
+    importance: { type: 'string', title: 'Importance', enum: ['normal', 'high', 'critical'] },
+  }),
+  pin: schema('pin', 'Pin', 'A chat message saved to the ledger', [], {
+    content: content('Message', 'The pinned message', null),
+    message_id: { type: 'string', title: 'Message id', maxLength: 100 },
+    session_id: { type: 'string', title: 'Session id', maxLength: 100 },
+  }),
+  decision: schema('decision', 'Decision', 'A decision and why it was made', ['rationale'], {
+    content: content('Decision', 'What was decided'),
+    rationale: { type: 'string', title: 'Rationale', minLength: 1, maxLength: 4000 },
+    alternatives: { type: 'array', title: 'Alternatives considered', items: { type: 'string', maxLength: 500 }, maxItems: 20 },
+    status: { type: 'string', title: 'Status', enum: ['proposed', 'accepted', 'superseded'] },
+  }),
+};
+
+function validateString(path: string, value: unknown, field: Pick<FieldSchema, 'enum' | 'minLength' | 'maxLength' | 'pattern' | 'format'>): string[] {
+  if (typeof value !== 'string') return [`${path} must be a string`];
+  const problems: string[] = [];
+  if (field.enum && !field.enum.includes(value)) problems.push(`${path} must be one of ${field.enum.join(', ')}`);
+  if (field.minLength !== undefined && value.trim().length < field.minLength) problems.push(`${path} must not be empty`);
+  if (field.maxLength !== undefined && value.length > field.maxLength) problems.push(`${path} must be at most ${field.maxLength} characters`);
+  if (field.pattern && !new RegExp(field.pattern).test(value)) problems.push(`${path} is not in the expected format`);
+  if (field.format === 'date-time' && Number.isNaN(Date.parse(value))) problems.push(`${path} must be a date and time`);
+  return problems;
+}
+
+// Agents that predate the registry post { id, t, actor, summary }. Their
+// summary counts as the content; the body is stored as sent.
+const withLegacyContent = (body: Record<string, unknown>): Record<string, unknown> =>
+  body.content === undefined && typeof body.summary === 'string' ? { ...body, content: body.summary } : body;
+
+/**
+ * Problems with `body` as a body of `entryType`; empty when it is valid
+ */
+export function validateBody(entryType: string, body: Record<string, unknown>): string[] {
+  const entrySchema = ENTRY_SCHEMAS[entryType];
+  if (!entrySchema) return [`entry_type must be one of ${Object.keys(ENTRY_SCHEMAS).join(', ')}`];
+  body = withLegacyContent(body);
+
+  const problems = entrySchema.required
+    .filter(key => body[key] === undefined || body[key] === null)
+    .map(key => `${key} is required`);
+
+  for (const [key, field] of Object.entries(entrySchema.properties)) {
+    const value = body[key];
+    if (value === undefined || value === null) continue;
+
+    if (field.type === 'string') {
+      problems.push(...validateString(key, value, field));
+      continue;
+    }
+
+    if (!Array.isArray(value)) {
+      problems.push(`${key} must be an array`);
+      continue;
+    }
+    if (field.minItems !== undefined && value.length < field.minItems) problems.push(`${key} needs at least ${field.minItems} items`);
+    if (field.maxItems !== undefined && value.length > field.maxItems) problems.push(`${key} allows at most ${field.maxItems} items`);
+    value.forEach((item, index) => problems.push(...validateString(`${key}[${index}]`, item, field.items ?? {})));
+  }
+
+  return problems;
+}
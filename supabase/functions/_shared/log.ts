@@ -0,0 +1,6 @@
+export type LogStep = (step: string, details?: any) => void;
+
+export const createLogger = (tag: string): LogStep => (step, details) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${tag}] ${step}${detailsStr}`);
+};
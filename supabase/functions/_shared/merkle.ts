@@ -0,0 +1,80 @@
+// Merkle trees over ledger entries
+//
+// Leaves are the entries' body_hash values in batch order. Hashing follows
+// RFC 6962: a 0x00 prefix for leaves and 0x01 for inner nodes, so a leaf can
+// never be passed off as an inner node. A node without a sibling moves up a
+// level unchanged. Keep in sync with src/lib/merkle.ts, which verifies the
+// proofs written here.
+
+export const MERKLE_SCHEME = 'sha256-rfc6962';
+
+export interface ProofStep {
+  hash: string;
+  // Side the sibling sits on
+  position: 'left' | 'right';
+}
+
+export interface MerkleTree {
+  root: string;
+  leaves: string[];
+  // levels[0] is the leaves, the last level holds only the root
+  levels: string[][];
+}
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) =>
+  new Uint8Array(hex.match(/../g)!.map(pair => parseInt(pair, 16)));
+
+async function sha256(parts: Uint8Array[]): Promise<string> {
+  const data = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+}
+
+// body_hash is hashed as the text of its normalized hex form
+export const leafHash = (bodyHash: string) =>
+  sha256([new Uint8Array([0]), encoder.encode(bodyHash.trim().toLowerCase().replace(/^(0x|\\x)/, ''))]);
+
+export const nodeHash = (left: string, right: string) =>
+  sha256([new Uint8Array([1]), fromHex(left), fromHex(right)]);
+
+export async function buildMerkleTree(bodyHashes: string[]): Promise<MerkleTree> {
+  if (bodyHashes.length === 0) throw new Error('Cannot build a tree without leaves');
+
+  const leaves = await Promise.all(bodyHashes.map(leafHash));
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await nodeHash(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+
+  return { root: levels[levels.length - 1][0], leaves, levels };
+}
+
+/**
+ * Sibling hashes from a leaf up to the root
+ */
+export function inclusionProof(tree: MerkleTree, leafIndex: number): ProofStep[] {
+  const path: ProofStep[] = [];
+  let index = leafIndex;
+  for (const level of tree.levels.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < level.length) {
+      path.push({ hash: level[sibling], position: index % 2 === 0 ? 'right' : 'left' });
+    }
+    index = Math.floor(index / 2);
+  }
+  return path;
+}
@@ -0,0 +1,18 @@
+// USD per million tokens. Keep in sync with the providers' published price
+// lists; unknown models are recorded with a cost of 0.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'claude-haiku-4-5-20251001': { input: 1.0, output: 5.0 },
+  'claude-sonnet-4-5-20250929': { input: 3.0, output: 15.0 },
+  'gpt-5-mini-2025-08-07': { input: 0.25, output: 2.0 },
+  'gpt-5-2025-08-07': { input: 1.25, output: 10.0 },
+  'gpt-4.1-2025-04-14': { input: 2.0, output: 8.0 },
+  'deepseek-chat': { input: 0.28, output: 0.42 },
+  'deepseek-reasoner': { input: 0.28, output: 0.42 },
+};
+
+export function computeCostUsd(modelId: string, inputTokens: number, outputTokens: number): number {
+  const pricing = MODEL_PRICING[modelId];
+  if (!pricing) return 0;
+  const cost = (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,110 @@
+import type { UpstreamFormat } from "./sse.ts";
+import { postProvider } from "./sse.ts";
+
+// Upstream API details per registry id (ai_providers.id / src/lib/providers.ts)
+export interface ProviderApi {
+  label: string;
+  url: string;
+  model: string;
+  apiKeyEnv: string;
+  format: UpstreamFormat;
+  // Tokens of retrieved document context injected per prompt (see rag.ts)
+  contextTokenBudget: number;
+  // Whether the model accepts image parts (see vision.ts)
+  vision: boolean;
+  // Request field for the output token limit
+  maxTokensField: 'max_tokens' | 'max_completion_tokens';
+}
+
+export const PROVIDER_APIS: Record<string, ProviderApi> = {
+  chatgpt: {
+    label: 'OpenAI',
+    url: 'https://api.openai.com/v1/chat/completions',
+    model: 'gpt-5-mini-2025-08-07',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    format: 'openai',
+    contextTokenBudget: 6000,
+    vision: true,
+    maxTokensField: 'max_completion_tokens',
+  },
+  claude: {
+    label: 'Anthropic',
+    url: 'https://api.anthropic.com/v1/messages',
+    model: 'claude-haiku-4-5-20251001',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    format: 'anthropic',
+    contextTokenBudget: 8000,
+    vision: true,
+    maxTokensField: 'max_tokens',
+  },
+  deepseek: {
+    label: 'DeepSeek',
+    url: 'https://api.deepseek.com/v1/chat/completions',
+    model: 'deepseek-chat',
+    apiKeyEnv: 'DEEPSEEK_API_KEY',
+    format: 'openai',
+    contextTokenBudget: 4000,
+    vision: false,
+    maxTokensField: 'max_tokens',
+  },
+};
+
+export const authHeaders = (api: ProviderApi, apiKey: string): Record<string, string> =>
+  api.format === 'anthropic'
+    ? { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' }
+    : { 'Authorization': `Bearer ${apiKey}` };
+
+export interface CompletionResult {
+  text: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * One-shot, non-streaming completion against any registered provider. Used
+ * for background work (judging, summaries) rather than user-facing chat.
+ */
+export async function completeText(
+  providerId: string,
+  system: string,
+  messages: { role: string; content: unknown }[],
+  maxTokens = 4096,
+): Promise<CompletionResult> {
+  const api = PROVIDER_APIS[providerId];
+  if (!api) throw new Error(`Unknown provider: ${providerId}`);
+
+  const apiKey = Deno.env.get(api.apiKeyEnv);
+  if (!apiKey) throw new Error(`${api.label} API key not configured`);
+
+  if (api.format === 'anthropic') {
+    const response = await postProvider(api.url, authHeaders(api, apiKey), {
+      model: api.model,
+      max_tokens: maxTokens,
+      system,
+      messages,
+      stream: false
+    }, api.label);
+    const data = await response.json();
+    return {
+      text: (data.content ?? []).filter((c: { type: string }) => c.type === 'text').map((c: { text: string }) => c.text).join(''),
+      model: api.model,
+      inputTokens: data.usage?.input_tokens ?? 0,
+      outputTokens: data.usage?.output_tokens ?? 0,
+    };
+  }
+
+  const response = await postProvider(api.url, authHeaders(api, apiKey), {
+    model: api.model,
+    messages: [{ role: 'system', content: system }, ...messages],
+    [api.maxTokensField]: maxTokens,
+    stream: false
+  }, api.label);
+  const data = await response.json();
+  return {
+    text: data.choices?.[0]?.message?.content ?? '',
+    model: api.model,
+    inputTokens: data.usage?.prompt_tokens ?? 0,
+    outputTokens: data.usage?.completion_tokens ?? 0,
+  };
+}
@@ -0,0 +1,210 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { ChatUser } from "./auth.ts";
+import type { LogStep } from "./log.ts";
+import { PROVIDER_APIS } from "./providers.ts";
+import { jsonResponse } from "./sse.ts";
+
+// Quota policy
+//
+// Limits are per user per UTC day. A null limit means unlimited.
+//
+// Fan-out sends: the client tags every request with a `sendId`. All requests
+// that share a sendId (the three replies to one "All AIs" send, a forward, or
+// one round of a debate) count as ONE message against `dailyMessages`. Tokens are always counted per
+// reply, so a fan-out send costs the sum of its replies' tokens. A sendId is
+// counted once per day and allows at most MAX_REQUESTS_PER_SEND requests, so
+// replaying one cannot bypass the message limit.
+//
+// Token limits are checked before a request starts, using what has already
+// been recorded today. A reply that crosses the limit is allowed to finish;
+// the next request is refused.
+
+export type QuotaTier = 'free' | 'premium';
+
+export interface QuotaPolicy {
+  dailyMessages: number | null;
+  dailyTokens: number | null;
+  // Per-provider token caps, keyed by ai_providers.id
+  providerDailyTokens: Record<string, number>;
+}
+
+export const QUOTA_POLICIES: Record<QuotaTier, QuotaPolicy> = {
+  free: {
+    dailyMessages: 20,
+    dailyTokens: 200_000,
+    providerDailyTokens: { claude: 50_000 },
+  },
+  premium: {
+    dailyMessages: null,
+    dailyTokens: null,
+    providerDailyTokens: {},
+  },
+};
+
+export interface QuotaStatus {
+  tier: QuotaTier;
+  policy: QuotaPolicy;
+  usage: {
+    messages: number;
+    tokens: number;
+    providerTokens: Record<string, number>;
+  };
+  remaining: {
+    messages: number | null;
+    tokens: number | null;
+    providerTokens: Record<string, number>;
+  };
+  canSendMessage: boolean;
+}
+
+// One send is at most a reply and a history summary from every provider,
+// plus a judge or moderator call
+export const MAX_REQUESTS_PER_SEND = Object.keys(PROVIDER_APIS).length * 2 + 1;
+
+export const getQuotaTier = (user: ChatUser): QuotaTier => user.isSubscribed ? 'premium' : 'free';
+
+const remainingOf = (limit: number | null, used: number) =>
+  limit === null ? null : Math.max(0, limit - used);
+
+/**
+ * Reads today's usage for a user and evaluates it against their tier
+ */
+export async function getQuotaStatus(serviceClient: SupabaseClient, user: ChatUser): Promise<QuotaStatus> {
+  const tier = getQuotaTier(user);
+  const policy = QUOTA_POLICIES[tier];
+  const today = new Date().toISOString().split('T')[0];
+
+  const [messagesResult, tokensResult] = await Promise.all([
+    serviceClient
+      .from('daily_usage')
+      .select('message_count')
+      .eq('user_id', user.userId)
+      .eq('date', today)
+      .maybeSingle(),
+    serviceClient
+      .from('token_usage_daily')
+      .select('provider, input_tokens, output_tokens')
+      .eq('user_id', user.userId)
+      .eq('date', today),
+  ]);
+
+  const messages = messagesResult.data?.message_count ?? 0;
+  const providerTokens: Record<string, number> = {};
+  let tokens = 0;
+  for (const row of tokensResult.data ?? []) {
+    const rowTokens = Number(row.input_tokens) + Number(row.output_tokens);
+    providerTokens[row.provider] = (providerTokens[row.provider] ?? 0) + rowTokens;
+    tokens += rowTokens;
+  }
+
+  const remainingProviderTokens: Record<string, number> = {};
+  for (const [provider, cap] of Object.entries(policy.providerDailyTokens)) {
+    remainingProviderTokens[provider] = Math.max(0, cap - (providerTokens[provider] ?? 0));
+  }
+
+  const remaining = {
+    messages: remainingOf(policy.dailyMessages, messages),
+    tokens: remainingOf(policy.dailyTokens, tokens),
+    providerTokens: remainingProviderTokens,
+  };
+
+  return {
+    tier,
+    policy,
+    usage: { messages, tokens, providerTokens },
+    remaining,
+    canSendMessage: remaining.messages !== 0 && remaining.tokens !== 0,
+  };
+}
+
+const limitResponse = (error: string, reason: string, status: QuotaStatus) =>
+  jsonResponse({ error, limitReached: true, reason, quota: status }, 429);
+
+/**
+ * Checks the caller's token budget and consumes one message unit for the
+ * send (once per sendId).
+ * @returns An error response when the request must be refused, otherwise null
+ */
+export async function enforceQuota(
+  serviceClient: SupabaseClient,
+  user: ChatUser,
+  provider: string,
+  sendId: string | undefined,
+  logStep: LogStep,
+): Promise<Response | null> {
+  if (!user.userId) {
+    return jsonResponse({ error: 'Please sign in to chat.' }, 401);
+  }
+
+  const status = await getQuotaStatus(serviceClient, user);
+  logStep("Quota status", { tier: status.tier, usage: status.usage });
+
+  if (status.remaining.tokens === 0) {
+    logStep("Daily token limit exceeded");
+    return limitResponse('Daily token limit reached. Please subscribe for unlimited access.', 'tokens', status);
+  }
+
+  if (status.remaining.providerTokens[provider] === 0) {
+    logStep("Provider token limit exceeded", { provider });
+    return limitResponse('Daily limit for this model reached. Try another model or subscribe for unlimited access.', 'provider_tokens', status);
+  }
+
+  const { data, error } = await serviceClient.rpc('consume_message_quota', {
+    p_user_id: user.userId,
+    p_send_id: sendId ?? crypto.randomUUID(),
+    p_limit: status.policy.dailyMessages,
+    p_max_requests: MAX_REQUESTS_PER_SEND,
+  });
+
+  if (error) {
+    logStep("Error consuming message quota", { error });
+    return null;
+  }
+
+  const result = Array.isArray(data) ? data[0] : data;
+  logStep("Message quota", result);
+
+  if (result && !result.allowed && result.reason === 'send_reused') {
+    logStep("Send id reused", { sendId });
+    return jsonResponse({ error: 'This send was already used up. Please send the message again.' }, 409);
+  }
+
+  if (result && !result.allowed) {
+    return limitResponse('Daily message limit reached. Please subscribe for unlimited access.', 'messages', status);
+  }
+
+  return null;
+}
+
+export interface TokenUsage {
+  provider: string;
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+// Adds one reply's tokens to the user's daily rollup
+export async function recordTokenUsage(
+  serviceClient: SupabaseClient,
+  user: ChatUser,
+  usage: TokenUsage,
+  logStep: LogStep,
+): Promise<void> {
+  if (!user.userId) return;
+
+  const { error } = await serviceClient.rpc('record_token_usage', {
+    p_user_id: user.userId,
+    p_provider: usage.provider,
+    p_model_id: usage.modelId,
+    p_input_tokens: usage.inputTokens,
+    p_output_tokens: usage.outputTokens,
+    p_cost_usd: usage.costUsd,
+  });
+
+  if (error) {
+    logStep("Error recording token usage", { error });
+  } else {
+    logStep("Token usage recorded", usage);
+  }
+}
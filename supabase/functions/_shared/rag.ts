@@ -0,0 +1,357 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { LogStep } from "./log.ts";
+import { embedTexts, toVectorLiteral } from "./embeddings.ts";
+import { PROVIDER_APIS } from "./providers.ts";
+import type { DocumentSection } from "./extract.ts";
+
+// What the client attached to a send. Retrieval only ever looks inside this
+// scope; it never pulls in documents the user did not choose.
+export interface ContextScope {
+  knowledgeIds?: string[];
+  fileIds?: string[];
+  includeResearch?: boolean;
+}
+
+export type ChunkSource = 'knowledge_base' | 'research_library' | 'chat_files';
+
+// A chunk as reported to the client in the `context` stream event and
+// stored on messages.context_chunks
+export interface ContextChunkRef {
+  id: string;
+  sourceType: ChunkSource;
+  sourceId: string;
+  title: string;
+  chunkIndex: number;
+  tokens: number;
+  score: number;
+  excerpt: string;
+}
+
+interface SourceDocument {
+  sourceType: ChunkSource;
+  sourceId: string;
+  title: string;
+  content: string;
+  // Page/section offsets from ingestion; chunks never straddle two sections
+  sections?: DocumentSection[] | null;
+}
+
+interface MatchedChunk {
+  id: string;
+  source_type: ChunkSource;
+  source_id: string;
+  chunk_index: number;
+  title: string;
+  content: string;
+  token_count: number;
+  score: number;
+}
+
+const CHUNK_CHARS = 1600;
+const CHUNK_OVERLAP_CHARS = 200;
+const EXCERPT_CHARS = 240;
+// Documents chunked per request; a large research library catches up over
+// a few sends instead of stalling one
+const MAX_DOCUMENTS_PER_REQUEST = 20;
+// Chunks left without an embedding (the embeddings call failed) that are
+// retried per request
+const MAX_PENDING_EMBEDDINGS = 64;
+const DEFAULT_CONTEXT_BUDGET = 4000;
+
+// Rough count, good enough for budgeting (~4 characters per token)
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Token budget for retrieved context. Defaults live in PROVIDER_APIS and can
+ * be overridden per deployment with CONTEXT_BUDGET_<PROVIDER>.
+ */
+export function contextBudgetFor(provider: string): number {
+  const override = Number(Deno.env.get(`CONTEXT_BUDGET_${provider.toUpperCase()}`));
+  if (Number.isFinite(override) && override > 0) return override;
+  return PROVIDER_APIS[provider]?.contextTokenBudget ?? DEFAULT_CONTEXT_BUDGET;
+}
+
+/**
+ * Splits text into overlapping chunks on paragraph boundaries where possible
+ */
+export function chunkText(text: string): string[] {
+  // Overly long paragraphs are cut into overlapping windows first
+  const pieces = text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => {
+      if (paragraph.length <= CHUNK_CHARS) return [paragraph];
+      const windows: string[] = [];
+      for (let start = 0; start < paragraph.length; start += CHUNK_CHARS - CHUNK_OVERLAP_CHARS) {
+        windows.push(paragraph.slice(start, start + CHUNK_CHARS));
+      }
+      return windows;
+    });
+
+  const chunks: string[] = [];
+  let current = '';
+  // Whether current holds more than the overlap carried from the last chunk
+  let fresh = false;
+
+  const flush = () => {
+    if (!fresh) return;
+    chunks.push(current);
+    // Carry the tail over so a thought split across chunks stays findable
+    current = current.slice(-CHUNK_OVERLAP_CHARS);
+    fresh = false;
+  };
+
+  for (const piece of pieces) {
+    if (current.length + piece.length + 2 > CHUNK_CHARS) flush();
+    if (current.length + piece.length + 2 > CHUNK_CHARS) current = '';
+    current = current ? `${current}\n\n${piece}` : piece;
+    fresh = true;
+  }
+  flush();
+
+  return chunks;
+}
+
+// Loads the documents in scope that belong to the user
+async function loadScopeDocuments(
+  serviceClient: SupabaseClient,
+  userId: string,
+  scope: ContextScope,
+): Promise<SourceDocument[]> {
+  const documents: SourceDocument[] = [];
+
+  if (scope.knowledgeIds?.length) {
+    const { data, error } = await serviceClient
+      .from('knowledge_base')
+      .select('id, title, content')
+      .eq('user_id', userId)
+      .in('id', scope.knowledgeIds);
+    if (error) throw error;
+    for (const row of data ?? []) {
+      documents.push({ sourceType: 'knowledge_base', sourceId: row.id, title: row.title, content: row.content });
+    }
+  }
+
+  if (scope.fileIds?.length) {
+    const { data, error } = await serviceClient
+      .from('chat_files')
+      .select('id, session_id, filename, content_preview, extracted_text, structure')
+      .in('id', scope.fileIds);
+    if (error) throw error;
+
+    // chat_files has no owner column; ownership comes from the session
+    const { data: sessions, error: sessionsError } = await serviceClient
+      .from('chat_sessions')
+      .select('id')
+      .eq('user_id', userId)
+      .in('id', [...new Set((data ?? []).map(row => row.session_id))]);
+    if (sessionsError) throw sessionsError;
+    const owned = new Set((sessions ?? []).map(row => row.id));
+
+    for (const row of data ?? []) {
+      if (!owned.has(row.session_id)) continue;
+      documents.push({
+        sourceType: 'chat_files',
+        sourceId: row.id,
+        title: row.filename,
+        content: row.extracted_text ?? row.content_preview ?? '',
+        sections: row.extracted_text ? row.structure as DocumentSection[] | null : null,
+      });
+    }
+  }
+
+  if (scope.includeResearch) {
+    const { data, error } = await serviceClient
+      .from('research_library')
+      .select('id, title, content')
+      .eq('user_id', userId);
+    if (error) throw error;
+    for (const row of data ?? []) {
+      documents.push({ sourceType: 'research_library', sourceId: row.id, title: row.title, content: row.content });
+    }
+  }
+
+  return documents;
+}
+
+// Chunks a document section by section, labelling each chunk with the
+// page or heading it came from
+function chunkDocument(doc: SourceDocument): { title: string; content: string }[] {
+  if (!doc.sections?.length) {
+    return chunkText(doc.content).map(content => ({ title: doc.title, content }));
+  }
+
+  return doc.sections.flatMap(section =>
+    chunkText(doc.content.slice(section.start, section.end)).map(content => ({
+      title: section.kind === 'file' ? doc.title : `${doc.title} · ${section.title}`,
+      content,
+    }))
+  );
+}
+
+/**
+ * Chunks and embeds documents in scope that have no chunks yet (new, or
+ * invalidated by an edit)
+ */
+async function ensureChunks(
+  serviceClient: SupabaseClient,
+  userId: string,
+  documents: SourceDocument[],
+  logStep: LogStep,
+): Promise<void> {
+  if (documents.length === 0) return;
+
+  const { data: existing, error } = await serviceClient
+    .from('document_chunks')
+    .select('source_id')
+    .eq('user_id', userId)
+    .in('source_id', documents.map(doc => doc.sourceId));
+  if (error) throw error;
+
+  const chunked = new Set((existing ?? []).map(row => row.source_id));
+  const pending = documents
+    .filter(doc => !chunked.has(doc.sourceId) && doc.content.trim())
+    .slice(0, MAX_DOCUMENTS_PER_REQUEST);
+  if (pending.length === 0) return;
+
+  const rows = pending.flatMap(doc => chunkDocument(doc).map(({ title, content }, chunkIndex) => ({
+    user_id: userId,
+    source_type: doc.sourceType,
+    source_id: doc.sourceId,
+    chunk_index: chunkIndex,
+    title,
+    content,
+    token_count: estimateTokens(content),
+    embedding: null as string | null,
+  })));
+
+  // Unembedded chunks still match on full text, and embedPendingChunks
+  // retries them on later requests
+  try {
+    const embeddings = await embedTexts(rows.map(row => `${row.title}\n\n${row.content}`), logStep);
+    embeddings?.forEach((embedding, index) => {
+      rows[index].embedding = toVectorLiteral(embedding);
+    });
+  } catch (error) {
+    logStep("Chunk embedding failed", { error: error instanceof Error ? error.message : String(error) });
+  }
+
+  const { error: insertError } = await serviceClient
+    .from('document_chunks')
+    .upsert(rows, { onConflict: 'source_type,source_id,chunk_index' });
+  if (insertError) throw insertError;
+
+  logStep("Chunked documents", { documents: pending.length, chunks: rows.length });
+}
+
+/**
+ * Embeds chunks in scope that were stored without an embedding because the
+ * embeddings call failed when they were chunked. Bounded per request like
+ * ensureChunks; failures are logged and retried next time.
+ */
+async function embedPendingChunks(
+  serviceClient: SupabaseClient,
+  userId: string,
+  documents: SourceDocument[],
+  logStep: LogStep,
+): Promise<void> {
+  if (documents.length === 0) return;
+
+  const { data: pending, error } = await serviceClient
+    .from('document_chunks')
+    .select('id, title, content')
+    .eq('user_id', userId)
+    .in('source_id', documents.map(doc => doc.sourceId))
+    .is('embedding', null)
+    .limit(MAX_PENDING_EMBEDDINGS);
+  if (error) throw error;
+  if (!pending?.length) return;
+
+  try {
+    const vectors = await embedTexts(pending.map(chunk => `${chunk.title}\n\n${chunk.content}`), logStep);
+    if (!vectors) return;
+
+    await Promise.all(pending.map((chunk, index) =>
+      serviceClient
+        .from('document_chunks')
+        .update({ embedding: toVectorLiteral(vectors[index]) })
+        .eq('id', chunk.id)
+    ));
+    logStep("Embedded pending chunks", { count: pending.length });
+  } catch (error) {
+    logStep("Pending chunk embedding failed", { error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Picks the chunks most relevant to a prompt that fit the token budget
+ */
+export async function retrieveContext(
+  serviceClient: SupabaseClient,
+  userId: string,
+  query: string,
+  scope: ContextScope,
+  budgetTokens: number,
+  logStep: LogStep,
+): Promise<MatchedChunk[]> {
+  const documents = await loadScopeDocuments(serviceClient, userId, scope);
+  if (documents.length === 0) return [];
+
+  await embedPendingChunks(serviceClient, userId, documents, logStep);
+  await ensureChunks(serviceClient, userId, documents, logStep);
+
+  let queryEmbedding: string | null = null;
+  try {
+    const [embedding] = (await embedTexts([query], logStep)) ?? [];
+    if (embedding) queryEmbedding = toVectorLiteral(embedding);
+  } catch (error) {
+    logStep("Query embedding failed, ranking on full text", { error: error instanceof Error ? error.message : String(error) });
+  }
+
+  const { data, error } = await serviceClient.rpc('match_document_chunks', {
+    p_user_id: userId,
+    p_query: query,
+    p_query_embedding: queryEmbedding,
+    p_knowledge_ids: scope.knowledgeIds ?? [],
+    p_file_ids: scope.fileIds ?? [],
+    p_include_research: scope.includeResearch === true,
+  });
+  if (error) throw error;
+
+  const selected: MatchedChunk[] = [];
+  let used = 0;
+  for (const chunk of (data ?? []) as MatchedChunk[]) {
+    if (used + chunk.token_count > budgetTokens) continue;
+    selected.push(chunk);
+    used += chunk.token_count;
+  }
+
+  logStep("Context retrieved", { candidates: data?.length ?? 0, selected: selected.length, tokens: used, budgetTokens });
+  return selected;
+}
+
+/**
+ * Renders retrieved chunks as a prompt preamble, grouped in document order
+ */
+export function formatRetrievedContext(chunks: MatchedChunk[]): string {
+  if (chunks.length === 0) return '';
+
+  const ordered = [...chunks].sort((a, b) =>
+    a.source_id === b.source_id ? a.chunk_index - b.chunk_index : a.title.localeCompare(b.title)
+  );
+  const blocks = ordered.map(chunk => `[${chunk.title} · part ${chunk.chunk_index + 1}]\n${chunk.content}`);
+  return `--- Retrieved Context ---\n${blocks.join('\n\n')}`;
+}
+
+export const toChunkRefs = (chunks: MatchedChunk[]): ContextChunkRef[] =>
+  chunks.map(chunk => ({
+    id: chunk.id,
+    sourceType: chunk.source_type,
+    sourceId: chunk.source_id,
+    title: chunk.title,
+    chunkIndex: chunk.chunk_index,
+    tokens: chunk.token_count,
+    score: Number(chunk.score.toFixed(3)),
+    excerpt: chunk.content.length > EXCERPT_CHARS ? `${chunk.content.slice(0, EXCERPT_CHARS)}…` : chunk.content,
+  }));
@@ -0,0 +1,29 @@
+// Retry policy for provider calls
+//
+// Rate limits and server errors are usually transient, so postProvider tries
+// again with exponential backoff before giving up. Only requests that failed
+// before any output was streamed are retried.
+
+export const RETRY_POLICY = {
+  attempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+export const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Delay before retry number `attempt` (1-based). A Retry-After header in
+ * seconds is honored up to the policy's maximum; otherwise the delay doubles
+ * per attempt with jitter so parallel sends don't retry in lockstep.
+ */
+export function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter === null ? NaN : Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, RETRY_POLICY.maxDelayMs);
+  }
+  const exponential = RETRY_POLICY.baseDelayMs * 2 ** (attempt - 1);
+  return Math.min(exponential * (0.5 + Math.random() / 2), RETRY_POLICY.maxDelayMs);
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
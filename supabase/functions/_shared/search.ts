@@ -0,0 +1,94 @@
+import type { LogStep } from "./log.ts";
+import type { EmitEvent } from "./sse.ts";
+
+export interface SearchResult {
+  title: string;
+  snippet: string;
+  url: string;
+}
+
+export const WEB_SEARCH_DESCRIPTION = "Search the web for current events, news, or recent information. Use this when the user asks about recent, current, or time-sensitive information.";
+
+// JSON schema shared by every provider's tool definition
+export const WEB_SEARCH_PARAMETERS = {
+  type: "object",
+  properties: {
+    query: {
+      type: "string",
+      description: "The search query to find current information"
+    }
+  },
+  required: ["query"]
+};
+
+export async function searchWeb(query: string, logStep: LogStep): Promise<SearchResult[]> {
+  try {
+    const braveApiKey = Deno.env.get('BRAVE_API_KEY');
+    
+    if (!braveApiKey) {
+      logStep("Brave API key not configured, skipping search");
+      return [];
+    }
+    
+    const apiUrl = `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=5`;
+    
+    logStep("Calling Brave Search API", { query, apiUrl });
+    
+    const response = await fetch(apiUrl, {
+      headers: {
+        'Accept': 'application/json',
+        'X-Subscription-Token': braveApiKey
+      }
+    });
+
+    if (!response.ok) {
+      logStep("Brave API error", { status: response.status, statusText: response.statusText });
+      return [];
+    }
+
+    const data = await response.json();
+    const results: SearchResult[] = [];
+
+    if (data.web && data.web.results) {
+      for (const result of data.web.results.slice(0, 5)) {
+        results.push({
+          title: result.title || 'No title',
+          snippet: result.description || result.snippet || '',
+          url: result.url
+        });
+      }
+    }
+
+    logStep("Parsed search results", { resultCount: results.length });
+    return results;
+  } catch (error) {
+    logStep("Error searching", { error: error.message });
+    return [];
+  }
+}
+
+export function formatSearchResults(results: SearchResult[]): string {
+  if (results.length === 0) {
+    return "No search results found.";
+  }
+  
+  return results.map((result, index) => 
+    `${index + 1}. ${result.title}\n   ${result.snippet}\n   Source: ${result.url}`
+  ).join('\n\n');
+}
+
+/**
+ * Searches the web on behalf of a tool call, reporting progress to the client
+ * as tool_status events
+ * @returns Results formatted for a tool result message
+ */
+export async function runWebSearchTool(query: string, logStep: LogStep, emit: EmitEvent): Promise<string> {
+  logStep("Executing web search", { query });
+  emit({ type: 'tool_status', tool: 'web_search', status: 'started', query });
+
+  const searchResults = await searchWeb(query, logStep);
+  logStep("Search completed", { resultCount: searchResults.length });
+  emit({ type: 'tool_status', tool: 'web_search', status: 'completed', query, resultCount: searchResults.length });
+
+  return formatSearchResults(searchResults);
+}
@@ -0,0 +1,153 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { ChatUser } from "./auth.ts";
+import type { LogStep } from "./log.ts";
+import { PROVIDER_APIS } from "./providers.ts";
+import { getQuotaTier, type QuotaTier } from "./quota.ts";
+
+// Model allow-list
+//
+// session_settings rows are user-editable, so nothing in them reaches a
+// provider until it has been checked here against the caller's tier. Keep
+// in sync with MODEL_OPTIONS in src/lib/sessionSettings.ts and add prices for
+// new models to pricing.ts.
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  premium: boolean;
+  // Reasoning models reject a temperature parameter
+  temperature: boolean;
+  // Highest temperature the provider accepts (Anthropic stops at 1)
+  maxTemperature: number;
+  maxOutputTokens: number;
+  // Model of the same provider to fail over to when this one keeps failing
+  fallback: string;
+}
+
+export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
+  chatgpt: [
+    { id: 'gpt-5-mini-2025-08-07', label: 'GPT-5 mini', premium: false, temperature: false, maxTemperature: 2, maxOutputTokens: 16384, fallback: 'gpt-4.1-2025-04-14' },
+    { id: 'gpt-5-2025-08-07', label: 'GPT-5', premium: true, temperature: false, maxTemperature: 2, maxOutputTokens: 16384, fallback: 'gpt-5-mini-2025-08-07' },
+    { id: 'gpt-4.1-2025-04-14', label: 'GPT-4.1', premium: true, temperature: true, maxTemperature: 2, maxOutputTokens: 16384, fallback: 'gpt-5-mini-2025-08-07' },
+  ],
+  claude: [
+    { id: 'claude-haiku-4-5-20251001', label: 'Claude Haiku 4.5', premium: false, temperature: true, maxTemperature: 1, maxOutputTokens: 8192, fallback: 'claude-sonnet-4-5-20250929' },
+    { id: 'claude-sonnet-4-5-20250929', label: 'Claude Sonnet 4.5', premium: true, temperature: true, maxTemperature: 1, maxOutputTokens: 8192, fallback: 'claude-haiku-4-5-20251001' },
+  ],
+  deepseek: [
+    { id: 'deepseek-chat', label: 'DeepSeek V3', premium: false, temperature: true, maxTemperature: 2, maxOutputTokens: 8192, fallback: 'deepseek-reasoner' },
+    { id: 'deepseek-reasoner', label: 'DeepSeek R1', premium: true, temperature: false, maxTemperature: 2, maxOutputTokens: 8192, fallback: 'deepseek-chat' },
+  ],
+};
+
+export const TIER_LIMITS: Record<QuotaTier, { maxTokens: number; systemPromptChars: number }> = {
+  free: { maxTokens: 4096, systemPromptChars: 2000 },
+  premium: { maxTokens: 16384, systemPromptChars: 8000 },
+};
+
+// Claude requires max_tokens; the OpenAI-style APIs only get one when the
+// session sets it
+export const DEFAULT_MAX_TOKENS = 4096;
+
+// What a chat function sends upstream. Null means "provider default".
+export interface ModelSettings {
+  model: string;
+  temperature: number | null;
+  maxTokens: number | null;
+  systemPrompt: string | null;
+}
+
+// fallback is what to send instead when the model keeps failing; null when
+// the session turned failover off or the caller's tier can't use it
+export type SettingsResult =
+  | { ok: true; settings: ModelSettings; fallback: ModelSettings | null }
+  | { ok: false; error: string };
+
+// The temperature to send a model: none for models that reject one, and
+// clamped to what the provider accepts
+const temperatureFor = (option: ModelOption, temperature: number | null) =>
+  option.temperature && temperature !== null ? Math.min(temperature, option.maxTemperature) : null;
+
+/**
+ * The same settings on the model's fallback, trimmed to what that model
+ * accepts
+ */
+function fallbackSettings(provider: string, settings: ModelSettings, user: ChatUser): ModelSettings | null {
+  const option = MODEL_OPTIONS[provider]?.find(o => o.id === settings.model);
+  const fallback = MODEL_OPTIONS[provider]?.find(o => o.id === option?.fallback);
+  if (!fallback || (fallback.premium && getQuotaTier(user) !== 'premium')) return null;
+
+  return {
+    ...settings,
+    model: fallback.id,
+    temperature: temperatureFor(fallback, settings.temperature),
+    maxTokens: settings.maxTokens === null ? null : Math.min(settings.maxTokens, fallback.maxOutputTokens),
+  };
+}
+
+/**
+ * Loads the session's settings for a provider and checks them against the
+ * caller's tier. A value the tier does not allow refuses the request with a
+ * message the user can act on; temperature is dropped for models that do
+ * not take one and lowered to the model's maximum.
+ */
+export async function resolveModelSettings(
+  serviceClient: SupabaseClient,
+  user: ChatUser,
+  provider: string,
+  sessionId: string | undefined,
+  logStep: LogStep,
+): Promise<SettingsResult> {
+  const defaults: ModelSettings = {
+    model: PROVIDER_APIS[provider].model,
+    temperature: null,
+    maxTokens: null,
+    systemPrompt: null,
+  };
+  if (!user.userId || !sessionId) {
+    return { ok: true, settings: defaults, fallback: fallbackSettings(provider, defaults, user) };
+  }
+
+  const { data: row, error } = await serviceClient
+    .from('session_settings')
+    .select('model_id, temperature, max_tokens, system_prompt, failover')
+    .eq('session_id', sessionId)
+    .eq('provider', provider)
+    .eq('user_id', user.userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!row) return { ok: true, settings: defaults, fallback: fallbackSettings(provider, defaults, user) };
+
+  const tier = getQuotaTier(user);
+  const limits = TIER_LIMITS[tier];
+  const option = MODEL_OPTIONS[provider]?.find(o => o.id === (row.model_id ?? defaults.model));
+
+  if (!option) {
+    return { ok: false, error: `Model ${row.model_id} is not available. Pick another one in the session settings.` };
+  }
+  if (option.premium && tier !== 'premium') {
+    return { ok: false, error: `${option.label} requires a subscription. Pick another model in the session settings.` };
+  }
+  if (row.max_tokens !== null && row.max_tokens > Math.min(limits.maxTokens, option.maxOutputTokens)) {
+    return { ok: false, error: `Max tokens for ${option.label} on your plan is ${Math.min(limits.maxTokens, option.maxOutputTokens)}.` };
+  }
+  if (row.system_prompt && row.system_prompt.length > limits.systemPromptChars) {
+    return { ok: false, error: `System prompts on your plan are limited to ${limits.systemPromptChars} characters.` };
+  }
+
+  const temperature = row.temperature === null ? null : Number(row.temperature);
+  if (temperature !== null && !option.temperature) {
+    logStep("Ignoring temperature for model", { model: option.id });
+  } else if (temperature !== null && temperature > option.maxTemperature) {
+    logStep("Lowering temperature for model", { model: option.id, temperature, max: option.maxTemperature });
+  }
+
+  const settings: ModelSettings = {
+    model: option.id,
+    temperature: temperatureFor(option, temperature),
+    maxTokens: row.max_tokens,
+    systemPrompt: row.system_prompt?.trim() || null,
+  };
+  logStep("Session settings", { ...settings, systemPrompt: !!settings.systemPrompt, failover: row.failover });
+  return { ok: true, settings, fallback: row.failover ? fallbackSettings(provider, settings, user) : null };
+}
@@ -0,0 +1,294 @@
+import { corsHeaders } from "./cors.ts";
+import { computeCostUsd } from "./pricing.ts";
+import type { ContextChunkRef } from "./rag.ts";
+import { RETRY_POLICY, backoffDelay, isRetryableStatus, sleep } from "./retry.ts";
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Pipes an upstream event stream back to the browser
+export const sseResponse = (body: ReadableStream<Uint8Array> | null) =>
+  new Response(body, {
+    headers: { 
+      ...corsHeaders, 
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    },
+  });
+
+// A provider API answered with a non-2xx status
+export class ProviderApiError extends Error {
+  constructor(label: string, public status: number) {
+    super(`${label} API error: ${status}`);
+    this.name = 'ProviderApiError';
+  }
+}
+
+// POSTs JSON to a provider API, retrying rate limits and server errors (see
+// retry.ts) and throwing a ProviderApiError once a non-2xx is final
+export async function postProvider(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+    if (response.ok) return response;
+
+    const errorData = await response.text();
+    console.error(`${label} API error:`, { status: response.status, error: errorData, attempt });
+
+    if (!isRetryableStatus(response.status) || attempt >= RETRY_POLICY.attempts) {
+      throw new ProviderApiError(label, response.status);
+    }
+    await sleep(backoffDelay(attempt, response.headers.get('retry-after')));
+  }
+}
+
+export const isRetryableError = (error: unknown) =>
+  error instanceof ProviderApiError && isRetryableStatus(error.status);
+
+// Normalized event stream
+//
+// Every chat-* function re-emits provider output in this one format so the
+// browser only ever parses a single wire protocol.
+
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'tool_status'; tool: string; status: 'started' | 'completed'; query?: string; resultCount?: number }
+  | { type: 'usage'; model: string; inputTokens: number; outputTokens: number; costUsd: number }
+  | { type: 'context'; chunks: ContextChunkRef[] }
+  // The model kept failing and the request moved to another model
+  | { type: 'failover'; from: string; to: string }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+export type EmitEvent = (event: ChatStreamEvent) => void;
+
+export type UpstreamFormat = 'openai' | 'anthropic';
+
+export interface UpstreamStream {
+  body: ReadableStream<Uint8Array> | null;
+  format: UpstreamFormat;
+  // Model id the request was sent to, used for cost accounting
+  model: string;
+  // Tokens spent on non-streamed calls (e.g. a tool check) before this stream
+  priorUsage?: { inputTokens: number; outputTokens: number };
+}
+
+export type UsageEvent = Extract<ChatStreamEvent, { type: 'usage' }>;
+
+// How a stream went, reported once it has ended
+export interface ChatStreamOutcome {
+  // Null when the call failed before the provider stream opened
+  model: string | null;
+  // performance.now() of the first model output
+  firstDeltaAt: number | null;
+  // Tools the model used, from tool_status events
+  tools: string[];
+  usage: UsageEvent | null;
+  error: unknown;
+}
+
+interface UpstreamChunk {
+  text?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  error?: string;
+}
+
+// The parts of each provider's stream events that are read below
+interface OpenAIStreamEvent {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+  error?: { message?: string };
+}
+
+interface AnthropicStreamEvent {
+  type?: string;
+  delta?: { text?: string };
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+const translateOpenAI = (payload: OpenAIStreamEvent): UpstreamChunk => ({
+  text: payload.choices?.[0]?.delta?.content || undefined,
+  inputTokens: payload.usage?.prompt_tokens,
+  outputTokens: payload.usage?.completion_tokens,
+  error: payload.error?.message,
+});
+
+const translateAnthropic = (payload: AnthropicStreamEvent): UpstreamChunk => {
+  switch (payload.type) {
+    case 'content_block_delta':
+      return { text: payload.delta?.text || undefined };
+    case 'message_start':
+      return {
+        inputTokens: payload.message?.usage?.input_tokens,
+        outputTokens: payload.message?.usage?.output_tokens,
+      };
+    case 'message_delta':
+      return { outputTokens: payload.usage?.output_tokens };
+    case 'error':
+      return { error: payload.error?.message || 'Anthropic stream error' };
+    default:
+      return {};
+  }
+};
+
+type UpstreamEvent = OpenAIStreamEvent | AnthropicStreamEvent;
+
+const TRANSLATORS: Record<UpstreamFormat, (payload: UpstreamEvent) => UpstreamChunk> = {
+  openai: (payload) => translateOpenAI(payload as OpenAIStreamEvent),
+  anthropic: (payload) => translateAnthropic(payload as AnthropicStreamEvent),
+};
+
+// Yields the payload of each `data:` line, buffering across chunk boundaries.
+// Aborting `signal` cancels the upstream body, which closes the provider
+// connection.
+async function* readUpstreamData(body: ReadableStream<Uint8Array>, signal: AbortSignal): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const cancelUpstream = () => {
+    reader.cancel().catch(() => {});
+  };
+  if (signal.aborted) cancelUpstream();
+  signal.addEventListener('abort', cancelUpstream, { once: true });
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data && data !== '[DONE]') yield data;
+      }
+    }
+  } finally {
+    signal.removeEventListener('abort', cancelUpstream);
+    reader.releaseLock();
+  }
+}
+
+// Output tokens of a reply stopped before the provider reported them, using
+// the same 4 characters per token estimate as rag.ts
+const estimateOutputTokens = (chars: number) => Math.ceil(chars / 4);
+
+/**
+ * Runs a provider call and streams its output as normalized events. Errors
+ * raised once streaming has begun are sent as an `error` event; the stream
+ * always ends with `done`.
+ *
+ * When the browser disconnects or stops the reply, the upstream response is
+ * cancelled and nothing more is sent, but usage and the outcome are still
+ * reported so stopped replies are charged and recorded.
+ */
+export function createChatStream(
+  run: (emit: EmitEvent) => Promise<UpstreamStream>,
+  onUsage?: (usage: UsageEvent) => Promise<void>,
+  onFinish?: (outcome: ChatStreamOutcome) => Promise<void>,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const cancelled = new AbortController();
+
+  return new ReadableStream({
+    async start(controller) {
+      const outcome: ChatStreamOutcome = { model: null, firstDeltaAt: null, tools: [], usage: null, error: null };
+      let streamedChars = 0;
+      const emit: EmitEvent = (event) => {
+        if (event.type === 'delta') {
+          outcome.firstDeltaAt ??= performance.now();
+          streamedChars += event.text.length;
+        }
+        if (event.type === 'tool_status' && event.status === 'started') outcome.tools.push(event.tool);
+        if (cancelled.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // The stream closed before cancel() ran
+          cancelled.abort();
+        }
+      };
+      const usage = { inputTokens: 0, outputTokens: 0 };
+      let hasUsage = false;
+      let upstream: UpstreamStream | null = null;
+
+      try {
+        upstream = await run(emit);
+        outcome.model = upstream.model;
+        if (!upstream.body) throw new Error('Provider returned an empty stream');
+
+        const translate = TRANSLATORS[upstream.format];
+        for await (const data of readUpstreamData(upstream.body, cancelled.signal)) {
+          let payload: UpstreamEvent;
+          try {
+            payload = JSON.parse(data);
+          } catch {
+            continue; // Skip malformed JSON
+          }
+
+          const chunk = translate(payload);
+          if (chunk.error) throw new Error(chunk.error);
+          if (chunk.text) emit({ type: 'delta', text: chunk.text });
+          if (chunk.inputTokens !== undefined) {
+            usage.inputTokens = chunk.inputTokens;
+            hasUsage = true;
+          }
+          if (chunk.outputTokens !== undefined) {
+            usage.outputTokens = chunk.outputTokens;
+            hasUsage = true;
+          }
+        }
+      } catch (error) {
+        outcome.error = error;
+        emit({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        // A stopped reply ends before the provider's final usage report
+        if (cancelled.signal.aborted && streamedChars > 0) {
+          usage.outputTokens = Math.max(usage.outputTokens, estimateOutputTokens(streamedChars));
+          hasUsage = true;
+        }
+
+        if (upstream && hasUsage) {
+          const inputTokens = usage.inputTokens + (upstream.priorUsage?.inputTokens ?? 0);
+          const outputTokens = usage.outputTokens + (upstream.priorUsage?.outputTokens ?? 0);
+          const usageEvent: UsageEvent = {
+            type: 'usage',
+            model: upstream.model,
+            inputTokens,
+            outputTokens,
+            costUsd: computeCostUsd(upstream.model, inputTokens, outputTokens),
+          };
+          emit(usageEvent);
+          outcome.usage = usageEvent;
+          await onUsage?.(usageEvent);
+        }
+
+        emit({ type: 'done' });
+        if (!cancelled.signal.aborted) controller.close();
+        await onFinish?.(outcome);
+      }
+    },
+    cancel() {
+      cancelled.abort();
+    },
+  });
+}
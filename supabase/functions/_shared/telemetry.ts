@@ -0,0 +1,102 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { LogStep } from "./log.ts";
+import { ProviderApiError, type ChatStreamOutcome } from "./sse.ts";
+
+// Request telemetry
+//
+// One provider_requests row per chat request that got as far as calling the
+// provider, for the provider health charts on the admin dashboard. Requests
+// refused by our own checks (quota, settings) are not provider traffic and
+// are not recorded.
+
+export type ErrorClass =
+  | 'rate_limit'
+  | 'auth'
+  | 'bad_request'
+  | 'upstream_error'
+  | 'timeout'
+  | 'stream_error'
+  | 'unknown';
+
+export interface RequestTelemetry {
+  provider: string;
+  model: string | null;
+  userId: string | null;
+  ttftMs: number | null;
+  latencyMs: number;
+  webSearchUsed: boolean;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  error: unknown;
+}
+
+/**
+ * Buckets an error by what went wrong, with the provider's HTTP status when
+ * it answered with one
+ */
+export function classifyError(error: unknown): { errorClass: ErrorClass; httpStatus: number | null } {
+  if (error instanceof ProviderApiError) {
+    const status = error.status;
+    const errorClass: ErrorClass = status === 429 ? 'rate_limit'
+      : status === 401 || status === 403 ? 'auth'
+      : status >= 500 ? 'upstream_error'
+      : 'bad_request';
+    return { errorClass, httpStatus: status };
+  }
+  if (error instanceof DOMException && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return { errorClass: 'timeout', httpStatus: null };
+  }
+  // Errors the provider reported inside an otherwise healthy stream
+  if (error instanceof Error) return { errorClass: 'stream_error', httpStatus: null };
+  return { errorClass: 'unknown', httpStatus: null };
+}
+
+/**
+ * Telemetry for a request whose stream has ended
+ */
+export const streamTelemetry = (
+  provider: string,
+  userId: string | null,
+  // performance.now() when the request arrived
+  startedAt: number,
+  outcome: ChatStreamOutcome,
+): RequestTelemetry => ({
+  provider,
+  model: outcome.model,
+  userId,
+  ttftMs: outcome.firstDeltaAt === null ? null : Math.round(outcome.firstDeltaAt - startedAt),
+  latencyMs: Math.round(performance.now() - startedAt),
+  webSearchUsed: outcome.tools.includes('web_search'),
+  inputTokens: outcome.usage?.inputTokens ?? null,
+  outputTokens: outcome.usage?.outputTokens ?? null,
+  error: outcome.error,
+});
+
+/**
+ * Writes one telemetry row. Failures are logged and never affect the reply.
+ */
+export async function recordRequest(
+  serviceClient: SupabaseClient,
+  telemetry: RequestTelemetry,
+  logStep: LogStep,
+): Promise<void> {
+  const failure = telemetry.error ? classifyError(telemetry.error) : null;
+
+  const { error } = await serviceClient.from('provider_requests').insert({
+    provider: telemetry.provider,
+    model_id: telemetry.model,
+    user_id: telemetry.userId,
+    status: failure ? 'error' : 'success',
+    error_class: failure?.errorClass ?? null,
+    http_status: failure?.httpStatus ?? null,
+    ttft_ms: telemetry.ttftMs,
+    latency_ms: telemetry.latencyMs,
+    web_search_used: telemetry.webSearchUsed,
+    input_tokens: telemetry.inputTokens,
+    output_tokens: telemetry.outputTokens,
+  });
+
+  if (error) {
+    logStep("Failed to record telemetry", { error: error.message });
+  }
+}
@@ -0,0 +1,134 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import type { LogStep } from "./log.ts";
+import type { UpstreamFormat } from "./sse.ts";
+
+// An image attached to a prompt, ready to inline into a provider request
+export interface ImageInput {
+  filename: string;
+  mediaType: string;
+  // Base64 without a data: prefix
+  data: string;
+}
+
+interface ImageFile {
+  id: string;
+  filename: string;
+  file_path: string;
+  file_type: string;
+  file_size: number;
+}
+
+// Formats every vision provider accepts
+const SUPPORTED_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+// Anthropic's per-image limit, the stricter of the two
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_IMAGES_PER_PROMPT = 8;
+
+// Loads the image rows the user owns; chat_files has no owner column, so
+// ownership comes from the session
+async function loadImageFiles(
+  serviceClient: SupabaseClient,
+  userId: string | null,
+  fileIds: string[],
+): Promise<ImageFile[]> {
+  if (!userId || fileIds.length === 0) return [];
+
+  const { data, error } = await serviceClient
+    .from('chat_files')
+    .select('id, session_id, filename, file_path, file_type, file_size')
+    .in('id', fileIds.slice(0, MAX_IMAGES_PER_PROMPT));
+  if (error) throw error;
+
+  const { data: sessions, error: sessionsError } = await serviceClient
+    .from('chat_sessions')
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', [...new Set((data ?? []).map(row => row.session_id))]);
+  if (sessionsError) throw sessionsError;
+  const owned = new Set((sessions ?? []).map(row => row.id));
+
+  return (data ?? []).filter(row => owned.has(row.session_id) && row.file_type?.startsWith('image/'));
+}
+
+/**
+ * Downloads the attached images for a vision model. Images it could not use
+ * (unsupported format, too large, download failed) are logged and skipped and
+ * their names returned so the prompt can say so.
+ */
+export async function loadImages(
+  serviceClient: SupabaseClient,
+  userId: string | null,
+  fileIds: string[],
+  logStep: LogStep,
+): Promise<{ images: ImageInput[]; skipped: string[] }> {
+  const files = await loadImageFiles(serviceClient, userId, fileIds);
+  const images: ImageInput[] = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    if (!SUPPORTED_MEDIA_TYPES.includes(file.file_type) || file.file_size > MAX_IMAGE_BYTES) {
+      logStep("Skipping image", { fileId: file.id, fileType: file.file_type, fileSize: file.file_size });
+      skipped.push(file.filename);
+      continue;
+    }
+
+    const { data: blob, error } = await serviceClient.storage.from('chat-files').download(file.file_path);
+    if (error || !blob) {
+      logStep("Image download failed", { fileId: file.id, error: error?.message });
+      skipped.push(file.filename);
+      continue;
+    }
+
+    images.push({
+      filename: file.filename,
+      mediaType: file.file_type,
+      data: encodeBase64(new Uint8Array(await blob.arrayBuffer())),
+    });
+  }
+
+  logStep("Images loaded", { images: images.length, skipped: skipped.length });
+  return { images, skipped };
+}
+
+/**
+ * Names of the attached images, for models that cannot see them
+ */
+export async function listImageNames(
+  serviceClient: SupabaseClient,
+  userId: string | null,
+  fileIds: string[],
+): Promise<string[]> {
+  return (await loadImageFiles(serviceClient, userId, fileIds)).map(file => file.filename);
+}
+
+// Tells the model about images it was not given, so it does not answer as
+// though it had looked at them
+export const imageNotice = (filenames: string[]) =>
+  `[The user attached ${filenames.length === 1 ? 'an image' : `${filenames.length} images`} (${filenames.join(', ')}) that you cannot see. Say so if the question depends on ${filenames.length === 1 ? 'it' : 'them'}.]`;
+
+/**
+ * Content of the user turn: plain text, or text plus image parts in the
+ * provider's format
+ */
+export function userContent(format: UpstreamFormat, text: string, images: ImageInput[]): unknown {
+  if (images.length === 0) return text;
+
+  if (format === 'anthropic') {
+    return [
+      ...images.map(image => ({
+        type: 'image',
+        source: { type: 'base64', media_type: image.mediaType, data: image.data },
+      })),
+      { type: 'text', text },
+    ];
+  }
+
+  return [
+    { type: 'text', text },
+    ...images.map(image => ({
+      type: 'image_url',
+      image_url: { url: `data:${image.mediaType};base64,${image.data}` },
+    })),
+  ];
+}
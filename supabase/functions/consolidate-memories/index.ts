@@ -0,0 +1,108 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createLogger } from "../_shared/log.ts";
+import { createServiceClient, resolveChatUser } from "../_shared/auth.ts";
+import { enforceQuota, recordTokenUsage } from "../_shared/quota.ts";
+import { computeCostUsd } from "../_shared/pricing.ts";
+import { completeText, PROVIDER_APIS } from "../_shared/providers.ts";
+import { jsonResponse } from "../_shared/sse.ts";
+
+// Drafts a consolidated summary of ledger entries. Nothing is written: the
+// user edits the draft and commits it through save-to-ledger as a
+// consolidation entry referencing the sources' hashes.
+
+const logStep = createLogger('CONSOLIDATE-MEMORIES');
+
+const SYSTEM_PROMPT = `You consolidate entries from an AI agent's memory ledger into one memory that can stand in for all of them. Merge what the entries say into a single coherent account: keep every fact, decision, preference, lesson and open question, resolve repetition, and where later entries revise earlier ones keep the latest version and note that it changed. Do not add anything the entries do not say. Write plainly in the third person, as prose or short bullet points, under 500 words. Reply with the consolidated memory only.`;
+
+// Matches the consolidation schema's limit on source_hashes
+const MAX_SOURCE_ENTRIES = 200;
+// Keeps one call within every provider's input limit. Mirrored by
+// MAX_CONSOLIDATION_CHARS in src/lib/consolidation.ts.
+const MAX_SOURCE_CHARS = 60000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const { entryIds, provider, sendId } = await req.json();
+    if (!Array.isArray(entryIds) || entryIds.length < 2) {
+      return jsonResponse({ error: 'Select at least two entries to consolidate' }, 400);
+    }
+    if (entryIds.length > MAX_SOURCE_ENTRIES) {
+      return jsonResponse({ error: `At most ${MAX_SOURCE_ENTRIES} entries can be consolidated at once` }, 400);
+    }
+    if (!PROVIDER_APIS[provider]) {
+      return jsonResponse({ error: `Unknown model: ${provider}` }, 400);
+    }
+
+    const serviceClient = createServiceClient();
+    const user = await resolveChatUser(req, serviceClient, logStep);
+    if (!user.userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const { data: entries, error: entriesError } = await serviceClient
+      .from('ledger_entries')
+      .select('id, agent_id, entry_type, body_json, body_hash, created_at')
+      .eq('user_id', user.userId)
+      .in('id', entryIds)
+      .order('created_at')
+      .order('id');
+    if (entriesError) throw entriesError;
+    if (!entries || entries.length !== entryIds.length) {
+      return jsonResponse({ error: 'Entries not found' }, 404);
+    }
+
+    const sources = entries
+      .map(entry => {
+        const body = entry.body_json as Record<string, unknown>;
+        const text = typeof body?.content === 'string' ? body.content : JSON.stringify(body);
+        return `[${entry.created_at}] ${entry.agent_id} · ${entry.entry_type}\n${text}`;
+      })
+      .join('\n\n');
+    // The consolidation will reference every source, so the model must read
+    // all of them rather than a cut-down transcript
+    if (sources.length > MAX_SOURCE_CHARS) {
+      return jsonResponse({
+        error: `These entries are too long to consolidate at once (${sources.length} characters, at most ${MAX_SOURCE_CHARS}); select fewer`,
+      }, 400);
+    }
+
+    const limitResponse = await enforceQuota(serviceClient, user, provider, sendId, logStep);
+    if (limitResponse) return limitResponse;
+
+    logStep("Drafting", { provider, entries: entries.length });
+
+    const completion = await completeText(provider, SYSTEM_PROMPT, [{
+      role: 'user',
+      content: `## Entries, oldest first\n${sources}`,
+    }], 1536);
+
+    await recordTokenUsage(serviceClient, user, {
+      provider,
+      modelId: completion.model,
+      inputTokens: completion.inputTokens,
+      outputTokens: completion.outputTokens,
+      costUsd: computeCostUsd(completion.model, completion.inputTokens, completion.outputTokens),
+    }, logStep);
+
+    const draft = completion.text.trim();
+    if (!draft) throw new Error('The model returned an empty draft');
+
+    return jsonResponse({
+      draft,
+      model: completion.model,
+      sources: entries.map(entry => ({ id: entry.id, agentId: entry.agent_id, bodyHash: entry.body_hash })),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logStep("Error in function", { error: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,129 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createLogger } from "../_shared/log.ts";
+import { createServiceClient, resolveChatUser } from "../_shared/auth.ts";
+import { detectFormat, extractDocument } from "../_shared/extract.ts";
+import { jsonResponse } from "../_shared/sse.ts";
+
+const logStep = createLogger('INGEST-FILE');
+
+// Matches the preview the client used to build before extraction moved here
+const PREVIEW_CHARS = 1000;
+// Larger uploads are stored but not parsed
+const MAX_INGEST_BYTES = 25 * 1024 * 1024;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceClient = createServiceClient();
+  let fileId: string | null = null;
+
+  try {
+    logStep("Function started");
+
+    ({ fileId } = await req.json());
+    if (typeof fileId !== 'string' || !fileId) {
+      return jsonResponse({ error: 'fileId is required' }, 400);
+    }
+
+    const user = await resolveChatUser(req, serviceClient, logStep);
+    if (!user.userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const { data: file, error: fileError } = await serviceClient
+      .from('chat_files')
+      .select('id, session_id, filename, file_path, file_type, file_size')
+      .eq('id', fileId)
+      .maybeSingle();
+    if (fileError) throw fileError;
+
+    // chat_files has no owner column; ownership comes from the session
+    const { data: session } = file
+      ? await serviceClient
+        .from('chat_sessions')
+        .select('id')
+        .eq('id', file.session_id)
+        .eq('user_id', user.userId)
+        .maybeSingle()
+      : { data: null };
+    if (!file || !session) {
+      fileId = null;
+      return jsonResponse({ error: 'File not found' }, 404);
+    }
+
+    const format = detectFormat(file.filename, file.file_type ?? '');
+    if (!format) {
+      await serviceClient
+        .from('chat_files')
+        .update({ extraction_status: 'unsupported', extracted_at: new Date().toISOString() })
+        .eq('id', fileId);
+      logStep("Unsupported file type", { fileId, fileType: file.file_type });
+      return jsonResponse({ status: 'unsupported' });
+    }
+
+    if ((file.file_size ?? 0) > MAX_INGEST_BYTES) {
+      throw new Error(`File is larger than ${MAX_INGEST_BYTES / 1024 / 1024} MB`);
+    }
+
+    await serviceClient
+      .from('chat_files')
+      .update({ extraction_status: 'processing', extraction_error: null })
+      .eq('id', fileId);
+
+    const { data: blob, error: downloadError } = await serviceClient.storage
+      .from('chat-files')
+      .download(file.file_path);
+    if (downloadError) throw downloadError;
+
+    const extraction = await extractDocument(new Uint8Array(await blob.arrayBuffer()), file.filename, format);
+    logStep("Extracted document", {
+      fileId,
+      format,
+      chars: extraction.text.length,
+      sections: extraction.sections.length,
+      pageCount: extraction.pageCount,
+    });
+
+    const preview = extraction.text.length > PREVIEW_CHARS
+      ? `${extraction.text.substring(0, PREVIEW_CHARS)}...`
+      : extraction.text;
+
+    const { error: updateError } = await serviceClient
+      .from('chat_files')
+      .update({
+        extraction_status: 'ready',
+        extracted_text: extraction.text,
+        structure: extraction.sections,
+        page_count: extraction.pageCount,
+        content_preview: preview,
+        extraction_error: null,
+        extracted_at: new Date().toISOString(),
+      })
+      .eq('id', fileId);
+    if (updateError) throw updateError;
+
+    return jsonResponse({
+      status: 'ready',
+      format,
+      characters: extraction.text.length,
+      sections: extraction.sections.length,
+      pageCount: extraction.pageCount,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("Error in function", { message: errorMessage });
+
+    // Record the failure so the client stops waiting on this file
+    if (fileId) {
+      await serviceClient
+        .from('chat_files')
+        .update({ extraction_status: 'failed', extraction_error: errorMessage, extracted_at: new Date().toISOString() })
+        .eq('id', fileId);
+    }
+
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
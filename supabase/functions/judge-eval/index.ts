@@ -0,0 +1,84 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createLogger } from "../_shared/log.ts";
+import { createServiceClient, resolveChatUser } from "../_shared/auth.ts";
+import { enforceQuota } from "../_shared/quota.ts";
+import { PROVIDER_APIS } from "../_shared/providers.ts";
+import { judgeAnswers } from "../_shared/judge.ts";
+import { jsonResponse } from "../_shared/sse.ts";
+
+const logStep = createLogger('JUDGE-EVAL');
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const { evalPromptId, sendId, judgeProvider } = await req.json();
+    if (!evalPromptId) {
+      return jsonResponse({ error: 'evalPromptId is required' }, 400);
+    }
+    if (!PROVIDER_APIS[judgeProvider]) {
+      return jsonResponse({ error: `Unknown judge model: ${judgeProvider}` }, 400);
+    }
+
+    const serviceClient = createServiceClient();
+    const user = await resolveChatUser(req, serviceClient, logStep);
+    if (!user.userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    // Judged as part of the prompt's send: tokens, no extra message
+    const limitResponse = await enforceQuota(serviceClient, user, judgeProvider, sendId, logStep);
+    if (limitResponse) return limitResponse;
+
+    const { data: prompt } = await serviceClient
+      .from('eval_prompts')
+      .select('id, prompt')
+      .eq('id', evalPromptId)
+      .eq('user_id', user.userId)
+      .maybeSingle();
+    if (!prompt) {
+      return jsonResponse({ error: 'Prompt not found' }, 404);
+    }
+
+    const { data: results, error: resultsError } = await serviceClient
+      .from('eval_results')
+      .select('provider, response')
+      .eq('prompt_id', evalPromptId)
+      .eq('status', 'completed');
+    if (resultsError) throw resultsError;
+
+    const answers = (results ?? [])
+      .filter(result => result.response)
+      .map(result => ({ provider: result.provider, content: result.response as string }));
+    logStep("Prompt loaded", { answers: answers.length });
+    if (answers.length < 2) {
+      return jsonResponse({ error: 'A prompt needs at least two answers to judge' }, 400);
+    }
+
+    const judged = await judgeAnswers(serviceClient, user, judgeProvider, prompt.prompt, answers, logStep);
+
+    const { data: saved, error: saveError } = await serviceClient
+      .from('eval_prompts')
+      .update({
+        verdict: judged.verdict,
+        judge_model: judged.model,
+        judge_cost_usd: judged.costUsd,
+      })
+      .eq('id', evalPromptId)
+      .select()
+      .single();
+    if (saveError) throw saveError;
+
+    return jsonResponse(saved);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logStep("Error in function", { error: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,104 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createLogger } from "../_shared/log.ts";
+import { createServiceClient, resolveChatUser } from "../_shared/auth.ts";
+import { enforceQuota } from "../_shared/quota.ts";
+import { PROVIDER_APIS } from "../_shared/providers.ts";
+import { judgeAnswers, type Answer } from "../_shared/judge.ts";
+import { jsonResponse } from "../_shared/sse.ts";
+
+const logStep = createLogger('JUDGE-ROUND');
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const { sessionId, promptMessageId, sendId, judgeProvider } = await req.json();
+    if (!sessionId || !promptMessageId) {
+      return jsonResponse({ error: 'sessionId and promptMessageId are required' }, 400);
+    }
+    const api = PROVIDER_APIS[judgeProvider];
+    if (!api) {
+      return jsonResponse({ error: `Unknown judge model: ${judgeProvider}` }, 400);
+    }
+
+    const serviceClient = createServiceClient();
+    const user = await resolveChatUser(req, serviceClient, logStep);
+
+    // The judge pass belongs to the round's send, so it costs tokens but no
+    // extra message unit
+    const limitResponse = await enforceQuota(serviceClient, user, judgeProvider, sendId, logStep);
+    if (limitResponse) return limitResponse;
+
+    const { data: session } = await serviceClient
+      .from('chat_sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .eq('user_id', user.userId)
+      .maybeSingle();
+    if (!session) {
+      return jsonResponse({ error: 'Session not found' }, 404);
+    }
+
+    const { data: prompt } = await serviceClient
+      .from('messages')
+      .select('id, content, role')
+      .eq('id', promptMessageId)
+      .eq('session_id', sessionId)
+      .maybeSingle();
+    if (!prompt || prompt.role !== 'user') {
+      return jsonResponse({ error: 'Prompt message not found' }, 404);
+    }
+
+    const { data: replies, error: repliesError } = await serviceClient
+      .from('messages')
+      .select('content, ai_model, error')
+      .eq('parent_message_id', promptMessageId)
+      .eq('role', 'assistant')
+      .order('created_at', { ascending: true });
+    if (repliesError) throw repliesError;
+
+    // Latest reply per provider
+    const byProvider = new Map<string, Answer>();
+    for (const message of replies ?? []) {
+      if (!message.ai_model || message.error) continue;
+      byProvider.set(message.ai_model, { provider: message.ai_model, content: message.content });
+    }
+
+    const answers = [...byProvider.values()];
+    logStep("Round loaded", { answers: answers.length });
+    if (answers.length < 2) {
+      return jsonResponse({ error: 'A round needs at least two answers to judge' }, 400);
+    }
+
+    const judged = await judgeAnswers(serviceClient, user, judgeProvider, prompt.content, answers, logStep);
+
+    const { data: saved, error: saveError } = await serviceClient
+      .from('round_verdicts')
+      .upsert({
+        session_id: sessionId,
+        prompt_message_id: promptMessageId,
+        user_id: user.userId,
+        judge_provider: judgeProvider,
+        judge_model: judged.model,
+        verdict: judged.verdict,
+        input_tokens: judged.inputTokens,
+        output_tokens: judged.outputTokens,
+        cost_usd: judged.costUsd,
+      }, { onConflict: 'prompt_message_id' })
+      .select()
+      .single();
+    if (saveError) throw saveError;
+
+    return jsonResponse(saved);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logStep("Error in function", { error: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,183 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createLogger } from "../_shared/log.ts";
+import { createServiceClient, resolveChatUser } from "../_shared/auth.ts";
+import { buildMerkleTree, inclusionProof } from "../_shared/merkle.ts";
+import { resolveAnchorBackend, type AnchorBackend, type AnchorReceipt } from "../_shared/anchor.ts";
+import { jsonResponse } from "../_shared/sse.ts";
+
+// Groups a user's unbatched ledger entries into a Merkle batch, stores a
+// proof per entry and anchors the root. Users call it on demand; a scheduler
+// calling it with the service role key sweeps every user, e.g. with pg_cron:
+//
+//   select cron.schedule('ledger-batch', '*/15 * * * *', $$
+//     select net.http_post(
+//       url := '<project url>/functions/v1/ledger-batch',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service role key>')
+//     ) $$);
+
+const logStep = createLogger('LEDGER-BATCH');
+
+// Keeps proofs short and one commit_ledger_batch call small
+const MAX_BATCH_SIZE = 256;
+// Users visited and anchors retried per run; the rest wait for the next one
+const MAX_SWEEP_USERS = 100;
+const MAX_ANCHOR_RETRIES = 100;
+
+interface BatchResult {
+  batchId: string;
+  rootHash: string;
+  entryCount: number;
+  anchor: AnchorReceipt | null;
+}
+
+async function anchorBatch(
+  serviceClient: SupabaseClient,
+  backend: AnchorBackend,
+  batch: { batchId: string; rootHash: string; entryCount: number },
+): Promise<AnchorReceipt | null> {
+  try {
+    const receipt = await backend.anchor(batch);
+    const { error } = await serviceClient
+      .from('ledger_batches')
+      .update({
+        l2_tx: receipt.tx,
+        l2_block_number: receipt.blockNumber,
+        anchor_backend: receipt.backend,
+        anchored_at: receipt.anchoredAt,
+      })
+      .eq('id', batch.batchId);
+    if (error) throw error;
+    return receipt;
+  } catch (error) {
+    // The batch and its proofs stand; the next run retries the anchor
+    logStep("Anchoring failed", { batchId: batch.batchId, error: error instanceof Error ? error.message : error });
+    return null;
+  }
+}
+
+// Batches that were committed but never anchored. A batch with an l2_tx was
+// anchored before anchored_at existed and is left alone.
+async function retryAnchors(
+  serviceClient: SupabaseClient,
+  backend: AnchorBackend,
+  userId: string | null,
+): Promise<number> {
+  let query = serviceClient
+    .from('ledger_batches')
+    .select('id, root_hash, entry_count')
+    .is('anchored_at', null)
+    .is('l2_tx', null)
+    .order('created_at')
+    .limit(MAX_ANCHOR_RETRIES);
+  if (userId) query = query.eq('user_id', userId);
+
+  const { data: pending, error } = await query;
+  if (error) throw error;
+
+  let anchored = 0;
+  for (const batch of pending ?? []) {
+    const receipt = await anchorBatch(serviceClient, backend, {
+      batchId: batch.id,
+      rootHash: batch.root_hash,
+      entryCount: batch.entry_count,
+    });
+    if (receipt) anchored++;
+  }
+  return anchored;
+}
+
+async function batchUser(
+  serviceClient: SupabaseClient,
+  backend: AnchorBackend,
+  userId: string,
+): Promise<BatchResult | null> {
+  // Oldest first, the same order chain verification walks
+  const { data: entries, error } = await serviceClient
+    .from('ledger_entries')
+    .select('id, body_hash')
+    .eq('user_id', userId)
+    .is('batch_id', null)
+    .order('created_at')
+    .order('id')
+    .limit(MAX_BATCH_SIZE);
+  if (error) throw error;
+  if (!entries?.length) return null;
+
+  const tree = await buildMerkleTree(entries.map(entry => entry.body_hash));
+  const proofs = entries.map((entry, index) => ({
+    entry_id: entry.id,
+    leaf_index: index,
+    leaf_hash: tree.leaves[index],
+    path: inclusionProof(tree, index),
+  }));
+
+  const { data: batchId, error: commitError } = await serviceClient.rpc('commit_ledger_batch', {
+    p_user_id: userId,
+    p_entry_ids: entries.map(entry => entry.id),
+    p_root_hash: tree.root,
+    p_proofs: proofs,
+  });
+  if (commitError) throw commitError;
+  logStep("Batch committed", { userId, batchId, entries: entries.length, root: tree.root });
+
+  const batch = { batchId: batchId as string, rootHash: tree.root, entryCount: entries.length };
+  return { ...batch, anchor: await anchorBatch(serviceClient, backend, batch) };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const serviceClient = createServiceClient();
+    const backend = resolveAnchorBackend();
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const sweep = !!serviceKey && req.headers.get("Authorization") === `Bearer ${serviceKey}`;
+
+    if (sweep) {
+      const reanchored = await retryAnchors(serviceClient, backend, null);
+
+      const { data: pending, error } = await serviceClient
+        .from('ledger_entries')
+        .select('user_id')
+        .is('batch_id', null)
+        .order('created_at')
+        .limit(MAX_BATCH_SIZE * 4);
+      if (error) throw error;
+
+      const userIds = [...new Set((pending ?? []).map(row => row.user_id))].slice(0, MAX_SWEEP_USERS);
+      const batches: BatchResult[] = [];
+      for (const userId of userIds) {
+        try {
+          const batch = await batchUser(serviceClient, backend, userId);
+          if (batch) batches.push(batch);
+        } catch (error) {
+          // One user's failure (say a concurrent on-demand run) must not stop the sweep
+          logStep("Batching failed", { userId, error: error instanceof Error ? error.message : error });
+        }
+      }
+
+      logStep("Sweep finished", { users: userIds.length, batches: batches.length, reanchored });
+      return jsonResponse({ batches, reanchored });
+    }
+
+    const user = await resolveChatUser(req, serviceClient, logStep);
+    if (!user.userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const reanchored = await retryAnchors(serviceClient, backend, user.userId);
+    const batch = await batchUser(serviceClient, backend, user.userId);
+    return jsonResponse({ batches: batch ? [batch] : [], reanchored });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logStep("Error in function", { error: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
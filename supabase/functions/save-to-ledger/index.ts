@@ -2,6 +2,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { validateBody } from "../_shared/ledgerTypes.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -94,30 +95,29 @@ serve(async (req) => {
       );
     }
 
-    // Check for required fields in body_json - accept either new format or old format
-    const hasNewFormat = body_json.content && body_json.actor;
-    const hasOldFormat = body_json.id && body_json.t && body_json.actor && body_json.summary;
-    
-    if (!hasNewFormat && !hasOldFormat) {
-      console.error('[SAVE-TO-LEDGER] Invalid body_json format:', body_json);
+    // Sanitize body_json to fix invalid Unicode characters
+    const sanitizedBodyJson = JSON.parse(
+      JSON.stringify(body_json)
+        .replace(/\\udccd/g, '📍')  // Replace invalid surrogate with actual emoji
+        .replace(/[\u0000-\u001F\u007F-\u009F]/g, '')  // Remove control characters
+    );
+    console.log('[SAVE-TO-LEDGER] Sanitized body_json');
+
+    // Check the body against the entry type's schema
+    const problems = validateBody(entry_type, sanitizedBodyJson);
+    if (problems.length > 0) {
+      console.error('[SAVE-TO-LEDGER] Invalid body_json:', entry_type, problems);
       return new Response(
         JSON.stringify({ 
           success: false, 
-          error: 'body_json must contain either {content, actor} or {id, t, actor, summary}' 
+          error: `Invalid ${entry_type} entry: ${problems.join('; ')}`,
+          problems
         }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
     console.log('[SAVE-TO-LEDGER] All validations passed');
 
-    // Sanitize body_json to fix invalid Unicode characters
-    const sanitizedBodyJson = JSON.parse(
-      JSON.stringify(body_json)
-        .replace(/\\udccd/g, '📍')  // Replace invalid surrogate with actual emoji
-        .replace(/[\u0000-\u001F\u007F-\u009F]/g, '')  // Remove control characters
-    );
-    console.log('[SAVE-TO-LEDGER] Sanitized body_json');
-
     // Create Supabase client with service role key
     const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
     
@@ -0,0 +1,101 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createLogger } from "../_shared/log.ts";
+import { createServiceClient, resolveChatUser } from "../_shared/auth.ts";
+import { embedPendingDocuments, embedTexts, toVectorLiteral } from "../_shared/embeddings.ts";
+import { jsonResponse } from "../_shared/sse.ts";
+
+const logStep = createLogger('SEARCH');
+
+// Mirrors SEARCH_SOURCES in src/lib/search.ts
+const SOURCES = ['messages', 'knowledge_base', 'research_library', 'ledger_entries', 'chat_files'];
+const MAX_PAGE_SIZE = 50;
+
+// One row of search_documents_hybrid
+interface SearchRow {
+  source_type: string;
+  source_id: string;
+  session_id: string | null;
+  title: string;
+  snippet: string;
+  created_at: string;
+  text_rank: number;
+  similarity: number | null;
+  score: number;
+  total_count: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const { query, sources, sessionId, page = 0, pageSize = 20 } = await req.json();
+    const text = typeof query === 'string' ? query.trim() : '';
+    if (!text) {
+      return jsonResponse({ error: 'query is required' }, 400);
+    }
+    if (sources !== undefined && (!Array.isArray(sources) || sources.some((s: unknown) => !SOURCES.includes(s as string)))) {
+      return jsonResponse({ error: `sources must be a subset of: ${SOURCES.join(', ')}` }, 400);
+    }
+
+    const serviceClient = createServiceClient();
+    const user = await resolveChatUser(req, serviceClient, logStep);
+    if (!user.userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    // Semantic matching is best effort: without embeddings the search is
+    // still ranked on full text
+    let queryEmbedding: string | null = null;
+    try {
+      await embedPendingDocuments(serviceClient, user.userId, logStep);
+      const [embedding] = (await embedTexts([text], logStep)) ?? [];
+      if (embedding) queryEmbedding = toVectorLiteral(embedding);
+    } catch (error) {
+      logStep("Embedding failed, using full-text only", { error: error instanceof Error ? error.message : String(error) });
+    }
+
+    const size = Math.min(Math.max(Number(pageSize) || 20, 1), MAX_PAGE_SIZE);
+    const pageIndex = Math.max(Number(page) || 0, 0);
+
+    const { data, error } = await serviceClient.rpc('search_documents_hybrid', {
+      p_user_id: user.userId,
+      p_query: text,
+      p_query_embedding: queryEmbedding,
+      p_sources: sources ?? null,
+      p_session_id: sessionId ?? null,
+      p_limit: size,
+      p_offset: pageIndex * size,
+    });
+    if (error) throw error;
+
+    const rows = (data ?? []) as SearchRow[];
+    logStep("Search complete", { hits: rows.length, semantic: !!queryEmbedding });
+
+    return jsonResponse({
+      hits: rows.map(row => ({
+        sourceType: row.source_type,
+        sourceId: row.source_id,
+        sessionId: row.session_id,
+        title: row.title,
+        snippet: row.snippet,
+        createdAt: row.created_at,
+        textRank: row.text_rank,
+        similarity: row.similarity,
+        score: row.score,
+      })),
+      total: rows[0]?.total_count ?? 0,
+      page: pageIndex,
+      pageSize: size,
+      semantic: !!queryEmbedding,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logStep("Error in function", { error: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,183 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createLogger } from "../_shared/log.ts";
+import { createServiceClient, resolveChatUser } from "../_shared/auth.ts";
+import { enforceQuota, recordTokenUsage } from "../_shared/quota.ts";
+import { computeCostUsd } from "../_shared/pricing.ts";
+import { completeText, PROVIDER_APIS } from "../_shared/providers.ts";
+import { jsonResponse } from "../_shared/sse.ts";
+
+const logStep = createLogger('SUMMARIZE-HISTORY');
+
+const SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant, so the assistant can continue it after older turns are dropped from its context. Fold the new turns into the existing summary. Keep facts, decisions, names, numbers, open questions and the user's stated preferences; drop pleasantries and repetition. Write in the third person ("The user asked...", "The assistant explained..."), as plain prose or short bullet points, under 400 words. Reply with the summary only.`;
+
+// Keeps one summarization call within every provider's input limit
+const MAX_TRANSCRIPT_CHARS = 60000;
+// Summarization calls per request. Turns beyond them stay unsummarized and
+// are folded in on a later send.
+const MAX_CHUNKS = 8;
+
+// As stored under chat_sessions.context_summaries[provider]; mirrors
+// ContextSummary in src/lib/contextWindow.ts
+interface ContextSummary {
+  summary: string;
+  throughMessageId: string;
+  summarizedCount: number;
+  updatedAt: string;
+}
+
+interface Turn {
+  id: string;
+  role: string;
+  content: string;
+}
+
+interface TranscriptChunk {
+  transcript: string;
+  // Last turn in the chunk
+  throughMessageId: string;
+  turnCount: number;
+}
+
+const formatTurn = (turn: Turn) => {
+  const text = `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`;
+  // A turn that alone exceeds the limit goes in by its opening, marked as cut
+  const marker = '\n[… rest of this message omitted]';
+  return text.length > MAX_TRANSCRIPT_CHARS ? `${text.slice(0, MAX_TRANSCRIPT_CHARS - marker.length)}${marker}` : text;
+};
+
+/**
+ * Consecutive turns grouped into transcripts of at most MAX_TRANSCRIPT_CHARS
+ */
+function chunkTurns(turns: Turn[]): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  let lines: string[] = [];
+  let size = 0;
+  let throughMessageId = '';
+
+  for (const turn of turns) {
+    const line = formatTurn(turn);
+    if (lines.length > 0 && size + line.length > MAX_TRANSCRIPT_CHARS) {
+      chunks.push({ transcript: lines.join('\n\n'), throughMessageId, turnCount: lines.length });
+      lines = [];
+      size = 0;
+    }
+    lines.push(line);
+    size += line.length + 2;
+    throughMessageId = turn.id;
+  }
+  if (lines.length > 0) {
+    chunks.push({ transcript: lines.join('\n\n'), throughMessageId, turnCount: lines.length });
+  }
+
+  return chunks;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    // messageIds are the turns to fold in, oldest first. continueFrom is the
+    // last message the client's current summary covers; when it no longer
+    // matches what is stored (another branch, or a stale client) the summary
+    // starts over from these turns alone.
+    const { sessionId, provider, sendId, messageIds, continueFrom } = await req.json();
+    if (!sessionId || !Array.isArray(messageIds) || messageIds.length === 0) {
+      return jsonResponse({ error: 'sessionId and messageIds are required' }, 400);
+    }
+    if (!PROVIDER_APIS[provider]) {
+      return jsonResponse({ error: `Unknown model: ${provider}` }, 400);
+    }
+
+    const serviceClient = createServiceClient();
+    const user = await resolveChatUser(req, serviceClient, logStep);
+    if (!user.userId) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    // Summarizing is part of the send that needed it: tokens, no extra message
+    const limitResponse = await enforceQuota(serviceClient, user, provider, sendId, logStep);
+    if (limitResponse) return limitResponse;
+
+    const { data: session } = await serviceClient
+      .from('chat_sessions')
+      .select('id, context_summaries')
+      .eq('id', sessionId)
+      .eq('user_id', user.userId)
+      .maybeSingle();
+    if (!session) {
+      return jsonResponse({ error: 'Session not found' }, 404);
+    }
+
+    const { data: rows, error: messagesError } = await serviceClient
+      .from('messages')
+      .select('id, role, content')
+      .eq('session_id', sessionId)
+      .in('id', messageIds);
+    if (messagesError) throw messagesError;
+
+    const byId = new Map((rows ?? []).map(row => [row.id, row]));
+    const turns = messageIds.map((id: string) => byId.get(id)).filter(Boolean) as Turn[];
+    if (turns.length === 0) {
+      return jsonResponse({ error: 'Messages not found' }, 404);
+    }
+
+    const stored = (session.context_summaries as Record<string, ContextSummary> | null)?.[provider];
+    const previous = stored && continueFrom && stored.throughMessageId === continueFrom ? stored : null;
+
+    // Each chunk is folded into the summary the previous one produced, so
+    // the stored boundary only moves past turns the model actually read
+    const chunks = chunkTurns(turns);
+    const included = chunks.slice(0, MAX_CHUNKS);
+    logStep("Summarizing", { provider, turns: turns.length, chunks: chunks.length, continuing: !!previous });
+
+    let summaryText = previous?.summary || '';
+    for (const chunk of included) {
+      const completion = await completeText(provider, SYSTEM_PROMPT, [{
+        role: 'user',
+        content: `## Summary so far\n${summaryText || '(none)'}\n\n## New turns\n${chunk.transcript}`,
+      }], 1024);
+
+      await recordTokenUsage(serviceClient, user, {
+        provider,
+        modelId: completion.model,
+        inputTokens: completion.inputTokens,
+        outputTokens: completion.outputTokens,
+        costUsd: computeCostUsd(completion.model, completion.inputTokens, completion.outputTokens),
+      }, logStep);
+
+      summaryText = completion.text.trim();
+      if (!summaryText) throw new Error('Summarizer returned an empty summary');
+    }
+
+    if (included.length < chunks.length) {
+      logStep("Turns left for a later send", { chunks: chunks.length - included.length });
+    }
+
+    const last = included[included.length - 1];
+    const summary: ContextSummary = {
+      summary: summaryText,
+      throughMessageId: last.throughMessageId,
+      summarizedCount: (previous?.summarizedCount ?? 0) + included.reduce((sum, chunk) => sum + chunk.turnCount, 0),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const { error: saveError } = await serviceClient.rpc('set_context_summary', {
+      p_session_id: sessionId,
+      p_provider: provider,
+      p_summary: summary,
+    });
+    if (saveError) throw saveError;
+
+    return jsonResponse(summary);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logStep("Error in function", { error: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,38 @@
+-- Provider registry: messages.ai_model now references a row here instead of
+-- a hard-coded CHECK list, so new providers only need an INSERT.
+CREATE TABLE public.ai_providers (
+  id TEXT NOT NULL PRIMARY KEY,
+  display_name TEXT NOT NULL,
+  endpoint TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_providers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Providers are readable by everyone"
+ON public.ai_providers
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage providers"
+ON public.ai_providers
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO public.ai_providers (id, display_name, endpoint, sort_order) VALUES
+  ('chatgpt', 'ChatGPT', 'chat-openai', 1),
+  ('claude', 'Claude', 'chat-claude', 2),
+  ('deepseek', 'DeepSeek', 'chat-deepseek', 3);
+
+-- Replace the closed CHECK list with a foreign key
+ALTER TABLE public.messages
+DROP CONSTRAINT IF EXISTS messages_ai_model_check;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_ai_model_fkey
+  FOREIGN KEY (ai_model)
+  REFERENCES public.ai_providers(id)
+  ON UPDATE CASCADE;
@@ -0,0 +1,88 @@
+-- Per-message token usage and cost
+ALTER TABLE public.messages
+ADD COLUMN model_id TEXT,
+ADD COLUMN input_tokens INTEGER,
+ADD COLUMN output_tokens INTEGER,
+ADD COLUMN cost_usd NUMERIC(12, 6);
+
+-- Daily token rollup per user and provider, kept next to daily_usage
+CREATE TABLE public.token_usage_daily (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  provider TEXT NOT NULL REFERENCES public.ai_providers(id) ON UPDATE CASCADE,
+  model_id TEXT NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  input_tokens BIGINT NOT NULL DEFAULT 0,
+  output_tokens BIGINT NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, date, provider, model_id)
+);
+
+CREATE INDEX idx_token_usage_daily_user_date ON public.token_usage_daily(user_id, date);
+
+ALTER TABLE public.token_usage_daily ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own token usage"
+ON public.token_usage_daily
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all token usage"
+ON public.token_usage_daily
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_token_usage_daily_updated_at
+BEFORE UPDATE ON public.token_usage_daily
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Monthly rollup derived from the daily rows
+CREATE VIEW public.token_usage_monthly
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  date_trunc('month', date)::date AS month,
+  provider,
+  model_id,
+  SUM(request_count)::integer AS request_count,
+  SUM(input_tokens)::bigint AS input_tokens,
+  SUM(output_tokens)::bigint AS output_tokens,
+  SUM(cost_usd)::numeric(12, 6) AS cost_usd
+FROM public.token_usage_daily
+GROUP BY user_id, date_trunc('month', date), provider, model_id;
+
+-- Called by the chat-* edge functions (service role) once a reply finishes
+CREATE OR REPLACE FUNCTION public.record_token_usage(
+  p_user_id uuid,
+  p_provider text,
+  p_model_id text,
+  p_input_tokens integer,
+  p_output_tokens integer,
+  p_cost_usd numeric
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  INSERT INTO public.token_usage_daily (user_id, date, provider, model_id, request_count, input_tokens, output_tokens, cost_usd)
+  VALUES (p_user_id, CURRENT_DATE, p_provider, p_model_id, 1, p_input_tokens, p_output_tokens, p_cost_usd)
+  ON CONFLICT (user_id, date, provider, model_id)
+  DO UPDATE SET
+    request_count = token_usage_daily.request_count + 1,
+    input_tokens = token_usage_daily.input_tokens + EXCLUDED.input_tokens,
+    output_tokens = token_usage_daily.output_tokens + EXCLUDED.output_tokens,
+    cost_usd = token_usage_daily.cost_usd + EXCLUDED.cost_usd,
+    updated_at = now();
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_token_usage(uuid, text, text, integer, integer, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_token_usage(uuid, text, text, integer, integer, numeric) TO service_role;
@@ -0,0 +1,70 @@
+-- Sends already counted against daily_usage. Every request of one fan-out
+-- send carries the same send_id, so the send is counted once.
+CREATE TABLE public.daily_sends (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  send_id TEXT NOT NULL,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, send_id)
+);
+
+CREATE INDEX idx_daily_sends_date ON public.daily_sends(date);
+
+-- Only the edge functions (service role) touch this table
+ALTER TABLE public.daily_sends ENABLE ROW LEVEL SECURITY;
+
+-- Atomically counts a send against the daily message limit. Requests whose
+-- send_id was already counted are always allowed. p_limit NULL = unlimited.
+CREATE OR REPLACE FUNCTION public.consume_message_quota(
+  p_user_id uuid,
+  p_send_id text,
+  p_limit integer
+)
+RETURNS TABLE(allowed boolean, message_count integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  SELECT COALESCE(du.message_count, 0) INTO v_count
+  FROM public.daily_usage du
+  WHERE du.user_id = p_user_id
+    AND du.date = CURRENT_DATE;
+  v_count := COALESCE(v_count, 0);
+
+  IF EXISTS (SELECT 1 FROM public.daily_sends ds WHERE ds.user_id = p_user_id AND ds.send_id = p_send_id) THEN
+    RETURN QUERY SELECT true, v_count;
+    RETURN;
+  END IF;
+
+  IF p_limit IS NOT NULL AND v_count >= p_limit THEN
+    RETURN QUERY SELECT false, v_count;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.daily_sends (user_id, send_id)
+  VALUES (p_user_id, p_send_id)
+  ON CONFLICT (user_id, send_id) DO NOTHING;
+
+  -- Another request of the same send got here first
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT true, v_count;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.daily_usage (user_id, date, message_count)
+  VALUES (p_user_id, CURRENT_DATE, 1)
+  ON CONFLICT (user_id, date)
+  DO UPDATE SET 
+    message_count = daily_usage.message_count + 1,
+    updated_at = now()
+  RETURNING daily_usage.message_count INTO v_count;
+
+  RETURN QUERY SELECT true, v_count;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_message_quota(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_message_quota(uuid, text, integer) TO service_role;
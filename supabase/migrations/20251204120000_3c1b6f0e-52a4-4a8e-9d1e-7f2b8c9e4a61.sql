@@ -0,0 +1,34 @@
+-- Judge verdicts for arena rounds. A round is anchored on the user message
+-- that was fanned out to every provider.
+CREATE TABLE public.round_verdicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  prompt_message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  judge_provider TEXT NOT NULL REFERENCES public.ai_providers(id) ON UPDATE CASCADE,
+  judge_model TEXT NOT NULL,
+  -- { criteria, ranking, scores, rationale, labels } with providers de-anonymized
+  verdict JSONB NOT NULL,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (prompt_message_id)
+);
+
+CREATE INDEX idx_round_verdicts_session ON public.round_verdicts(session_id);
+
+-- Written by the judge-round edge function (service role)
+ALTER TABLE public.round_verdicts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own verdicts"
+ON public.round_verdicts
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own verdicts"
+ON public.round_verdicts
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
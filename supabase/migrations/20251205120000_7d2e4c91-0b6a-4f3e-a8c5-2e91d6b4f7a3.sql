@@ -0,0 +1,129 @@
+-- Whether web search was on for the send, so votes can be split by it
+ALTER TABLE public.messages
+ADD COLUMN web_search_enabled BOOLEAN;
+
+-- Human preference votes on assistant replies. A row holds a thumbs vote,
+-- a best-of-round pick, or both; rows with neither are deleted.
+CREATE TABLE public.message_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  -- The user message that started the round (same anchor as round_verdicts)
+  prompt_message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  vote SMALLINT CHECK (vote IN (-1, 1)),
+  is_best BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id)
+);
+
+-- One best-of-round pick per user per round
+CREATE UNIQUE INDEX idx_message_votes_best_per_round
+ON public.message_votes(user_id, prompt_message_id)
+WHERE is_best;
+
+CREATE INDEX idx_message_votes_session ON public.message_votes(session_id);
+
+ALTER TABLE public.message_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own votes"
+ON public.message_votes
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can vote on messages in their sessions"
+ON public.message_votes
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    JOIN public.chat_sessions s ON s.id = m.session_id
+    WHERE m.id = message_id
+      AND m.session_id = message_votes.session_id
+      AND m.role = 'assistant'
+      AND s.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own votes"
+ON public.message_votes
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own votes"
+ON public.message_votes
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_message_votes_updated_at
+BEFORE UPDATE ON public.message_votes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every answer of every voted round, with the voter's vote on it (if any).
+-- Feeds the leaderboard across all users without exposing message content.
+-- A round is the prompt plus the assistant replies up to the next user message.
+CREATE OR REPLACE FUNCTION public.get_leaderboard_votes(
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_web_search boolean DEFAULT NULL
+)
+RETURNS TABLE(
+  round_id uuid,
+  voter_id uuid,
+  ai_model text,
+  vote smallint,
+  is_best boolean,
+  web_search_enabled boolean,
+  voted_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  WITH voted_rounds AS (
+    SELECT v.prompt_message_id, v.user_id, MAX(v.updated_at) AS voted_at
+    FROM public.message_votes v
+    WHERE v.prompt_message_id IS NOT NULL
+    GROUP BY v.prompt_message_id, v.user_id
+  )
+  SELECT
+    r.prompt_message_id,
+    r.user_id,
+    m.ai_model,
+    v.vote,
+    COALESCE(v.is_best, false),
+    m.web_search_enabled,
+    r.voted_at
+  FROM voted_rounds r
+  JOIN public.messages p ON p.id = r.prompt_message_id
+  JOIN public.messages m
+    ON m.session_id = p.session_id
+   AND m.role = 'assistant'
+   AND m.ai_model IS NOT NULL
+   AND m.content NOT LIKE 'Error:%'
+   AND m.created_at > p.created_at
+   AND m.created_at < COALESCE((
+     SELECT MIN(n.created_at)
+     FROM public.messages n
+     WHERE n.session_id = p.session_id
+       AND n.role = 'user'
+       AND n.created_at > p.created_at
+   ), 'infinity'::timestamptz)
+  LEFT JOIN public.message_votes v ON v.message_id = m.id AND v.user_id = r.user_id
+  WHERE auth.uid() IS NOT NULL
+    AND (p_from IS NULL OR p.created_at >= p_from)
+    AND (p_to IS NULL OR p.created_at < p_to)
+    AND (p_web_search IS NULL OR m.web_search_enabled = p_web_search)
+  ORDER BY r.voted_at, r.prompt_message_id;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_leaderboard_votes(timestamptz, timestamptz, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_leaderboard_votes(timestamptz, timestamptz, boolean) TO authenticated;
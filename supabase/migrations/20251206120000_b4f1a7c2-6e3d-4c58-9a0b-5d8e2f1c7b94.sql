@@ -0,0 +1,70 @@
+-- Explicit rounds: each assistant reply points at the user message that
+-- produced it. Replies sharing a parent form one round.
+ALTER TABLE public.messages
+ADD COLUMN parent_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_messages_parent_message_id ON public.messages(parent_message_id);
+
+-- Backfill: attach existing replies to the latest user message before them
+UPDATE public.messages m
+SET parent_message_id = (
+  SELECT p.id
+  FROM public.messages p
+  WHERE p.session_id = m.session_id
+    AND p.role = 'user'
+    AND p.created_at <= m.created_at
+  ORDER BY p.created_at DESC
+  LIMIT 1
+)
+WHERE m.role = 'assistant'
+  AND m.parent_message_id IS NULL;
+
+-- Rounds are now explicit, so the leaderboard no longer infers them from
+-- timestamps
+CREATE OR REPLACE FUNCTION public.get_leaderboard_votes(
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_web_search boolean DEFAULT NULL
+)
+RETURNS TABLE(
+  round_id uuid,
+  voter_id uuid,
+  ai_model text,
+  vote smallint,
+  is_best boolean,
+  web_search_enabled boolean,
+  voted_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  WITH voted_rounds AS (
+    SELECT v.prompt_message_id, v.user_id, MAX(v.updated_at) AS voted_at
+    FROM public.message_votes v
+    WHERE v.prompt_message_id IS NOT NULL
+    GROUP BY v.prompt_message_id, v.user_id
+  )
+  SELECT
+    r.prompt_message_id,
+    r.user_id,
+    m.ai_model,
+    v.vote,
+    COALESCE(v.is_best, false),
+    m.web_search_enabled,
+    r.voted_at
+  FROM voted_rounds r
+  JOIN public.messages p ON p.id = r.prompt_message_id
+  JOIN public.messages m
+    ON m.parent_message_id = p.id
+   AND m.role = 'assistant'
+   AND m.ai_model IS NOT NULL
+   AND m.content NOT LIKE 'Error:%'
+  LEFT JOIN public.message_votes v ON v.message_id = m.id AND v.user_id = r.user_id
+  WHERE auth.uid() IS NOT NULL
+    AND (p_from IS NULL OR p.created_at >= p_from)
+    AND (p_to IS NULL OR p.created_at < p_to)
+    AND (p_web_search IS NULL OR m.web_search_enabled = p_web_search)
+  ORDER BY r.voted_at, r.prompt_message_id;
+$function$;
@@ -0,0 +1,28 @@
+-- Conversation branching (see src/lib/branches.ts)
+--
+-- Prompts now also carry parent_message_id, pointing at the prompt before
+-- them, so an edited prompt can start a branch that leaves later turns
+-- behind. branch_of marks a regenerated reply or edited prompt as another
+-- version of an existing message.
+ALTER TABLE public.messages
+ADD COLUMN branch_of UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_messages_branch_of ON public.messages(branch_of);
+
+-- Backfill: chain existing prompts in the order they were sent
+UPDATE public.messages m
+SET parent_message_id = (
+  SELECT p.id
+  FROM public.messages p
+  WHERE p.session_id = m.session_id
+    AND p.role = 'user'
+    AND p.created_at < m.created_at
+  ORDER BY p.created_at DESC
+  LIMIT 1
+)
+WHERE m.role = 'user'
+  AND m.parent_message_id IS NULL;
+
+-- Which version of each sibling set is shown: { <original id>: <version id> }
+ALTER TABLE public.chat_sessions
+ADD COLUMN active_branches JSONB NOT NULL DEFAULT '{}'::jsonb;
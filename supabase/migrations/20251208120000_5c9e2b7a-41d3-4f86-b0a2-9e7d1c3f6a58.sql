@@ -0,0 +1,295 @@
+-- Server-side search over everything a user has written or saved.
+-- search_documents mirrors messages, knowledge_base, research_library and
+-- ledger_entries into one table with a full-text vector and an embedding, so
+-- a single query can rank across all of them.
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE public.search_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_type TEXT NOT NULL CHECK (source_type IN ('messages', 'knowledge_base', 'research_library', 'ledger_entries')),
+  source_id UUID NOT NULL,
+  -- Only set for messages, so a hit can open its conversation
+  session_id UUID REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT '',
+  content TEXT NOT NULL,
+  fts TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', title), 'A') ||
+    setweight(to_tsvector('english', content), 'B')
+  ) STORED,
+  -- Filled in lazily by the search edge function; NULL means pending
+  embedding extensions.vector(1536),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (source_type, source_id)
+);
+
+CREATE INDEX idx_search_documents_fts ON public.search_documents USING gin(fts);
+CREATE INDEX idx_search_documents_user ON public.search_documents(user_id, source_type);
+CREATE INDEX idx_search_documents_pending ON public.search_documents(user_id) WHERE embedding IS NULL;
+CREATE INDEX idx_search_documents_embedding
+ON public.search_documents
+USING hnsw (embedding extensions.vector_cosine_ops);
+
+ALTER TABLE public.search_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own search documents"
+ON public.search_documents
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_search_documents_updated_at
+BEFORE UPDATE ON public.search_documents
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Inserts or refreshes one document. The embedding is dropped when the text
+-- changes so it gets recomputed.
+CREATE OR REPLACE FUNCTION public.upsert_search_document(
+  p_user_id uuid,
+  p_source_type text,
+  p_source_id uuid,
+  p_session_id uuid,
+  p_title text,
+  p_content text,
+  p_created_at timestamptz
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF p_user_id IS NULL OR COALESCE(btrim(p_content), '') = '' THEN
+    DELETE FROM public.search_documents
+    WHERE source_type = p_source_type AND source_id = p_source_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.search_documents (user_id, source_type, source_id, session_id, title, content, created_at)
+  VALUES (p_user_id, p_source_type, p_source_id, p_session_id, COALESCE(p_title, ''), p_content, p_created_at)
+  ON CONFLICT (source_type, source_id) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      session_id = EXCLUDED.session_id,
+      title = EXCLUDED.title,
+      content = EXCLUDED.content,
+      embedding = CASE
+        WHEN search_documents.title IS DISTINCT FROM EXCLUDED.title
+          OR search_documents.content IS DISTINCT FROM EXCLUDED.content
+        THEN NULL
+        ELSE search_documents.embedding
+      END;
+END;
+$function$;
+
+-- Ledger bodies come in a few shapes; index the human-readable part
+CREATE OR REPLACE FUNCTION public.ledger_search_text(p_body jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT COALESCE(p_body->>'content', p_body->>'summary', p_body::text);
+$function$;
+
+CREATE OR REPLACE FUNCTION public.sync_search_document()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.search_documents
+    WHERE source_type = TG_TABLE_NAME AND source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  IF TG_TABLE_NAME = 'messages' THEN
+    PERFORM public.upsert_search_document(
+      s.user_id, 'messages', NEW.id, NEW.session_id, s.title,
+      CASE WHEN NEW.content LIKE 'Error:%' THEN NULL ELSE NEW.content END,
+      NEW.created_at
+    )
+    FROM public.chat_sessions s
+    WHERE s.id = NEW.session_id;
+  ELSIF TG_TABLE_NAME = 'knowledge_base' THEN
+    PERFORM public.upsert_search_document(
+      NEW.user_id, 'knowledge_base', NEW.id, NULL, NEW.title, NEW.content, NEW.created_at
+    );
+  ELSIF TG_TABLE_NAME = 'research_library' THEN
+    PERFORM public.upsert_search_document(
+      NEW.user_id, 'research_library', NEW.id, NULL, NEW.title, NEW.content, NEW.created_at
+    );
+  ELSIF TG_TABLE_NAME = 'ledger_entries' THEN
+    PERFORM public.upsert_search_document(
+      NEW.user_id, 'ledger_entries', NEW.id, NULL,
+      NEW.entry_type || ' · ' || NEW.agent_id,
+      public.ledger_search_text(NEW.body_json),
+      NEW.created_at
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_messages_search_document
+AFTER INSERT OR UPDATE OF content OR DELETE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_search_document();
+
+CREATE TRIGGER sync_knowledge_base_search_document
+AFTER INSERT OR UPDATE OF title, content, user_id OR DELETE ON public.knowledge_base
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_search_document();
+
+CREATE TRIGGER sync_research_library_search_document
+AFTER INSERT OR UPDATE OF title, content, user_id OR DELETE ON public.research_library
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_search_document();
+
+CREATE TRIGGER sync_ledger_entries_search_document
+AFTER INSERT OR DELETE ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_search_document();
+
+-- Session titles are part of every message document
+CREATE OR REPLACE FUNCTION public.sync_session_search_title()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  UPDATE public.search_documents
+  SET title = NEW.title, embedding = NULL
+  WHERE source_type = 'messages' AND session_id = NEW.id;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_chat_sessions_search_title
+AFTER UPDATE OF title ON public.chat_sessions
+FOR EACH ROW
+WHEN (OLD.title IS DISTINCT FROM NEW.title)
+EXECUTE FUNCTION public.sync_session_search_title();
+
+-- Backfill
+INSERT INTO public.search_documents (user_id, source_type, source_id, session_id, title, content, created_at)
+SELECT s.user_id, 'messages', m.id, m.session_id, s.title, m.content, m.created_at
+FROM public.messages m
+JOIN public.chat_sessions s ON s.id = m.session_id
+WHERE s.user_id IS NOT NULL
+  AND btrim(m.content) <> ''
+  AND m.content NOT LIKE 'Error:%';
+
+INSERT INTO public.search_documents (user_id, source_type, source_id, title, content, created_at)
+SELECT k.user_id, 'knowledge_base', k.id, k.title, k.content, k.created_at
+FROM public.knowledge_base k
+WHERE k.user_id IS NOT NULL AND btrim(k.content) <> '';
+
+INSERT INTO public.search_documents (user_id, source_type, source_id, title, content, created_at)
+SELECT r.user_id, 'research_library', r.id, r.title, r.content, r.created_at
+FROM public.research_library r
+WHERE btrim(r.content) <> '';
+
+INSERT INTO public.search_documents (user_id, source_type, source_id, title, content, created_at)
+SELECT l.user_id, 'ledger_entries', l.id, l.entry_type || ' · ' || l.agent_id, public.ledger_search_text(l.body_json), l.created_at
+FROM public.ledger_entries l
+WHERE l.user_id IS NOT NULL;
+
+-- Hybrid search: full-text and vector candidates merged with reciprocal rank
+-- fusion, so an exact keyword hit and a paraphrase both surface. Snippets
+-- come back unmarked; the client highlights the query terms itself.
+CREATE OR REPLACE FUNCTION public.search_documents_hybrid(
+  p_user_id uuid,
+  p_query text,
+  p_query_embedding extensions.vector(1536) DEFAULT NULL,
+  p_sources text[] DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0,
+  p_min_similarity double precision DEFAULT 0.3
+)
+RETURNS TABLE(
+  source_type text,
+  source_id uuid,
+  session_id uuid,
+  title text,
+  snippet text,
+  created_at timestamptz,
+  text_rank real,
+  similarity double precision,
+  score double precision,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $function$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS tsq
+  ),
+  scoped AS (
+    SELECT d.*
+    FROM public.search_documents d
+    WHERE d.user_id = p_user_id
+      AND (p_sources IS NULL OR d.source_type = ANY(p_sources))
+      AND (p_session_id IS NULL OR d.session_id = p_session_id)
+  ),
+  lexical AS (
+    SELECT s.id,
+           ts_rank_cd(s.fts, q.tsq) AS text_rank,
+           row_number() OVER (ORDER BY ts_rank_cd(s.fts, q.tsq) DESC) AS rank
+    FROM scoped s, query q
+    WHERE s.fts @@ q.tsq
+    ORDER BY text_rank DESC
+    LIMIT 200
+  ),
+  semantic AS (
+    SELECT s.id,
+           1 - (s.embedding <=> p_query_embedding) AS similarity,
+           row_number() OVER (ORDER BY s.embedding <=> p_query_embedding) AS rank
+    FROM scoped s
+    WHERE p_query_embedding IS NOT NULL
+      AND s.embedding IS NOT NULL
+    ORDER BY s.embedding <=> p_query_embedding
+    LIMIT 200
+  ),
+  fused AS (
+    SELECT COALESCE(l.id, v.id) AS id,
+           l.text_rank,
+           v.similarity,
+           COALESCE(1.0 / (60 + l.rank), 0) + COALESCE(1.0 / (60 + v.rank), 0) AS score
+    FROM lexical l
+    FULL OUTER JOIN semantic v ON v.id = l.id
+    WHERE l.id IS NOT NULL OR v.similarity >= p_min_similarity
+  )
+  SELECT d.source_type,
+         d.source_id,
+         d.session_id,
+         d.title,
+         ts_headline(
+           'english', d.content, q.tsq,
+           'StartSel="", StopSel="", MinWords=15, MaxWords=40, MaxFragments=2, FragmentDelimiter=" … "'
+         ),
+         d.created_at,
+         f.text_rank,
+         f.similarity,
+         f.score::double precision,
+         count(*) OVER ()
+  FROM fused f
+  JOIN public.search_documents d ON d.id = f.id
+  CROSS JOIN query q
+  ORDER BY f.score DESC, d.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$function$;
+
+-- Called by the search edge function with an explicit user id
+REVOKE EXECUTE ON FUNCTION public.search_documents_hybrid(uuid, text, extensions.vector, text[], uuid, integer, integer, double precision) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_documents_hybrid(uuid, text, extensions.vector, text[], uuid, integer, integer, double precision) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.upsert_search_document(uuid, text, uuid, uuid, text, text, timestamptz) FROM PUBLIC, anon, authenticated;
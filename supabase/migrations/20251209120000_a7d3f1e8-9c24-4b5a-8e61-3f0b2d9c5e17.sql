@@ -0,0 +1,119 @@
+-- Retrieval-augmented context. Knowledge items, research entries and chat
+-- files are split into chunks with embeddings; the chat functions inject only
+-- the chunks most relevant to each prompt, within a per-provider budget.
+CREATE TABLE public.document_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_type TEXT NOT NULL CHECK (source_type IN ('knowledge_base', 'research_library', 'chat_files')),
+  source_id UUID NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  -- Title or filename of the source, repeated so a chunk reads on its own
+  title TEXT NOT NULL DEFAULT '',
+  content TEXT NOT NULL,
+  token_count INTEGER NOT NULL,
+  fts TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  embedding extensions.vector(1536),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (source_type, source_id, chunk_index)
+);
+
+CREATE INDEX idx_document_chunks_source ON public.document_chunks(source_type, source_id);
+CREATE INDEX idx_document_chunks_user ON public.document_chunks(user_id);
+CREATE INDEX idx_document_chunks_fts ON public.document_chunks USING gin(fts);
+CREATE INDEX idx_document_chunks_embedding
+ON public.document_chunks
+USING hnsw (embedding extensions.vector_cosine_ops);
+
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document chunks"
+ON public.document_chunks
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Chunks are rebuilt lazily, so an edited or deleted source just drops its
+-- chunks and the next retrieval re-chunks it
+CREATE OR REPLACE FUNCTION public.invalidate_document_chunks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  DELETE FROM public.document_chunks
+  WHERE source_type = TG_TABLE_NAME AND source_id = OLD.id;
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+CREATE TRIGGER invalidate_knowledge_base_chunks
+AFTER UPDATE OF title, content OR DELETE ON public.knowledge_base
+FOR EACH ROW
+EXECUTE FUNCTION public.invalidate_document_chunks();
+
+CREATE TRIGGER invalidate_research_library_chunks
+AFTER UPDATE OF title, content OR DELETE ON public.research_library
+FOR EACH ROW
+EXECUTE FUNCTION public.invalidate_document_chunks();
+
+CREATE TRIGGER invalidate_chat_files_chunks
+AFTER UPDATE OF content_preview OR DELETE ON public.chat_files
+FOR EACH ROW
+EXECUTE FUNCTION public.invalidate_document_chunks();
+
+-- Candidate chunks for a prompt, nearest first. Without a query embedding
+-- they are ranked on full text instead.
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  p_user_id uuid,
+  p_query text,
+  p_query_embedding extensions.vector(1536) DEFAULT NULL,
+  p_knowledge_ids uuid[] DEFAULT '{}',
+  p_file_ids uuid[] DEFAULT '{}',
+  p_include_research boolean DEFAULT false,
+  p_limit integer DEFAULT 40
+)
+RETURNS TABLE(
+  id uuid,
+  source_type text,
+  source_id uuid,
+  chunk_index integer,
+  title text,
+  content text,
+  token_count integer,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $function$
+  SELECT c.id,
+         c.source_type,
+         c.source_id,
+         c.chunk_index,
+         c.title,
+         c.content,
+         c.token_count,
+         CASE
+           WHEN p_query_embedding IS NOT NULL AND c.embedding IS NOT NULL
+           THEN 1 - (c.embedding <=> p_query_embedding)
+           ELSE ts_rank_cd(c.fts, plainto_tsquery('english', p_query))
+         END AS score
+  FROM public.document_chunks c
+  WHERE c.user_id = p_user_id
+    AND (
+      (c.source_type = 'knowledge_base' AND c.source_id = ANY(p_knowledge_ids))
+      OR (c.source_type = 'chat_files' AND c.source_id = ANY(p_file_ids))
+      OR (c.source_type = 'research_library' AND p_include_research)
+    )
+  ORDER BY score DESC, c.chunk_index
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.match_document_chunks(uuid, text, extensions.vector, uuid[], uuid[], boolean, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_document_chunks(uuid, text, extensions.vector, uuid[], uuid[], boolean, integer) TO service_role;
+
+-- Which chunks were injected into the prompt that produced a reply
+ALTER TABLE public.messages
+ADD COLUMN context_chunks JSONB;
@@ -0,0 +1,81 @@
+-- Document ingestion for chat uploads. The ingest-file edge function extracts
+-- the full text of PDFs, DOCX, HTML, CSV/TSV and source files and stores it
+-- here together with its page/section structure.
+ALTER TABLE public.chat_files
+ADD COLUMN extraction_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (extraction_status IN ('pending', 'processing', 'ready', 'failed', 'unsupported')),
+ADD COLUMN extracted_text TEXT,
+-- [{kind, title, start, end}] with character offsets into extracted_text
+ADD COLUMN structure JSONB,
+ADD COLUMN page_count INTEGER,
+ADD COLUMN extraction_error TEXT,
+ADD COLUMN extracted_at TIMESTAMPTZ;
+
+-- Re-chunk a file for retrieval once its full text arrives
+DROP TRIGGER IF EXISTS invalidate_chat_files_chunks ON public.chat_files;
+
+CREATE TRIGGER invalidate_chat_files_chunks
+AFTER UPDATE OF content_preview, extracted_text OR DELETE ON public.chat_files
+FOR EACH ROW
+EXECUTE FUNCTION public.invalidate_document_chunks();
+
+-- Extracted files are searchable alongside messages and notes
+ALTER TABLE public.search_documents
+DROP CONSTRAINT search_documents_source_type_check;
+
+ALTER TABLE public.search_documents
+ADD CONSTRAINT search_documents_source_type_check
+CHECK (source_type IN ('messages', 'knowledge_base', 'research_library', 'ledger_entries', 'chat_files'));
+
+CREATE OR REPLACE FUNCTION public.sync_search_document()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.search_documents
+    WHERE source_type = TG_TABLE_NAME AND source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  IF TG_TABLE_NAME = 'messages' THEN
+    PERFORM public.upsert_search_document(
+      s.user_id, 'messages', NEW.id, NEW.session_id, s.title,
+      CASE WHEN NEW.content LIKE 'Error:%' THEN NULL ELSE NEW.content END,
+      NEW.created_at
+    )
+    FROM public.chat_sessions s
+    WHERE s.id = NEW.session_id;
+  ELSIF TG_TABLE_NAME = 'knowledge_base' THEN
+    PERFORM public.upsert_search_document(
+      NEW.user_id, 'knowledge_base', NEW.id, NULL, NEW.title, NEW.content, NEW.created_at
+    );
+  ELSIF TG_TABLE_NAME = 'research_library' THEN
+    PERFORM public.upsert_search_document(
+      NEW.user_id, 'research_library', NEW.id, NULL, NEW.title, NEW.content, NEW.created_at
+    );
+  ELSIF TG_TABLE_NAME = 'ledger_entries' THEN
+    PERFORM public.upsert_search_document(
+      NEW.user_id, 'ledger_entries', NEW.id, NULL,
+      NEW.entry_type || ' · ' || NEW.agent_id,
+      public.ledger_search_text(NEW.body_json),
+      NEW.created_at
+    );
+  ELSIF TG_TABLE_NAME = 'chat_files' THEN
+    PERFORM public.upsert_search_document(
+      s.user_id, 'chat_files', NEW.id, NEW.session_id, NEW.filename, NEW.extracted_text, NEW.created_at
+    )
+    FROM public.chat_sessions s
+    WHERE s.id = NEW.session_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_chat_files_search_document
+AFTER INSERT OR UPDATE OF filename, extracted_text OR DELETE ON public.chat_files
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_search_document();
@@ -0,0 +1,5 @@
+-- Images attached to a prompt, as [{fileId, filename, mimeType, path}].
+-- Replies look at their prompt's attachments to tell whether the model
+-- could actually see them.
+ALTER TABLE public.messages
+ADD COLUMN attachments JSONB;
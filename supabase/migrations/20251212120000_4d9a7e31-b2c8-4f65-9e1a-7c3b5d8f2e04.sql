@@ -0,0 +1,26 @@
+-- Rolling summaries of the turns that no longer fit a provider's context
+-- window: { <provider id>: {summary, throughMessageId, summarizedCount, updatedAt} }
+ALTER TABLE public.chat_sessions
+ADD COLUMN context_summaries JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Replaces one provider's summary without touching the others, so a fan-out
+-- send summarizing for several providers at once cannot lose an update
+CREATE OR REPLACE FUNCTION public.set_context_summary(
+  p_session_id uuid,
+  p_provider text,
+  p_summary jsonb
+)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  UPDATE public.chat_sessions
+  SET context_summaries = context_summaries || jsonb_build_object(p_provider, p_summary)
+  WHERE id = p_session_id
+  RETURNING context_summaries;
+$function$;
+
+-- Called by the summarize-history edge function after its ownership check
+REVOKE EXECUTE ON FUNCTION public.set_context_summary(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_context_summary(uuid, text, jsonb) TO service_role;
@@ -0,0 +1,54 @@
+-- Per-session, per-provider model configuration. Null columns fall back to
+-- the provider's defaults; the chat functions validate every value against
+-- the allow-list for the user's tier before using it.
+CREATE TABLE public.session_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL REFERENCES public.ai_providers(id) ON DELETE CASCADE,
+  model_id TEXT,
+  temperature NUMERIC(3, 2) CHECK (temperature BETWEEN 0 AND 2),
+  max_tokens INTEGER CHECK (max_tokens > 0),
+  system_prompt TEXT CHECK (char_length(system_prompt) <= 8000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (session_id, provider)
+);
+
+ALTER TABLE public.session_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own session settings"
+ON public.session_settings
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can configure their own sessions"
+ON public.session_settings
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.chat_sessions s
+    WHERE s.id = session_id
+      AND s.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own session settings"
+ON public.session_settings
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own session settings"
+ON public.session_settings
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_session_settings_updated_at
+BEFORE UPDATE ON public.session_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
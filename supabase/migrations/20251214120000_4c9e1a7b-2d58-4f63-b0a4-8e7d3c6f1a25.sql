@@ -0,0 +1,47 @@
+-- Reusable prompts with {{variable}} placeholders. knowledge_ids are the
+-- knowledge_base items attached to the composer when the template is used;
+-- ids of items deleted since are skipped on the client.
+CREATE TABLE public.prompt_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  body TEXT NOT NULL CHECK (char_length(body) <= 20000),
+  category TEXT CHECK (char_length(category) <= 100),
+  default_target TEXT CHECK (default_target IN ('all', 'chatgpt', 'claude', 'deepseek')),
+  knowledge_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_prompt_templates_user ON public.prompt_templates(user_id, category);
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own prompt templates"
+ON public.prompt_templates
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own prompt templates"
+ON public.prompt_templates
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own prompt templates"
+ON public.prompt_templates
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own prompt templates"
+ON public.prompt_templates
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_prompt_templates_updated_at
+BEFORE UPDATE ON public.prompt_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,136 @@
+-- Batch evaluations: a prompt set run against each model outside of the
+-- normal chat sessions. The client drives the run; every (prompt, provider)
+-- pair without a completed result is still pending, which makes a run
+-- resumable from wherever it stopped.
+CREATE TABLE public.eval_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'paused', 'completed')),
+  providers TEXT[] NOT NULL DEFAULT ARRAY['chatgpt', 'claude', 'deepseek'],
+  judge_provider TEXT REFERENCES public.ai_providers(id),
+  web_search_enabled BOOLEAN NOT NULL DEFAULT false,
+  prompt_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.eval_prompts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.eval_runs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  prompt TEXT NOT NULL,
+  -- Written by the judge-eval function
+  verdict JSONB,
+  judge_model TEXT,
+  judge_cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (run_id, position)
+);
+
+CREATE TABLE public.eval_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.eval_runs(id) ON DELETE CASCADE,
+  prompt_id UUID NOT NULL REFERENCES public.eval_prompts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL REFERENCES public.ai_providers(id),
+  status TEXT NOT NULL CHECK (status IN ('completed', 'failed')),
+  response TEXT,
+  error TEXT,
+  model_id TEXT,
+  first_token_ms INTEGER,
+  latency_ms INTEGER,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (prompt_id, provider)
+);
+
+CREATE INDEX idx_eval_runs_user ON public.eval_runs(user_id, created_at DESC);
+CREATE INDEX idx_eval_results_run ON public.eval_results(run_id);
+
+ALTER TABLE public.eval_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.eval_prompts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.eval_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own eval runs"
+ON public.eval_runs
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own eval runs"
+ON public.eval_runs
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own eval runs"
+ON public.eval_runs
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own eval runs"
+ON public.eval_runs
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own eval prompts"
+ON public.eval_prompts
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add prompts to their own eval runs"
+ON public.eval_prompts
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.eval_runs r
+    WHERE r.id = run_id
+      AND r.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their own eval results"
+ON public.eval_results
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add results to their own eval runs"
+ON public.eval_results
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.eval_runs r
+    WHERE r.id = run_id
+      AND r.user_id = auth.uid()
+  )
+);
+
+-- Failed results are retried in place
+CREATE POLICY "Users can update their own eval results"
+ON public.eval_results
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_eval_runs_updated_at
+BEFORE UPDATE ON public.eval_runs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_eval_results_updated_at
+BEFORE UPDATE ON public.eval_results
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
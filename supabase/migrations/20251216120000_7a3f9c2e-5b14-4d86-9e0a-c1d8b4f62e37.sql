@@ -0,0 +1,30 @@
+-- Request telemetry: one row per chat request sent to a provider, written by
+-- the chat-* functions with the service role. Read by the admin dashboard.
+CREATE TABLE public.provider_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL REFERENCES public.ai_providers(id),
+  model_id TEXT,
+  -- Null for anonymous callers
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+  error_class TEXT CHECK (error_class IN ('rate_limit', 'auth', 'bad_request', 'upstream_error', 'timeout', 'stream_error', 'unknown')),
+  http_status INTEGER,
+  -- Null when the model produced no output
+  ttft_ms INTEGER,
+  latency_ms INTEGER NOT NULL,
+  web_search_used BOOLEAN NOT NULL DEFAULT false,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_provider_requests_created ON public.provider_requests(created_at DESC);
+CREATE INDEX idx_provider_requests_provider ON public.provider_requests(provider, created_at DESC);
+
+ALTER TABLE public.provider_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view provider requests"
+ON public.provider_requests
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
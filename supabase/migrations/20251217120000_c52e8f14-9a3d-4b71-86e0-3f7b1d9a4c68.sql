@@ -0,0 +1,15 @@
+-- Failed replies carry a typed error instead of "Error: ..." as content.
+-- error is { kind, message, status? } (see src/lib/chatStream.ts); content
+-- keeps whatever the model streamed before it failed.
+ALTER TABLE public.messages
+ADD COLUMN error JSONB;
+
+UPDATE public.messages
+SET error = jsonb_build_object('kind', 'unknown', 'message', substring(content FROM 8)),
+    content = ''
+WHERE role = 'assistant' AND content LIKE 'Error: %';
+
+-- Whether a model that keeps failing may be swapped for its fallback model
+-- (see supabase/functions/_shared/settings.ts)
+ALTER TABLE public.session_settings
+ADD COLUMN failover BOOLEAN NOT NULL DEFAULT true;
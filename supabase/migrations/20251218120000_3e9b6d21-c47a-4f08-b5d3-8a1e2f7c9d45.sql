@@ -0,0 +1,87 @@
+-- Merkle batching (see supabase/functions/ledger-batch). Each batch's
+-- root_hash is the root of a tree over its entries' body_hash values; the
+-- anchor columns record where that root was published.
+ALTER TABLE public.ledger_batches
+ADD COLUMN anchor_backend TEXT,
+ADD COLUMN anchored_at TIMESTAMPTZ;
+
+-- Batches anchored before this migration already have a transaction; keep
+-- ledger-batch from anchoring them again
+UPDATE public.ledger_batches
+SET anchored_at = created_at
+WHERE l2_tx IS NOT NULL
+  AND anchored_at IS NULL;
+
+-- One inclusion proof per batched entry: the sibling hashes from its leaf up
+-- to the batch root, [{hash, position: 'left' | 'right'}]
+CREATE TABLE public.ledger_proofs (
+  entry_id UUID PRIMARY KEY REFERENCES public.ledger_entries(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES public.ledger_batches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  leaf_index INTEGER NOT NULL,
+  leaf_hash TEXT NOT NULL,
+  path JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ledger_proofs_batch ON public.ledger_proofs(batch_id, leaf_index);
+CREATE INDEX idx_ledger_proofs_user ON public.ledger_proofs(user_id);
+
+ALTER TABLE public.ledger_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ledger proofs"
+ON public.ledger_proofs
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Creates the batch, claims its entries and stores their proofs in one
+-- transaction. Entries another run claimed first abort the whole batch, since
+-- its tree would no longer match what gets stored.
+CREATE OR REPLACE FUNCTION public.commit_ledger_batch(
+  p_user_id uuid,
+  p_entry_ids uuid[],
+  p_root_hash text,
+  p_proofs jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_batch_id uuid;
+  v_claimed integer;
+BEGIN
+  INSERT INTO public.ledger_batches (user_id, root_hash, entry_count, from_id, to_id)
+  VALUES (
+    p_user_id,
+    p_root_hash,
+    cardinality(p_entry_ids),
+    p_entry_ids[1],
+    p_entry_ids[cardinality(p_entry_ids)]
+  )
+  RETURNING id INTO v_batch_id;
+
+  UPDATE public.ledger_entries
+  SET batch_id = v_batch_id
+  WHERE id = ANY(p_entry_ids)
+    AND user_id = p_user_id
+    AND batch_id IS NULL;
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  IF v_claimed <> cardinality(p_entry_ids) THEN
+    RAISE EXCEPTION 'Only % of % entries could be batched', v_claimed, cardinality(p_entry_ids);
+  END IF;
+
+  INSERT INTO public.ledger_proofs (entry_id, batch_id, user_id, leaf_index, leaf_hash, path)
+  SELECT (proof->>'entry_id')::uuid, v_batch_id, p_user_id, (proof->>'leaf_index')::integer, proof->>'leaf_hash', proof->'path'
+  FROM jsonb_array_elements(p_proofs) AS proof;
+
+  RETURN v_batch_id;
+END;
+$function$;
+
+-- Called by the ledger-batch edge function
+REVOKE EXECUTE ON FUNCTION public.commit_ledger_batch(uuid, uuid[], text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.commit_ledger_batch(uuid, uuid[], text, jsonb) TO service_role;
@@ -0,0 +1,9 @@
+-- Entry types now come from the registry in
+-- supabase/functions/_shared/ledgerTypes.ts; add the two new ones. Pins from
+-- the chat were rejected by the old list.
+ALTER TABLE public.ledger_entries
+DROP CONSTRAINT valid_entry_type;
+
+ALTER TABLE public.ledger_entries
+ADD CONSTRAINT valid_entry_type
+CHECK (entry_type = ANY (ARRAY['memory'::text, 'context'::text, 'experience'::text, 'consolidation'::text, 'anchor_memory'::text, 'pin'::text, 'decision'::text]));
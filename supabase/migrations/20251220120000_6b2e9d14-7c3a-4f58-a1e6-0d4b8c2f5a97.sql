@@ -0,0 +1,101 @@
+-- A send_id used to be counted once forever: the key had no date, so a
+-- client could replay one send_id every day and never reach the message
+-- limit. Rows are now per day, and each row counts its requests so a
+-- send_id cannot be reused past what one send needs.
+ALTER TABLE public.daily_sends
+ADD COLUMN request_count INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.daily_sends
+DROP CONSTRAINT daily_sends_pkey;
+
+ALTER TABLE public.daily_sends
+ADD PRIMARY KEY (user_id, send_id, date);
+
+DROP FUNCTION public.consume_message_quota(uuid, text, integer);
+
+-- Atomically counts a send against the daily message limit. The first
+-- request of a send_id each day consumes one message; later requests of the
+-- same send are allowed without one, up to p_max_requests in total. Past
+-- that the send_id is refused with reason 'send_reused'. p_limit NULL =
+-- unlimited.
+CREATE OR REPLACE FUNCTION public.consume_message_quota(
+  p_user_id uuid,
+  p_send_id text,
+  p_limit integer,
+  p_max_requests integer
+)
+RETURNS TABLE(allowed boolean, message_count integer, reason text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  SELECT COALESCE(du.message_count, 0) INTO v_count
+  FROM public.daily_usage du
+  WHERE du.user_id = p_user_id
+    AND du.date = CURRENT_DATE;
+  v_count := COALESCE(v_count, 0);
+
+  -- Already counted today: only the request count moves
+  UPDATE public.daily_sends ds
+  SET request_count = ds.request_count + 1
+  WHERE ds.user_id = p_user_id
+    AND ds.send_id = p_send_id
+    AND ds.date = CURRENT_DATE
+    AND ds.request_count < p_max_requests;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT true, v_count, NULL::text;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.daily_sends ds
+    WHERE ds.user_id = p_user_id AND ds.send_id = p_send_id AND ds.date = CURRENT_DATE
+  ) THEN
+    RETURN QUERY SELECT false, v_count, 'send_reused'::text;
+    RETURN;
+  END IF;
+
+  IF p_limit IS NOT NULL AND v_count >= p_limit THEN
+    RETURN QUERY SELECT false, v_count, 'messages'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.daily_sends (user_id, send_id, date)
+  VALUES (p_user_id, p_send_id, CURRENT_DATE)
+  ON CONFLICT (user_id, send_id, date) DO NOTHING;
+
+  -- Another request of the same send got here first; count this one on its row
+  IF NOT FOUND THEN
+    UPDATE public.daily_sends ds
+    SET request_count = ds.request_count + 1
+    WHERE ds.user_id = p_user_id
+      AND ds.send_id = p_send_id
+      AND ds.date = CURRENT_DATE
+      AND ds.request_count < p_max_requests;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT true, v_count, NULL::text;
+    ELSE
+      RETURN QUERY SELECT false, v_count, 'send_reused'::text;
+    END IF;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.daily_usage (user_id, date, message_count)
+  VALUES (p_user_id, CURRENT_DATE, 1)
+  ON CONFLICT (user_id, date)
+  DO UPDATE SET
+    message_count = daily_usage.message_count + 1,
+    updated_at = now()
+  RETURNING daily_usage.message_count INTO v_count;
+
+  RETURN QUERY SELECT true, v_count, NULL::text;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_message_quota(uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_message_quota(uuid, text, integer, integer) TO service_role;
@@ -0,0 +1,114 @@
+-- Failed replies are marked by messages.error now, not by "Error: ..."
+-- content, so the leaderboard and search index test that column instead.
+
+-- Failed replies are not answers: they get no Elo and no votes
+CREATE OR REPLACE FUNCTION public.get_leaderboard_votes(
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_web_search boolean DEFAULT NULL
+)
+RETURNS TABLE(
+  round_id uuid,
+  voter_id uuid,
+  ai_model text,
+  vote smallint,
+  is_best boolean,
+  web_search_enabled boolean,
+  voted_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  WITH voted_rounds AS (
+    SELECT v.prompt_message_id, v.user_id, MAX(v.updated_at) AS voted_at
+    FROM public.message_votes v
+    WHERE v.prompt_message_id IS NOT NULL
+    GROUP BY v.prompt_message_id, v.user_id
+  )
+  SELECT
+    r.prompt_message_id,
+    r.user_id,
+    m.ai_model,
+    v.vote,
+    COALESCE(v.is_best, false),
+    m.web_search_enabled,
+    r.voted_at
+  FROM voted_rounds r
+  JOIN public.messages p ON p.id = r.prompt_message_id
+  JOIN public.messages m
+    ON m.parent_message_id = p.id
+   AND m.role = 'assistant'
+   AND m.ai_model IS NOT NULL
+   AND m.error IS NULL
+  LEFT JOIN public.message_votes v ON v.message_id = m.id AND v.user_id = r.user_id
+  WHERE auth.uid() IS NOT NULL
+    AND (p_from IS NULL OR p.created_at >= p_from)
+    AND (p_to IS NULL OR p.created_at < p_to)
+    AND (p_web_search IS NULL OR m.web_search_enabled = p_web_search)
+  ORDER BY r.voted_at, r.prompt_message_id;
+$function$;
+
+-- Partial text of a failed reply is not indexed
+CREATE OR REPLACE FUNCTION public.sync_search_document()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.search_documents
+    WHERE source_type = TG_TABLE_NAME AND source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  IF TG_TABLE_NAME = 'messages' THEN
+    PERFORM public.upsert_search_document(
+      s.user_id, 'messages', NEW.id, NEW.session_id, s.title,
+      CASE WHEN NEW.error IS NOT NULL THEN NULL ELSE NEW.content END,
+      NEW.created_at
+    )
+    FROM public.chat_sessions s
+    WHERE s.id = NEW.session_id;
+  ELSIF TG_TABLE_NAME = 'knowledge_base' THEN
+    PERFORM public.upsert_search_document(
+      NEW.user_id, 'knowledge_base', NEW.id, NULL, NEW.title, NEW.content, NEW.created_at
+    );
+  ELSIF TG_TABLE_NAME = 'research_library' THEN
+    PERFORM public.upsert_search_document(
+      NEW.user_id, 'research_library', NEW.id, NULL, NEW.title, NEW.content, NEW.created_at
+    );
+  ELSIF TG_TABLE_NAME = 'ledger_entries' THEN
+    PERFORM public.upsert_search_document(
+      NEW.user_id, 'ledger_entries', NEW.id, NULL,
+      NEW.entry_type || ' · ' || NEW.agent_id,
+      public.ledger_search_text(NEW.body_json),
+      NEW.created_at
+    );
+  ELSIF TG_TABLE_NAME = 'chat_files' THEN
+    PERFORM public.upsert_search_document(
+      s.user_id, 'chat_files', NEW.id, NEW.session_id, NEW.filename, NEW.extracted_text, NEW.created_at
+    )
+    FROM public.chat_sessions s
+    WHERE s.id = NEW.session_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- A reply can be marked failed after it was saved
+DROP TRIGGER IF EXISTS sync_messages_search_document ON public.messages;
+
+CREATE TRIGGER sync_messages_search_document
+AFTER INSERT OR UPDATE OF content, error OR DELETE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_search_document();
+
+DELETE FROM public.search_documents d
+USING public.messages m
+WHERE d.source_type = 'messages'
+  AND d.source_id = m.id
+  AND m.error IS NOT NULL;
@@ -0,0 +1,47 @@
+-- A vote's prompt_message_id decides which round it counts for on the
+-- leaderboard, so it must be the voted reply's own prompt. The old policies
+-- accepted any id.
+DROP POLICY "Users can vote on messages in their sessions" ON public.message_votes;
+DROP POLICY "Users can update their own votes" ON public.message_votes;
+
+CREATE POLICY "Users can vote on messages in their sessions"
+ON public.message_votes
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    JOIN public.chat_sessions s ON s.id = m.session_id
+    WHERE m.id = message_id
+      AND m.session_id = message_votes.session_id
+      AND m.role = 'assistant'
+      AND m.parent_message_id IS NOT DISTINCT FROM message_votes.prompt_message_id
+      AND s.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own votes"
+ON public.message_votes
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    JOIN public.chat_sessions s ON s.id = m.session_id
+    WHERE m.id = message_id
+      AND m.session_id = message_votes.session_id
+      AND m.role = 'assistant'
+      AND m.parent_message_id IS NOT DISTINCT FROM message_votes.prompt_message_id
+      AND s.user_id = auth.uid()
+  )
+);
+
+-- Votes already attached to another round count for none
+UPDATE public.message_votes v
+SET prompt_message_id = NULL
+FROM public.messages m
+WHERE m.id = v.message_id
+  AND v.prompt_message_id IS DISTINCT FROM m.parent_message_id;
@@ -0,0 +1,76 @@
+-- Candidate chunks for a prompt. Cosine similarity and ts_rank_cd are on
+-- different scales, so sorting them in one list buried every chunk without
+-- an embedding. Full-text and vector matches are now ranked separately and
+-- merged with reciprocal rank fusion, as in search_documents_hybrid. The
+-- score is scaled so a chunk ranked first in both lists scores 1.
+--
+-- Chunks that match neither way still come back, last and in document
+-- order, so a prompt with no keywords in common with a small file still
+-- gets it within the budget.
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  p_user_id uuid,
+  p_query text,
+  p_query_embedding extensions.vector(1536) DEFAULT NULL,
+  p_knowledge_ids uuid[] DEFAULT '{}',
+  p_file_ids uuid[] DEFAULT '{}',
+  p_include_research boolean DEFAULT false,
+  p_limit integer DEFAULT 40
+)
+RETURNS TABLE(
+  id uuid,
+  source_type text,
+  source_id uuid,
+  chunk_index integer,
+  title text,
+  content text,
+  token_count integer,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $function$
+  WITH query AS (
+    SELECT plainto_tsquery('english', p_query) AS tsq
+  ),
+  scoped AS (
+    SELECT c.*
+    FROM public.document_chunks c
+    WHERE c.user_id = p_user_id
+      AND (
+        (c.source_type = 'knowledge_base' AND c.source_id = ANY(p_knowledge_ids))
+        OR (c.source_type = 'chat_files' AND c.source_id = ANY(p_file_ids))
+        OR (c.source_type = 'research_library' AND p_include_research)
+      )
+  ),
+  lexical AS (
+    SELECT s.id,
+           row_number() OVER (ORDER BY ts_rank_cd(s.fts, q.tsq) DESC) AS rank
+    FROM scoped s, query q
+    WHERE s.fts @@ q.tsq
+  ),
+  semantic AS (
+    SELECT s.id,
+           row_number() OVER (ORDER BY s.embedding <=> p_query_embedding) AS rank
+    FROM scoped s
+    WHERE p_query_embedding IS NOT NULL
+      AND s.embedding IS NOT NULL
+  )
+  SELECT s.id,
+         s.source_type,
+         s.source_id,
+         s.chunk_index,
+         s.title,
+         s.content,
+         s.token_count,
+         (COALESCE(1.0 / (60 + l.rank), 0) + COALESCE(1.0 / (60 + v.rank), 0))::double precision * 61 / 2 AS score
+  FROM scoped s
+  LEFT JOIN lexical l ON l.id = s.id
+  LEFT JOIN semantic v ON v.id = s.id
+  ORDER BY score DESC, s.source_id, s.chunk_index
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$function$;
+
+-- Chunks whose embedding call failed are filled in by later requests
+CREATE INDEX idx_document_chunks_pending ON public.document_chunks(user_id) WHERE embedding IS NULL;